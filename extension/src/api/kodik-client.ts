@@ -8,8 +8,8 @@ import {
   IDType
 } from '../types/kodik';
 import { isValidKodikToken } from '../utils/url-parser';
-import { getKodikToken, cacheKodikToken } from '../utils/cache';
-import { decryptKodikUrl, getVideoLinks, extractVideoDataFromPage } from '../utils/decryption';
+import { kodikStreamResolver } from './stream-resolver';
+import { GetKodikTokenRequest, InvalidateKodikTokenRequest, KodikTokenResponse } from '../types/messages';
 
 interface CacheEntry<T> {
   data: T;
@@ -33,7 +33,7 @@ export class KodikAPIOptimized {
   
   // Конфигурация кэша
   private static readonly CACHE_CONFIG = {
-    TOKEN_TTL: 60 * 60 * 1000,      // 1 час
+    TOKEN_TTL: 60 * 60 * 1000,      // 1 час, для своего токена без срока из настроек
     API_RESPONSE_TTL: 10 * 60 * 1000, // 10 минут
     VIDEO_URL_TTL: 5 * 60 * 1000,    // 5 минут (видео ссылки живут меньше)
     MAX_CACHE_SIZE: 100,              // Максимум записей в кэше
@@ -137,125 +137,58 @@ export class KodikAPIOptimized {
   }
 
   /**
-   * Получает токен с многоуровневым кэшированием
+   * Получает токен: из памяти или у background, который хранит его в chrome.storage.local для всех вкладок
    */
   async getToken(options: RequestOptions = {}): Promise<string> {
-    const now = Date.now();
-    
     // 1. Проверяем memory cache
-    if (KodikAPIOptimized.tokenCache && now < KodikAPIOptimized.tokenCache.expires) {
+    if (KodikAPIOptimized.tokenCache && Date.now() < KodikAPIOptimized.tokenCache.expires) {
       this.token = KodikAPIOptimized.tokenCache.data;
       return this.token;
     }
 
-    // 2. Проверяем localStorage
-    try {
-      const cachedToken = await getKodikToken();
-      if (cachedToken && isValidKodikToken(cachedToken)) {
-        // Обновляем memory cache
-        KodikAPIOptimized.tokenCache = {
-          data: cachedToken,
-          timestamp: now,
-          expires: now + KodikAPIOptimized.CACHE_CONFIG.TOKEN_TTL
-        };
-        this.token = cachedToken;
-        return cachedToken;
-      }
-    } catch (error) {
-      console.warn('Failed to get cached token:', error);
-    }
-
-    // 3. Получаем новый токен с пулингом
-    const tokenKey = 'kodik_token_request';
-    
-    return this.executeWithPool(tokenKey, async () => {
-      const token = await this.fetchNewTokenWithRetry(options);
-      
-      // Кэшируем на всех уровнях
-      KodikAPIOptimized.tokenCache = {
-        data: token,
-        timestamp: now,
-        expires: now + KodikAPIOptimized.CACHE_CONFIG.TOKEN_TTL
-      };
-      
-      try {
-        await cacheKodikToken(token);
-      } catch (error) {
-        console.warn('Failed to cache token to localStorage:', error);
-      }
-      
-      this.token = token;
-      return token;
-    });
+    // 2. Запрашиваем у background с пулингом
+    return this.executeWithPool('kodik_token_request', () => this.requestToken({ type: 'GET_KODIK_TOKEN' }, options));
   }
 
   /**
-   * Получает новый токен с retry логикой
+   * Сообщает background об отвергнутом токене и получает новый
    */
-  private async fetchNewTokenWithRetry(options: RequestOptions): Promise<string> {
-    const maxRetries = options.retries ?? 3;
-    const timeout = options.timeout ?? 10000;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`🔑 Fetching new token (attempt ${attempt}/${maxRetries})`);
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
+  private async replaceRejectedToken(options: RequestOptions): Promise<string> {
+    const rejected = this.token;
+    this.token = null;
+    KodikAPIOptimized.tokenCache = null;
 
-        try {
-          const response = await fetch('https://kodik-add.com/add-players.min.js?v=2', {
-            signal: controller.signal,
-            headers: {
-              'Cache-Control': 'no-cache',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Accept': 'application/javascript, */*;q=0.1',
-              'Accept-Language': 'en-US,en;q=0.9,ru;q=0.8',
-              'Sec-Fetch-Dest': 'script',
-              'Sec-Fetch-Mode': 'no-cors',
-              'Sec-Fetch-Site': 'cross-site'
-            }
-          });
+    if (!rejected) return this.getToken(options);
+    return this.executeWithPool('kodik_token_request', () =>
+      this.requestToken({ type: 'INVALIDATE_KODIK_TOKEN', token: rejected }, options)
+    );
+  }
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+  private async requestToken(request: GetKodikTokenRequest | InvalidateKodikTokenRequest, options: RequestOptions): Promise<string> {
+    const timeout = options.timeout ?? 30000;
+    const response = await new Promise<KodikTokenResponse>((resolve) => {
+      const timeoutId = setTimeout(() => {
+        resolve({ success: false, error: 'Request timeout' });
+      }, timeout);
 
-          const scriptText = await response.text();
-          
-          // Улучшенный парсинг токена
-          const tokenMatches = scriptText.match(/token["\s]*[:=]["\s]*([a-f0-9]{32})/i);
-          if (!tokenMatches) {
-            throw new Error('Token pattern not found in script');
-          }
-          
-          const token = tokenMatches[1];
-          
-          if (!isValidKodikToken(token)) {
-            throw new Error(`Invalid token format: ${token}`);
-          }
+      chrome.runtime.sendMessage(request, (response?: KodikTokenResponse) => {
+        clearTimeout(timeoutId);
+        resolve(response ?? { success: false, error: chrome.runtime.lastError?.message || 'No response from background' });
+      });
+    });
 
-          console.log('✅ New token fetched successfully');
-          return token;
-          
-        } finally {
-          clearTimeout(timeoutId);
-        }
-        
-      } catch (error) {
-        console.warn(`❌ Token fetch attempt ${attempt} failed:`, error);
-        
-        if (attempt === maxRetries) {
-          throw new Error(`Failed to fetch token after ${maxRetries} attempts: ${error}`);
-        }
-        
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+    if (!response.success) {
+      throw new Error(`Failed to get token: ${response.error}`);
     }
-    
-    throw new Error('Unexpected error in token fetch retry loop');
+
+    const now = Date.now();
+    KodikAPIOptimized.tokenCache = {
+      data: response.token,
+      timestamp: now,
+      expires: response.expiresAt ?? now + KodikAPIOptimized.CACHE_CONFIG.TOKEN_TTL
+    };
+    this.token = response.token;
+    return response.token;
   }
 
   /**
@@ -347,11 +280,10 @@ export class KodikAPIOptimized {
             method: 'POST',
             body: formData,
             signal: controller.signal,
+            // Referer и Origin подставляют правила declarativeNetRequest (utils/header-rules.ts),
+            // но только для запросов background и страниц расширения: у вызовов из content script инициатор — страница сайта
             headers: {
               'Accept': 'application/json',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Origin': 'https://kodik.info',
-              'Referer': 'https://kodik.info/',
               'Accept-Language': 'en-US,en;q=0.9,ru;q=0.8'
             }
           });
@@ -364,12 +296,9 @@ export class KodikAPIOptimized {
           
           if (data.error) {
             if (data.error === 'Отсутствует или неверный токен') {
-              // Сбрасываем токен и повторяем
-              this.token = null;
-              KodikAPIOptimized.tokenCache = null;
-              
+              // Background сбрасывает токен и выдает новый, повторяем с ним
               if (attempt < maxRetries) {
-                await this.getToken(options);
+                await this.replaceRejectedToken(options);
                 continue;
               }
             }
@@ -503,15 +432,17 @@ export class KodikAPIOptimized {
 
   /**
    * Получает URL видео с кэшированием
+   * @param season сезон сериала; идет после options, чтобы не сдвигать прежние вызовы с options
    */
   async getVideoUrl(
     id: string, 
     idType: IDType, 
     episode: number, 
     translationId: string,
-    options: RequestOptions = {}
+    options: RequestOptions = {},
+    season: number = 1
   ): Promise<{ url: string; maxQuality: number }> {
-    const cacheKey = `video_${id}_${idType}_${episode}_${translationId}`;
+    const cacheKey = `video_${id}_${idType}_${season}_${episode}_${translationId}`;
     
     // Проверяем кэш (короткий TTL для видео URL)
     const cached = this.getCached<{ url: string; maxQuality: number }>(cacheKey);
@@ -521,7 +452,7 @@ export class KodikAPIOptimized {
 
     return this.executeWithPool(cacheKey, async () => {
       try {
-        console.log(`🎥 Getting video URL: ${id} ep${episode} trans${translationId}`);
+        console.log(`🎥 Getting video URL: ${id} s${season} ep${episode} trans${translationId}`);
         
         const link = await this.getLinkToInfo(id, idType);
         let embedUrl: string;
@@ -552,7 +483,7 @@ export class KodikAPIOptimized {
             throw new Error('Media hash/id not found for translation');
           }
           
-          embedUrl = `https://kodik.info/serial/${mediaId}/${mediaHash}/720p?min_age=16&first_url=false&season=1&episode=${episode}`;
+          embedUrl = `https://kodik.info/serial/${mediaId}/${mediaHash}/720p?min_age=16&first_url=false&season=${season}&episode=${episode}`;
         } else if (translationId !== '0' && episode === 0) {
           // Для фильма с переводом
           const response = await fetch(link);
@@ -584,24 +515,14 @@ export class KodikAPIOptimized {
           embedUrl = link;
         }
         
-        // Получаем HTML страницы плеера
-        const playerResponse = await fetch(embedUrl);
-        const playerHtml = await playerResponse.text();
-        
-        // Извлекаем данные из страницы
-        const videoData = extractVideoDataFromPage(playerHtml);
-        if (!videoData) {
-          throw new Error('Failed to extract video data');
-        }
-        
-        // Получаем ссылки на видео
-        const result = await getVideoLinks(
-          videoData.videoType,
-          videoData.videoHash,
-          videoData.videoId,
-          videoData.urlParams,
-          videoData.scriptUrl
-        );
+        // Получаем потоки через общий резолвер
+        const resolution = await kodikStreamResolver.resolve(embedUrl);
+        const baseStream = resolution.streams[360] ?? resolution.streams[resolution.qualities[resolution.qualities.length - 1]];
+        console.log('🧭 Extraction strategies:', resolution.diagnostics.matched);
+        const result = {
+          url: baseStream,
+          maxQuality: resolution.maxQuality
+        };
         
         // Очищаем URL
         const cleanUrl = result.url.replace('https:', '');
@@ -0,0 +1,409 @@
+// Единый пайплайн получения потоков Kodik
+// Используется content script'ом и API клиентом, стратегии извлечения подключаются по порядку
+
+import {
+  KodikExtractionStage,
+  KodikExtractionStrategies,
+  KodikExtractionStrategy,
+  KodikStreamDiagnostics,
+  KodikStreamMap,
+  KodikStreamResolution,
+  KodikUrlParams,
+  KodikVideoParams,
+  KodikVideoResponse
+} from '../types/kodik';
+import { SubtitleSource } from '../types/subtitles';
+import { decryptKodikUrl } from '../utils/decryption';
+
+/**
+ * Транспорт для сетевых запросов резолвера
+ */
+export interface KodikTransport {
+  getText(url: string): Promise<string>;
+  postForm(url: string, data: Record<string, string>): Promise<KodikVideoResponse>;
+}
+
+/**
+ * Ошибка резолвера с информацией о стадии и диагностикой
+ */
+export class KodikStreamResolveError extends Error {
+  constructor(
+    message: string,
+    public readonly stage: KodikExtractionStage | 'fetch' | 'links',
+    public readonly diagnostics: KodikStreamDiagnostics
+  ) {
+    super(message);
+    this.name = 'KodikStreamResolveError';
+  }
+}
+
+/**
+ * Парсит JSON и проверяет наличие подписей urlParams
+ */
+function parseUrlParams(json: string): KodikUrlParams | null {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && 'd' in parsed ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Собирает type/hash/id по трём регуляркам
+ */
+function matchVideoParams(html: string, type: RegExp, hash: RegExp, id: RegExp): KodikVideoParams | null {
+  const typeMatch = html.match(type);
+  const hashMatch = html.match(hash);
+  const idMatch = html.match(id);
+  if (!typeMatch || !hashMatch || !idMatch) return null;
+  return { type: typeMatch[1], hash: hashMatch[1], id: idMatch[1] };
+}
+
+// Стратегии по умолчанию, порядок важен: первая сработавшая побеждает
+const URL_PARAMS_STRATEGIES: KodikExtractionStrategy<KodikUrlParams>[] = [
+  {
+    // urlParams = '{"d":...}'; и urlParams='{"d":...}';
+    name: 'quoted-json',
+    extract: html => {
+      const match = html.match(/urlParams\s*=\s*'([^']+)'/);
+      return match ? parseUrlParams(match[1]) : null;
+    }
+  },
+  {
+    // urlParams = {...}; и var urlParams = {...};
+    name: 'object-literal',
+    extract: html => {
+      const match = html.match(/urlParams\s*=\s*({[^;]+});/);
+      return match ? parseUrlParams(match[1]) : null;
+    }
+  },
+  {
+    // Портирован из Python: data[data.find("urlParams") + 13 : data.find(";") - 1]
+    name: 'python-offset',
+    extract: html => {
+      const index = html.indexOf('urlParams');
+      if (index === -1) return null;
+      const start = index + 13;
+      const end = html.indexOf(';', start) - 1;
+      return end > start ? parseUrlParams(html.substring(start, end)) : null;
+    }
+  }
+];
+
+const VIDEO_PARAMS_STRATEGIES: KodikExtractionStrategy<KodikVideoParams>[] = [
+  {
+    // videoInfo.type = 'seria';
+    name: 'dot-assignment',
+    extract: html => matchVideoParams(html, /\.type = '([^']+)'/, /\.hash = '([^']+)'/, /\.id = '([^']+)'/)
+  },
+  {
+    // { type: 'seria', hash: '...', id: '...' }
+    name: 'object-properties',
+    extract: html => matchVideoParams(html, /\btype:\s*'([^']+)'/, /\bhash:\s*'([^']+)'/, /\bid:\s*'([^']+)'/)
+  }
+];
+
+const SCRIPT_URL_STRATEGIES: KodikExtractionStrategy<string>[] = [
+  {
+    // /assets/js/app.serial.<hash>.js
+    name: 'app-bundle',
+    extract: html => {
+      const match = html.match(/<script[^>]+src=['"]([^'"]*\/app\.[^'"]*\.js)['"]/);
+      return match ? match[1] : null;
+    }
+  },
+  {
+    // Первый внешний скрипт кроме рекламы
+    name: 'first-script-src',
+    extract: html => {
+      const tags = html.match(/<script[^>]*>/g) || [];
+      for (const tag of tags) {
+        const srcMatch = tag.match(/src=['"]([^'"]+)['"]/);
+        if (srcMatch && !srcMatch[1].includes('adsbygoogle')) {
+          return srcMatch[1];
+        }
+      }
+      return null;
+    }
+  }
+];
+
+const POST_LINK_STRATEGIES: KodikExtractionStrategy<string>[] = [
+  {
+    // $.ajax({type:"POST",url:atob("L2Z0b3I="),cache:!1,...
+    name: 'ajax-atob',
+    extract: script => {
+      const match = script.match(/\$\.ajax\(\{[^}]*?url:\s*atob\(\s*["']([A-Za-z0-9+/=]+)["']\s*\)/);
+      return match ? atob(match[1]) : null;
+    }
+  },
+  {
+    // Портирован из Python: data[data.find("$.ajax") + 30 : data.find("cache:!1") - 3]
+    name: 'python-offset',
+    extract: script => {
+      const ajaxIndex = script.indexOf('$.ajax');
+      const cacheIndex = script.indexOf('cache:!1', ajaxIndex);
+      if (ajaxIndex === -1 || cacheIndex === -1) return null;
+      return atob(script.substring(ajaxIndex + 30, cacheIndex - 3));
+    }
+  }
+];
+
+/**
+ * Прогоняет стратегии стадии по порядку, фиксируя попытки в диагностике
+ */
+function runStrategies<T>(
+  stage: KodikExtractionStage,
+  strategies: KodikExtractionStrategy<T>[],
+  source: string,
+  diagnostics?: KodikStreamDiagnostics
+): T | null {
+  for (const strategy of strategies) {
+    try {
+      const result = strategy.extract(source);
+      diagnostics?.attempts.push({ stage, strategy: strategy.name, matched: result !== null });
+      if (result !== null) {
+        if (diagnostics) diagnostics.matched[stage] = strategy.name;
+        return result;
+      }
+    } catch (error) {
+      diagnostics?.attempts.push({
+        stage,
+        strategy: strategy.name,
+        matched: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  return null;
+}
+
+/**
+ * Возвращает копию стратегий по умолчанию
+ */
+export function getDefaultStrategies(): KodikExtractionStrategies {
+  return {
+    urlParams: [...URL_PARAMS_STRATEGIES],
+    videoParams: [...VIDEO_PARAMS_STRATEGIES],
+    scriptUrl: [...SCRIPT_URL_STRATEGIES],
+    postLink: [...POST_LINK_STRATEGIES]
+  };
+}
+
+/**
+ * Прямой транспорт через fetch (background, API клиент)
+ */
+export const fetchTransport: KodikTransport = {
+  async getText(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.text();
+  },
+
+  async postForm(url: string, data: Record<string, string>): Promise<KodikVideoResponse> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams(data).toString()
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+};
+
+export class KodikStreamResolver {
+  private readonly strategies: KodikExtractionStrategies;
+
+  constructor(
+    private readonly transport: KodikTransport = fetchTransport,
+    strategies: Partial<KodikExtractionStrategies> = {}
+  ) {
+    this.strategies = { ...getDefaultStrategies(), ...strategies };
+  }
+
+  /**
+   * Добавляет стратегию в указанную позицию (по умолчанию — в начало)
+   */
+  addStrategy<K extends KodikExtractionStage>(
+    stage: K,
+    strategy: KodikExtractionStrategies[K][number],
+    position: number = 0
+  ): void {
+    const list = this.strategies[stage] as KodikExtractionStrategy<unknown>[];
+    list.splice(position, 0, strategy);
+  }
+
+  /**
+   * Возвращает имена стратегий стадии в порядке применения
+   */
+  getStrategyNames(stage: KodikExtractionStage): string[] {
+    return this.strategies[stage].map(strategy => strategy.name);
+  }
+
+  /**
+   * Получает карту потоков по качествам для embed URL Kodik
+   */
+  async resolve(embedUrl: string): Promise<KodikStreamResolution> {
+    const startTime = performance.now();
+    const diagnostics: KodikStreamDiagnostics = {
+      embedUrl,
+      matched: {},
+      attempts: [],
+      decryptedQualities: [],
+      failedQualities: [],
+      durationMs: 0
+    };
+
+    const fail = (message: string, stage: KodikStreamResolveError['stage']): never => {
+      diagnostics.durationMs = performance.now() - startTime;
+      throw new KodikStreamResolveError(message, stage, diagnostics);
+    };
+
+    const html = await this.transport.getText(embedUrl).catch(error =>
+      fail(`Failed to fetch embed page: ${error instanceof Error ? error.message : error}`, 'fetch')
+    );
+
+    const urlParams = runStrategies('urlParams', this.strategies.urlParams, html, diagnostics)
+      ?? fail('Could not find urlParams in page', 'urlParams');
+    const videoParams = runStrategies('videoParams', this.strategies.videoParams, html, diagnostics)
+      ?? fail('Could not extract video parameters', 'videoParams');
+    const scriptPath = runStrategies('scriptUrl', this.strategies.scriptUrl, html, diagnostics)
+      ?? fail('Could not find main script URL', 'scriptUrl');
+
+    diagnostics.scriptUrl = new URL(scriptPath, embedUrl).href;
+    const script = await this.transport.getText(diagnostics.scriptUrl).catch(error =>
+      fail(`Failed to fetch script: ${error instanceof Error ? error.message : error}`, 'fetch')
+    );
+
+    const postLink = runStrategies('postLink', this.strategies.postLink, script, diagnostics)
+      ?? fail('Could not decode post link', 'postLink');
+    diagnostics.postUrl = new URL(postLink, embedUrl).href;
+
+    const response = await this.transport.postForm(diagnostics.postUrl, {
+      hash: videoParams.hash,
+      id: videoParams.id,
+      type: videoParams.type,
+      d: urlParams.d,
+      d_sign: urlParams.d_sign,
+      pd: urlParams.pd,
+      pd_sign: urlParams.pd_sign,
+      ref: '',
+      ref_sign: urlParams.ref_sign,
+      bad_user: 'true',
+      cdn_is_working: 'true'
+    }).catch(error =>
+      fail(`Failed to get video data: ${error instanceof Error ? error.message : error}`, 'fetch')
+    );
+
+    const streams = this.decodeLinks(response, diagnostics);
+    const qualities = Object.keys(streams).map(Number).sort((a, b) => b - a);
+    if (qualities.length === 0) {
+      fail('No video links found in response', 'links');
+    }
+
+    diagnostics.durationMs = performance.now() - startTime;
+    return {
+      streams,
+      qualities,
+      maxQuality: qualities[0],
+      subtitles: this.decodeSubtitles(response, embedUrl),
+      diagnostics
+    };
+  }
+
+  /**
+   * Дешифрует ссылки ответа Kodik в карту качество → HLS манифест
+   */
+  private decodeLinks(response: KodikVideoResponse, diagnostics: KodikStreamDiagnostics): KodikStreamMap {
+    const streams: KodikStreamMap = {};
+
+    for (const [qualityKey, sources] of Object.entries(response?.links || {})) {
+      const quality = parseInt(qualityKey, 10);
+      const src = sources?.[0]?.src;
+      if (isNaN(quality) || !src) continue;
+
+      let url: string | null = src;
+      if (!src.includes('mp4:hls:manifest')) {
+        url = decryptKodikUrl(src);
+        if (url) diagnostics.decryptedQualities.push(quality);
+      }
+
+      if (!url) {
+        diagnostics.failedQualities.push(quality);
+        continue;
+      }
+
+      streams[quality] = url.startsWith('//') ? 'https:' + url : url;
+    }
+
+    return streams;
+  }
+
+  /**
+   * Внешние файлы субтитров из ответа Kodik
+   */
+  private decodeSubtitles(response: KodikVideoResponse, embedUrl: string): SubtitleSource[] {
+    const subtitles: SubtitleSource[] = [];
+    if (!Array.isArray(response?.subtitles)) return subtitles;
+
+    for (const [index, link] of response.subtitles.entries()) {
+      if (!link?.src) continue;
+
+      const src = /^(https?:)?\/\//.test(link.src) || link.src.startsWith('/')
+        ? link.src
+        : decryptKodikUrl(link.src);
+      if (!src) continue;
+
+      const url = new URL(src.startsWith('//') ? 'https:' + src : src, embedUrl).href;
+      subtitles.push({
+        url,
+        label: link.label || link.lang?.toUpperCase() || `Субтитры ${index + 1}`,
+        language: link.lang
+      });
+    }
+
+    return subtitles;
+  }
+}
+
+/**
+ * Извлекает данные видео из HTML страницы Kodik
+ */
+export function extractVideoDataFromPage(html: string): {
+  videoType: string;
+  videoHash: string;
+  videoId: string;
+  urlParams: KodikUrlParams;
+  scriptUrl: string;
+} | null {
+  const urlParams = runStrategies('urlParams', URL_PARAMS_STRATEGIES, html);
+  const videoParams = runStrategies('videoParams', VIDEO_PARAMS_STRATEGIES, html);
+  const scriptUrl = runStrategies('scriptUrl', SCRIPT_URL_STRATEGIES, html);
+  if (!urlParams || !videoParams || !scriptUrl) {
+    return null;
+  }
+
+  return {
+    videoType: videoParams.type,
+    videoHash: videoParams.hash,
+    videoId: videoParams.id,
+    urlParams,
+    scriptUrl
+  };
+}
+
+/**
+ * Извлекает POST ссылку из скрипта плеера Kodik
+ */
+export function extractPostLink(script: string): string | null {
+  return runStrategies('postLink', POST_LINK_STRATEGIES, script);
+}
+
+export const kodikStreamResolver = new KodikStreamResolver();
@@ -1,7 +1,46 @@
 // Background script для AnimStars Kodik Extension
 
+import { KODIK_BASE_URL, KODIK_ORIGIN, resolveKodikEndpoint } from '../config/endpoints';
+import { SettingsManager } from '../utils/settings-manager';
+import { HeaderRulesManager } from '../utils/header-rules';
+import { KodikTokenManager } from '../utils/kodik-token';
+import { fetchTransport, KodikStreamResolver, KodikStreamResolveError } from '../api/stream-resolver';
+import { InvalidateKodikTokenRequest, KodikTokenResponse, ResolveStreamRequest, ResolveStreamResponse } from '../types/messages';
+import { StreamResolveService } from './stream-service';
+
 console.log('🚀 AnimeStars Kodik Optimizer background script started');
 
+if (KODIK_BASE_URL !== KODIK_ORIGIN) {
+  console.log('🧪 Kodik requests are redirected to:', KODIK_BASE_URL);
+}
+
+// Резолвер работает напрямую через fetch, запросы к kodik.info уходят на настроенный адрес
+const streamResolver = new KodikStreamResolver({
+  getText: url => fetchTransport.getText(resolveKodikEndpoint(url)),
+  postForm: (url, data) => fetchTransport.postForm(resolveKodikEndpoint(url), data)
+});
+const streamService = new StreamResolveService(url => streamResolver.resolve(url));
+
+const TOKEN_REFRESH_ALARM = 'kodikTokenRefresh';
+// Токен проверяется чаще, чем истекает, чтобы обновиться до TOKEN_TTL
+const TOKEN_REFRESH_PERIOD = KodikTokenManager.REFRESH_MARGIN / 2 / 60000;
+
+/**
+ * Создает будильник обновления токена, если его нет или у него старый период
+ * Chrome может сбросить будильники при перезапуске браузера, поэтому проверяем при каждом запуске service worker
+ */
+async function ensureTokenRefreshAlarm() {
+  const alarm = await chrome.alarms.get(TOKEN_REFRESH_ALARM);
+  if (alarm?.periodInMinutes === TOKEN_REFRESH_PERIOD) return;
+
+  await chrome.alarms.create(TOKEN_REFRESH_ALARM, { periodInMinutes: TOKEN_REFRESH_PERIOD });
+  console.log('⏰ Token refresh alarm scheduled');
+}
+
+ensureTokenRefreshAlarm().catch(error => {
+  console.error('❌ Failed to schedule token refresh:', error);
+});
+
 // Обработка установки расширения
 chrome.runtime.onInstalled.addListener((details) => {
   console.log('Extension installed:', details.reason);
@@ -11,6 +50,23 @@ chrome.runtime.onInstalled.addListener((details) => {
   } else if (details.reason === 'update') {
     console.log('Extension updated');
   }
+
+  // Popup и content script читают одни и те же ключи, дописываем отсутствующие
+  SettingsManager.ensureDefaults().catch(error => {
+    console.error('❌ Failed to write default settings:', error);
+  });
+
+  // Динамические правила хранятся между запусками, обновляем их вместе с версией расширения
+  HeaderRulesManager.sync().catch(error => {
+    console.error('❌ Failed to update header rules:', error);
+  });
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== TOKEN_REFRESH_ALARM) return;
+  KodikTokenManager.refreshIfNeeded().catch(error => {
+    console.error('❌ Scheduled token refresh failed:', error);
+  });
 });
 
 // Обработка сообщений от content scripts
@@ -35,6 +91,19 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       handleKodikPost(request.url, request.data, sendResponse);
       return true;
       
+    case 'RESOLVE_STREAM':
+      // Вся цепочка Kodik с кэшем, общим для вкладок
+      handleResolveStream(request, sendResponse);
+      return true;
+      
+    case 'GET_KODIK_TOKEN':
+      handleTokenRequest(sendResponse);
+      return true;
+      
+    case 'INVALIDATE_KODIK_TOKEN':
+      handleTokenRequest(sendResponse, request);
+      return true;
+      
     case 'LOG_ERROR':
       console.error('Content script error:', request.error);
       break;
@@ -49,6 +118,7 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
  */
 async function handleKodikFetch(url: string, sendResponse: (response: any) => void) {
   try {
+    url = resolveKodikEndpoint(url);
     console.log('🔄 Background fetching:', url);
     const response = await fetch(url);
     const text = await response.text();
@@ -72,6 +142,7 @@ async function handleKodikFetch(url: string, sendResponse: (response: any) => vo
  */
 async function handleKodikPost(url: string, postData: any, sendResponse: (response: any) => void) {
   try {
+    url = resolveKodikEndpoint(url);
     console.log('🔄 Background POST to:', url);
     
     // Создаем FormData из объекта
@@ -104,9 +175,49 @@ async function handleKodikPost(url: string, postData: any, sendResponse: (respon
   }
 }
 
+/**
+ * Получает потоки серии через кэш и резолвер
+ */
+async function handleResolveStream(request: ResolveStreamRequest, sendResponse: (response: ResolveStreamResponse) => void) {
+  try {
+    const { resolution, cached } = await streamService.resolve(request);
+    console.log(cached ? '💾 Stream served from cache:' : '🔄 Stream resolved:', `${request.mediaId} S${request.season}E${request.episode}`);
+    sendResponse({ success: true, resolution, cached });
+  } catch (error) {
+    console.error('❌ Background stream resolve error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stage: error instanceof KodikStreamResolveError ? error.stage : undefined,
+      diagnostics: error instanceof KodikStreamResolveError ? error.diagnostics : undefined
+    });
+  }
+}
+
+/**
+ * Выдает токен Kodik API; отвергнутый токен сначала сбрасывается
+ */
+async function handleTokenRequest(sendResponse: (response: KodikTokenResponse) => void, invalidate?: InvalidateKodikTokenRequest) {
+  try {
+    if (invalidate) {
+      await KodikTokenManager.invalidate(invalidate.token);
+    }
+    const state = await KodikTokenManager.getToken();
+    if (!state.token) {
+      throw new Error('Token is not available');
+    }
+    sendResponse({ success: true, ...state, token: state.token });
+  } catch (error) {
+    console.error('❌ Background token error:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 // Обработка кликов по иконке расширения (если добавим popup)
 chrome.action?.onClicked?.addListener((tab) => {
   console.log('Extension icon clicked for tab:', tab.url);
 });
 
-export {};
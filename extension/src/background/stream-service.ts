@@ -0,0 +1,86 @@
+// Получение потоков Kodik в background: кэш в chrome.storage.session общий для вкладок animestars и asstars,
+// одновременные запросы одной серии из разных вкладок ждут один и тот же резолв
+
+import { KodikStreamResolution, KodikStreamTarget } from '../types/kodik';
+import { buildKodikEpisodeUrl, kodikStreamKey } from '../utils/url-parser';
+
+interface CachedStream {
+  resolution: KodikStreamResolution;
+  createdAt: number;
+}
+
+export interface ResolvedStream {
+  resolution: KodikStreamResolution;
+  cached: boolean;
+}
+
+export class StreamResolveService {
+  private static readonly STORAGE_PREFIX = 'kodikStream:';
+  static readonly TTL = 30 * 60 * 1000; // подписанные ссылки Kodik со временем устаревают
+
+  private readonly pending = new Map<string, Promise<KodikStreamResolution>>();
+
+  constructor(
+    private readonly resolveUrl: (embedUrl: string) => Promise<KodikStreamResolution>,
+    private readonly storage: chrome.storage.StorageArea = chrome.storage.session ?? chrome.storage.local
+  ) {}
+
+  /**
+   * Потоки серии из кэша или новым резолвом; параллельные вызовы для одной серии делят запрос
+   */
+  async resolve(target: KodikStreamTarget): Promise<ResolvedStream> {
+    const key = StreamResolveService.STORAGE_PREFIX + kodikStreamKey(target);
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return { resolution: await inFlight, cached: true };
+    }
+
+    const cached = await this.read(key);
+    if (cached) {
+      return { resolution: cached, cached: true };
+    }
+
+    // Проверяем еще раз: пока читали кэш, другая вкладка могла начать резолв
+    const started = this.pending.get(key);
+    if (started) {
+      return { resolution: await started, cached: true };
+    }
+
+    const request = this.resolveUrl(buildKodikEpisodeUrl(target))
+      .then(async resolution => {
+        await this.write(key, resolution);
+        return resolution;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+
+    return { resolution: await request, cached: false };
+  }
+
+  private async read(key: string): Promise<KodikStreamResolution | null> {
+    try {
+      const result = await this.storage.get([key]);
+      const entry: CachedStream | undefined = result[key];
+      if (!entry) return null;
+
+      if (Date.now() - entry.createdAt > StreamResolveService.TTL) {
+        await this.storage.remove(key);
+        return null;
+      }
+      return entry.resolution;
+    } catch (error) {
+      console.warn('⚠️ Failed to read stream cache:', error);
+      return null;
+    }
+  }
+
+  private async write(key: string, resolution: KodikStreamResolution): Promise<void> {
+    try {
+      const entry: CachedStream = { resolution, createdAt: Date.now() };
+      await this.storage.set({ [key]: entry });
+    } catch (error) {
+      console.warn('⚠️ Failed to write stream cache:', error);
+    }
+  }
+}
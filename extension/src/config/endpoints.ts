@@ -0,0 +1,21 @@
+// Адреса внешних сервисов
+// В тестовых сборках Kodik подменяется локальным сервером: webpack --env kodikBaseUrl=http://localhost:8787
+
+declare const __KODIK_BASE_URL__: string;
+
+export const KODIK_ORIGIN = 'https://kodik.info';
+
+/**
+ * Базовый URL Kodik с учётом подмены при сборке
+ */
+export const KODIK_BASE_URL: string =
+  typeof __KODIK_BASE_URL__ !== 'undefined' && __KODIK_BASE_URL__ ? __KODIK_BASE_URL__ : KODIK_ORIGIN;
+
+const KODIK_HOST_PATTERN = /^(?:https?:)?\/\/kodik\.info(?=[/?#]|$)/;
+
+/**
+ * Перенаправляет запрос к kodik.info на настроенный базовый URL
+ */
+export function resolveKodikEndpoint(url: string, baseUrl: string = KODIK_BASE_URL): string {
+  return url.replace(KODIK_HOST_PATTERN, baseUrl.replace(/\/+$/, ''));
+}
@@ -0,0 +1,150 @@
+// Меню аудиодорожек для HLS потоков с несколькими #EXT-X-MEDIA:TYPE=AUDIO
+// Скрыто, пока в потоке меньше двух дорожек
+
+import { AudioTrackInfo, AudioTrackManager } from '../utils/audio-tracks';
+import { closeOnOutsideClick } from './dropdown';
+
+export class AudioMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private tracks: AudioTrackInfo[] = [];
+  private selected = -1;
+  private isOpen = false;
+
+  constructor(private onSelect: (index: number) => void, signal: AbortSignal) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'audio-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+      display: none;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-audio';
+    this.button.title = 'Аудиодорожка';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'audio-menu-list';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      min-width: 180px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 6px;
+      display: none;
+      flex-direction: column;
+      gap: 2px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+    `;
+
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Задает дорожки потока и текущую дорожку
+   */
+  setTracks(tracks: AudioTrackInfo[], selected: number) {
+    this.tracks = tracks;
+    this.selected = selected;
+    this.wrapper.style.display = tracks.length > 1 ? 'block' : 'none';
+    if (tracks.length <= 1) this.close();
+    this.render();
+  }
+
+  setSelected(selected: number) {
+    this.selected = selected;
+    this.render();
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+
+  private render() {
+    this.menu.innerHTML = '';
+
+    this.tracks.forEach((track, index) => {
+      const item = document.createElement('button');
+      const isActive = index === this.selected;
+      item.className = 'audio-menu-item';
+      item.textContent = AudioTrackManager.formatLabel(track);
+      item.style.cssText = `
+        background: ${isActive ? 'rgba(0,123,255,0.8)' : 'transparent'};
+        border: none;
+        color: white;
+        text-align: left;
+        padding: 8px 12px;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 13px;
+        font-weight: ${isActive ? '700' : '500'};
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      `;
+      item.addEventListener('mouseenter', () => {
+        if (index !== this.selected) item.style.background = 'rgba(255,255,255,0.1)';
+      });
+      item.addEventListener('mouseleave', () => {
+        if (index !== this.selected) item.style.background = 'transparent';
+      });
+      item.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.close();
+        if (index !== this.selected) {
+          this.setSelected(index);
+          this.onSelect(index);
+        }
+      });
+      this.menu.appendChild(item);
+    });
+
+    const current = this.tracks[this.selected];
+    this.button.textContent = current?.language ? `🎧 ${current.language.toUpperCase()}` : '🎧';
+  }
+}
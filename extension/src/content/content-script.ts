@@ -2,65 +2,185 @@
 // Парсит переводы, удаляет оригинальный плеер, создает свой HLS плеер
 
 import { kodikAPI } from '../api/kodik-client';
+import { KodikStreamResolveError } from '../api/stream-resolver';
 import { ProgressManager } from '../utils/progress-manager';
 import { AnimeParser } from '../utils/anime-parser';
-import { AnimeInfo } from '../types/progress';
-
-// Declare HLS.js types
-declare global {
-  interface Window {
-    Hls: any;
-  }
-}
+import { parseEpisodeCount, parseSeasons } from '../utils/kodik-page-parser';
+import { AnimeHistory, AnimeInfo, ResolvedSkipMarkers, SkipRange, SkipSegmentType } from '../types/progress';
+import { KodikElement, KodikMediaType, KodikSeasonOption, KodikStreamMap, KodikStreamResolution, KodikStreamTarget } from '../types/kodik';
+import { HLSUtils } from '../utils/hls-parser';
+import { AudioTrackInfo, AudioTrackManager } from '../utils/audio-tracks';
+import { SettingsManager } from '../utils/settings-manager';
+import { SkipMarkersManager } from '../utils/skip-markers';
+import { KeymapManager } from '../utils/keymap-manager';
+import { PlaybackSpeedManager } from '../utils/playback-speed';
+import { StreamPreloader } from '../utils/stream-preloader';
+import { buildKodikEpisodeUrl, isVideo, parseKodikUrl } from '../utils/url-parser';
+import { SubtitleConverter } from '../utils/subtitle-converter';
+import { SubtitleSettingsManager } from '../utils/subtitle-settings';
+import { LocalSubtitleStore } from '../utils/local-subtitle-store';
+import { LocalSubtitleRecord, SubtitleSettings, SubtitleSource } from '../types/subtitles';
+import { KeyAction, KeymapSettings } from '../types/keymap';
+import { ExtensionSettings } from '../types/settings';
+import { CacheStatsResponse, ClearCacheRequest, PlayersInfo, ReloadPlayersResponse, ResolveStreamRequest, ResolveStreamResponse, StreamHealth } from '../types/messages';
+import { globalCache } from '../utils/cache';
+import { playerEvents } from '../utils/event-bus';
+import { animeStarsDetector } from './dom-detector';
+import { QualityChoice } from './quality-menu';
+import { FastVideoPlayer } from './fast-player';
+import { SkipMenu, SkipMenuAction } from './skip-menu';
+import { KeymapHelpOverlay } from './keymap-help';
+import { SpeedMenu } from './speed-menu';
+import { AudioMenu } from './audio-menu';
+import { NextEpisodeCard } from './next-episode-card';
+import { SessionMenu } from './session-menu';
+import { SubtitleMenu } from './subtitle-menu';
 
 interface Translation {
   title: string;
   kodikUrl: string;
   translationId: string;
+  mediaType: KodikMediaType;
   mediaId: string;
   mediaHash: string;
 }
 
 interface Episode {
   number: number;
+  season: number;
   title?: string;
   url?: string;
 }
 
+interface OriginalPlayerSnapshot {
+  container: HTMLElement;
+  className: string;
+  cssText: string;
+  children: Node[];
+  created: boolean; // контейнер создан нами, при восстановлении просто удаляется
+}
+
+interface Season extends KodikSeasonOption {
+  episodesCount?: number;
+}
+
+const SKIP_BUTTON_LABELS: Record<SkipSegmentType, string> = {
+  opening: 'Пропустить опенинг',
+  ending: 'Пропустить эндинг'
+};
+
+const DEFAULT_SKIP_SEGMENT_LENGTH = 90; // типичная длина опенинга/эндинга, когда отмечен только один край
+const ENDING_TAIL_THRESHOLD = 5; // эндинг до самого конца серии: пропуск переходит к следующей серии
+
+// Шаг сдвига своих субтитров горячими клавишами, секунды
+const SUBTITLE_OFFSET_STEP = 0.1;
+
+
 class AnimeStarsKodikOptimizer {
   private translations: Translation[] = [];
   private episodes: Episode[] = [];
+  private seasons: Season[] = [];
   private currentTranslation: Translation | null = null;
+  private currentSeason: number = 1;
   private currentEpisode: number = 1;
-  private videoElement: HTMLVideoElement | null = null;
-  private hlsPlayer: any = null;
+  private player: FastVideoPlayer | null = null;
+  private speedMenu: SpeedMenu | null = null;
+  private audioMenu: AudioMenu | null = null;
+  private audioTracks: AudioTrackInfo[] = [];
+  private playbackRate: number = 1;
+  private currentStreams: KodikStreamMap = {};
+  private selectedQuality: QualityChoice | null = null;
   private playerContainer: HTMLElement | null = null;
-  private loadingOverlay: HTMLElement | null = null;
-  private centerPlayButton: HTMLElement | null = null;
-  private customControls: HTMLElement | null = null;
-  private progressBar: HTMLElement | null = null;
-  private volumeSlider: HTMLInputElement | null = null;
-  private bufferedBar: HTMLElement | null = null;
-  private isControlsVisible: boolean = true;
-  private controlsHideTimeout: number | null = null;
-  private fullscreenClickHandler: ((e: MouseEvent) => void) | null = null;
-  private fullscreenMouseMoveHandler: (() => void) | null = null;
   
   // Новые поля для работы с прогрессом
   private currentAnimeInfo: AnimeInfo | null = null;
   private isProgressSystemActive: boolean = false;
   private isFirstLoad: boolean = true; // Флаг первой загрузки
+  private animeHistory: AnimeHistory | null = null; // История по сериям для отметок в селекторе
+  
+  // Отметки опенинга/эндинга текущей серии
+  private skipMarkers: ResolvedSkipMarkers = SkipMarkersManager.empty();
+  private skipMenu: SkipMenu | null = null;
+  private autoSkippedSegments = new Set<SkipSegmentType>(); // автопропуск срабатывает один раз за серию
+  
+  // Автопереход к следующей серии и ограничения сессии
+  private nextEpisodeCard: NextEpisodeCard | null = null;
+  private sessionMenu: SessionMenu | null = null;
+  private sessionEpisodesLeft: number | null = null; // «ещё N серий и стоп», null — без ограничения
+  private autoAdvancedCount: number = 0; // серий подряд, включенных автопереходом
+  private isAutoAdvancing: boolean = false;
+  private nextEpisodeCancelled: boolean = false; // автопереход отменен в текущей серии
+
+  // Субтитры: внешние файлы из ответа Kodik и дорожки HLS
+  private subtitleMenu: SubtitleMenu | null = null;
+  private subtitleSettings: SubtitleSettings = { ...SubtitleSettingsManager.DEFAULTS };
+  private subtitleLoadId: number = 0; // защита от дорожек предыдущей серии
+  private subtitleAutoSelectPending: boolean = false;
+  private localSubtitle: LocalSubtitleRecord | null = null; // свой файл субтитров текущей серии
+  
+  // Настройки из popup и состояние оригинального плеера для отката
+  private settings: ExtensionSettings = { ...SettingsManager.DEFAULTS };
+  private keymap: KeymapSettings = KeymapManager.normalize(undefined);
+  private keymapHelp: KeymapHelpOverlay | null = null;
+  private originalPlayer: OriginalPlayerSnapshot | null = null;
+  private hiddenOriginalElements = new Map<HTMLElement, string>();
+  private pageListeners = new AbortController();
+  
+  // Состояние потока для popup (GET_PLAYERS_INFO)
+  private isLoadingStream: boolean = false;
+  private lastStreamError: string | null = null;
   
   // Кэш для оптимизации
   private domCache = new Map<string, Element | null>();
   private preloadedResources = new Set<string>();
 
+  // Поток следующей серии, полученный заранее
+  private readonly streamPreloader = new StreamPreloader(target => this.resolveStreamViaBackground(target));
+
+  /**
+   * Видео элемент плеера, null пока плеер не создан
+   */
+  private get videoElement(): HTMLVideoElement | null {
+    return this.player?.video ?? null;
+  }
+
   /**
    * Инициализация оптимизатора с мгновенной заменой
    */
   async init() {
     console.log('🚀 AnimeStars Kodik Optimizer starting...');
     
+    // Детектор запоминает iframe Kodik до того, как мы заменим их своим плеером
+    animeStarsDetector.init();
+    this.setupMessageListener();
+    
+    this.settings = await SettingsManager.getSettings();
+    SettingsManager.onChange((settings, changed) => this.applySettings(settings, changed));
+    this.keymap = await KeymapManager.getKeymap();
+    KeymapManager.onChange(keymap => {
+      this.keymap = keymap;
+      this.keymapHelp?.setKeymap(keymap);
+    });
+    ProgressManager.onHistoryChange(storage => {
+      if (!this.currentAnimeInfo) return;
+      this.animeHistory = storage[this.currentAnimeInfo.id] || null;
+      this.updateEpisodeMarks();
+    });
+    SkipMarkersManager.onChange(() => this.refreshSkipMarkers());
+    ProgressManager.watchPlayerEvents();
+    this.subscribeToPlayerEvents();
+    this.subtitleSettings = await SubtitleSettingsManager.getSettings();
+    SubtitleSettingsManager.onChange(settings => {
+      this.subtitleSettings = settings;
+      this.subtitleMenu?.setSettings(settings);
+      this.applySubtitleStyle();
+    });
+
+    if (!this.settings.enablePlayer) {
+      console.log('⏸️ Custom player disabled in settings, keeping original Kodik player');
+      return;
+    }
+    
     // Мгновенно показываем плейсхолдер для улучшения perceived performance
     this.showInstantPlaceholder();
     
@@ -131,7 +251,7 @@ class AnimeStarsKodikOptimizer {
           `;
 
           // Скрываем оригинальный iframe без удаления
-          iframe.style.display = 'none';
+          this.hideOriginalElement(iframe);
           
           // Вставляем плейсхолдер
           container.insertBefore(placeholder, iframe);
@@ -289,6 +409,11 @@ class AnimeStarsKodikOptimizer {
       
       // Сначала парсим переводы
       await this.parseTranslationsAsync();
+
+      // Списка переводов нет (одна озвучка или изменилась разметка) — берем их из iframe или Kodik API
+      if (this.translations.length === 0) {
+        await this.loadTranslationsFallback();
+      }
       
       if (this.translations.length === 0) {
         console.log('❌ No translations found');
@@ -301,6 +426,12 @@ class AnimeStarsKodikOptimizer {
       // Извлекаем информацию об аниме
       await this.extractAnimeInfoAsync();
 
+      // Плеер могли отключить в popup, пока шел анализ страницы
+      if (!this.settings.enablePlayer) {
+        this.restoreOriginalPlayer();
+        return;
+      }
+
       // ЭТАП 2: СОЗДАНИЕ НОВОГО ПЛЕЕРА
       console.log('🎮 Phase 2: Creating custom player...');
       await this.createCustomPlayer();
@@ -353,9 +484,11 @@ class AnimeStarsKodikOptimizer {
     this.currentAnimeInfo = {
       id: animeId,
       title: title || 'Unknown Anime',
+      currentSeason: this.currentSeason,
       currentEpisode: this.currentEpisode,
       totalEpisodes: this.episodes.length > 0 ? this.episodes.length : undefined,
       translationId: this.currentTranslation.translationId,
+      translationTitle: this.currentTranslation.title,
       url: window.location.href
     };
 
@@ -384,23 +517,8 @@ class AnimeStarsKodikOptimizer {
       
       if (link) {
         // Парсим Kodik URL
-        const urlMatch = link.match(/\/serial\/(\d+)\/([a-f0-9]+)\/720p/);
-        if (urlMatch) {
-          const mediaId = urlMatch[1];
-          const mediaHash = urlMatch[2];
-          
-          // Извлекаем translation ID из параметров
-          const urlParams = new URLSearchParams(link.split('?')[1] || '');
-          const translationId = urlParams.get('only_translations') || '0';
-          
-          const translation: Translation = {
-            title,
-            kodikUrl: link.startsWith('//') ? 'https:' + link : link,
-            translationId,
-            mediaId,
-            mediaHash
-          };
-          
+        const translation = this.createTranslationFromLink(link, title);
+        if (translation) {
           this.translations.push(translation);
           console.log('🎭 Found translation:', title, translation);
         }
@@ -471,6 +589,9 @@ class AnimeStarsKodikOptimizer {
       await this.loadEpisodes();
     }
 
+    // Создаем селектор сезонов (только если сезонов больше одного)
+    this.createSeasonSelector();
+
     // Создаем селектор эпизодов
     this.createEpisodeSelector();
 
@@ -506,6 +627,16 @@ class AnimeStarsKodikOptimizer {
 
     console.log('🎯 Found target container:', targetContainer);
 
+    // Запоминаем оригинальное содержимое, чтобы вернуть iframe Kodik при отключении плеера
+    this.originalPlayer = {
+      container: targetContainer as HTMLElement,
+      className: targetContainer.className,
+      cssText: (targetContainer as HTMLElement).style.cssText,
+      children: Array.from(targetContainer.childNodes)
+        .filter(node => !(node instanceof HTMLElement && node.classList.contains('kodik-instant-placeholder'))),
+      created: targetContainer.classList.contains('animestars-player-container')
+    };
+
     // Очищаем контейнер и создаем наш плеер
     targetContainer.innerHTML = '';
     targetContainer.className = targetContainer.className + ' animestars-custom-player';
@@ -579,6 +710,11 @@ class AnimeStarsKodikOptimizer {
       return;
     }
 
+    if (this.isMovie) {
+      this.applyMovieEpisode();
+      return;
+    }
+
     this.episodes = [];
     let maxEpisode = 0;
 
@@ -599,7 +735,8 @@ class AnimeStarsKodikOptimizer {
             const html = iframeDoc.documentElement.outerHTML;
             console.log('✅ Successfully accessed iframe content, length:', html.length);
             
-            maxEpisode = await this.parseEpisodesFromHTML(html);
+            this.applySeasonsFromHTML(html);
+            maxEpisode = parseEpisodeCount(html);
             if (maxEpisode > 0) {
               console.log('✅ Found episodes from iframe:', maxEpisode);
               break;
@@ -617,7 +754,8 @@ class AnimeStarsKodikOptimizer {
           const response = await this.fetchViaBackground(this.currentTranslation.kodikUrl);
           if (response.success && response.data) {
             console.log('✅ Fetched data via background script, length:', response.data.length);
-            maxEpisode = await this.parseEpisodesFromHTML(response.data);
+            this.applySeasonsFromHTML(response.data);
+            maxEpisode = parseEpisodeCount(response.data);
           }
         } catch (error) {
           console.warn('⚠️ Background fetch failed:', error);
@@ -721,6 +859,7 @@ class AnimeStarsKodikOptimizer {
         for (let i = 1; i <= maxEpisode; i++) {
           this.episodes.push({
             number: i,
+            season: this.currentSeason,
             title: `Серия ${i}`
           });
         }
@@ -728,10 +867,12 @@ class AnimeStarsKodikOptimizer {
         console.log('📺 No episodes detected, creating single episode');
         this.episodes.push({
           number: 1,
+          season: this.currentSeason,
           title: 'Серия 1'
         });
       }
 
+      this.rememberSeasonEpisodesCount();
       console.log('📺 Final episodes analysis result:', this.episodes.length, 'episodes');
 
     } catch (error) {
@@ -739,98 +880,79 @@ class AnimeStarsKodikOptimizer {
       // Fallback: создаем хотя бы один эпизод
       this.episodes = [{
         number: 1,
+        season: this.currentSeason,
         title: 'Серия 1'
       }];
     }
   }
 
   /**
-   * Парсит количество эпизодов из HTML
+   * Обновляет список сезонов из HTML, сохраняя уже известные количества серий
    */
-  private async parseEpisodesFromHTML(html: string): Promise<number> {
-    let maxEpisode = 0;
+  private applySeasonsFromHTML(html: string) {
+    const { seasons, selected } = parseSeasons(html);
+    if (seasons.length === 0) return;
 
-    // Паттерн 1: Ищем option элементы с data-id и data-hash (точный формат Kodik)
-    const kodikOptionPattern = /<option[^>]*value="(\d+)"[^>]*data-id="[^"]*"[^>]*data-hash="[^"]*"[^>]*data-title="(\d+)\s*серия"[^>]*>/gi;
-    const kodikOptionMatches = [...html.matchAll(kodikOptionPattern)];
-    if (kodikOptionMatches.length > 0) {
-      const episodeNumbers = kodikOptionMatches.map(match => parseInt(match[1]));
-      maxEpisode = Math.max(...episodeNumbers);
-      console.log('📺 Found episodes from Kodik option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-      return maxEpisode;
-    }
-
-    // Паттерн 2: Альтернативный поиск option элементов с любым форматом серии
-    const optionPattern = /<option[^>]*value="(\d+)"[^>]*>[\s\S]*?(\d+)\s*серия[\s\S]*?<\/option>/gi;
-    const optionMatches = [...html.matchAll(optionPattern)];
-    if (optionMatches.length > 0) {
-      const episodeNumbers = optionMatches.map(match => parseInt(match[1]));
-      maxEpisode = Math.max(...episodeNumbers);
-      console.log('📺 Found episodes from generic option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-      return maxEpisode;
-    }
-
-    // Паттерн 3: Ищем любые option элементы с числовыми значениями
-    const allOptionPattern = /<option[^>]*value="(\d+)"[^>]*>/gi;
-    const allOptionMatches = [...html.matchAll(allOptionPattern)];
-    if (allOptionMatches.length > 1) { // больше 1, чтобы исключить единичные селекторы
-      const episodeNumbers = allOptionMatches.map(match => parseInt(match[1]));
-      maxEpisode = Math.max(...episodeNumbers);
-      console.log('📺 Found episodes from all option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-      return maxEpisode;
-    }
-
-    // Паттерн 4: Ищем в переменных JavaScript
-    const jsPatterns = [
-      /episodes?\s*[=:]\s*(\d+)/i,
-      /episodeCount\s*[=:]\s*(\d+)/i,
-      /totalEpisodes?\s*[=:]\s*(\d+)/i,
-      /var\s+episodes\s*=\s*(\d+)/i
-    ];
-    
-    for (const pattern of jsPatterns) {
-      const match = html.match(pattern);
-      if (match) {
-        maxEpisode = parseInt(match[1]);
-        console.log('📺 Found episodes from JS variables:', maxEpisode);
-        return maxEpisode;
-      }
+    this.seasons = seasons.map(season => ({
+      ...season,
+      episodesCount: this.seasons.find(s => s.number === season.number)?.episodesCount
+    }));
+
+    // Серии на странице относятся к выбранному на ней сезону
+    if (selected !== null) {
+      this.currentSeason = selected;
+    } else if (!this.seasons.some(season => season.number === this.currentSeason)) {
+      this.currentSeason = this.seasons[0].number;
     }
+  }
 
-    // Паттерн 5: Ищем кнопки переключения эпизодов
-    const buttonPattern = /data-episode[^=]*=["'](\d+)["']/gi;
-    const buttonMatches = [...html.matchAll(buttonPattern)];
-    if (buttonMatches.length > 0) {
-      const episodeNumbers = buttonMatches.map(match => parseInt(match[1]));
-      maxEpisode = Math.max(...episodeNumbers);
-      console.log('📺 Found episodes from button data attributes:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-      return maxEpisode;
-    }
-
-    // Паттерн 6: Ищем информацию о сериях в DOM (для случаев когда HTML содержит полную страницу)
-    const seriesInfoPatterns = [
-      /Серий:\s*\d+-(\d+)/i,
-      /Episodes:\s*\d+-(\d+)/i,
-      /Серий:\s*(\d+)/i,
-      /Episodes:\s*(\d+)/i,
-      /1-(\d+)\s*из/i,
-      /(\d+)\s*серий/i,
-      /class="page__ser"[^>]*>[\s\S]*?(\d+)[\s\S]*?серий/i
-    ];
-    
-    for (const pattern of seriesInfoPatterns) {
-      const match = html.match(pattern);
-      if (match) {
-        const foundEpisodes = parseInt(match[1]);
-        if (foundEpisodes > 0) {
-          maxEpisode = foundEpisodes;
-          console.log('📺 Found episodes from series info pattern:', maxEpisode);
-          return maxEpisode;
-        }
-      }
+  /**
+   * Запоминает количество серий текущего сезона
+   */
+  private rememberSeasonEpisodesCount() {
+    const season = this.seasons.find(s => s.number === this.currentSeason);
+    if (season) {
+      season.episodesCount = this.episodes.length;
+    }
+  }
+
+  /**
+   * Строит URL страницы Kodik для конкретного сезона и серии
+   */
+  private buildEpisodeUrl(season: number, episode: number): string {
+    return buildKodikEpisodeUrl(this.getStreamTarget(season, episode));
+  }
+
+  /**
+   * Серия текущего перевода для запроса потоков в background
+   */
+  private getStreamTarget(season: number, episode: number): KodikStreamTarget {
+    if (!this.currentTranslation) {
+      throw new Error('No translation selected');
     }
+    const { mediaType, mediaId, mediaHash, translationId } = this.currentTranslation;
+    return { mediaType, mediaId, mediaHash, translationId, season, episode };
+  }
+
+  /**
+   * Текущий перевод — фильм (/video/): у него нет сезонов и серий
+   */
+  private get isMovie(): boolean {
+    return this.currentTranslation?.mediaType === 'video';
+  }
 
-    return 0;
+  /**
+   * Фильм воспроизводится как единственная серия 0 первого сезона, под этим ключом хранится и прогресс
+   */
+  private applyMovieEpisode() {
+    this.seasons = [];
+    this.currentSeason = 1;
+    this.currentEpisode = ProgressManager.MOVIE_EPISODE;
+    this.episodes = [{
+      number: ProgressManager.MOVIE_EPISODE,
+      season: 1,
+      title: 'Фильм'
+    }];
   }
 
   /**
@@ -839,6 +961,16 @@ class AnimeStarsKodikOptimizer {
   private async loadEpisodes() {
     if (!this.currentTranslation) return;
 
+    if (this.isMovie) {
+      this.applyMovieEpisode();
+      return;
+    }
+
+    // После фильма переходим на первую серию сериала
+    if (this.currentEpisode === ProgressManager.MOVIE_EPISODE) {
+      this.currentEpisode = 1;
+    }
+
     console.log('📺 Loading episodes for:', this.currentTranslation.title);
 
     try {
@@ -846,9 +978,11 @@ class AnimeStarsKodikOptimizer {
       let html: string | null = null;
       
       try {
-        const response = await this.fetchViaBackground(this.currentTranslation.kodikUrl);
+        // Страница конкретного сезона содержит только его серии
+        const response = await this.fetchViaBackground(this.buildEpisodeUrl(this.currentSeason, 1));
         if (response.success && response.data) {
           html = response.data;
+          this.applySeasonsFromHTML(html);
           console.log('✅ Fetched episodes data via background script');
         }
       } catch (error) {
@@ -885,67 +1019,7 @@ class AnimeStarsKodikOptimizer {
 
       if (html) {
         console.log('🔍 Searching for episodes in HTML...');
-        
-        // Паттерн 1: Ищем option элементы с data-id и data-hash (точный формат Kodik)
-        const kodikOptionPattern = /<option[^>]*value="(\d+)"[^>]*data-id="[^"]*"[^>]*data-hash="[^"]*"[^>]*data-title="(\d+)\s*серия"[^>]*>/gi;
-        const kodikOptionMatches = [...html.matchAll(kodikOptionPattern)];
-        if (kodikOptionMatches.length > 0) {
-          const episodeNumbers = kodikOptionMatches.map(match => parseInt(match[1]));
-          maxEpisode = Math.max(...episodeNumbers);
-          console.log('📺 Found episodes from Kodik option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-        }
-
-        // Паттерн 2: Альтернативный поиск option элементов с любым форматом серии
-        if (!maxEpisode) {
-          const optionPattern = /<option[^>]*value="(\d+)"[^>]*>[\s\S]*?(\d+)\s*серия[\s\S]*?<\/option>/gi;
-          const optionMatches = [...html.matchAll(optionPattern)];
-          if (optionMatches.length > 0) {
-            const episodeNumbers = optionMatches.map(match => parseInt(match[1]));
-            maxEpisode = Math.max(...episodeNumbers);
-            console.log('📺 Found episodes from generic option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-          }
-        }
-
-        // Паттерн 3: Ищем любые option элементы с числовыми значениями
-        if (!maxEpisode) {
-          const allOptionPattern = /<option[^>]*value="(\d+)"[^>]*>/gi;
-          const allOptionMatches = [...html.matchAll(allOptionPattern)];
-          if (allOptionMatches.length > 1) { // больше 1, чтобы исключить единичные селекторы
-            const episodeNumbers = allOptionMatches.map(match => parseInt(match[1]));
-            maxEpisode = Math.max(...episodeNumbers);
-            console.log('📺 Found episodes from all option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-          }
-        }
-
-        // Паттерн 4: Ищем в переменных JavaScript
-        if (!maxEpisode) {
-          const jsPatterns = [
-            /episodes?\s*[=:]\s*(\d+)/i,
-            /episodeCount\s*[=:]\s*(\d+)/i,
-            /totalEpisodes?\s*[=:]\s*(\d+)/i,
-            /var\s+episodes\s*=\s*(\d+)/i
-          ];
-          
-          for (const pattern of jsPatterns) {
-            const match = html.match(pattern);
-            if (match) {
-              maxEpisode = parseInt(match[1]);
-              console.log('📺 Found episodes from JS variables:', maxEpisode);
-              break;
-            }
-          }
-        }
-
-        // Паттерн 5: Ищем кнопки переключения эпизодов
-        if (!maxEpisode) {
-          const buttonPattern = /data-episode[^=]*=["'](\d+)["']/gi;
-          const buttonMatches = [...html.matchAll(buttonPattern)];
-          if (buttonMatches.length > 0) {
-            const episodeNumbers = buttonMatches.map(match => parseInt(match[1]));
-            maxEpisode = Math.max(...episodeNumbers);
-            console.log('📺 Found episodes from button data attributes:', episodeNumbers.length, 'episodes, max:', maxEpisode);
-          }
-        }
+        maxEpisode = parseEpisodeCount(html);
       }
 
       // Fallback: попытка получить количество эпизодов из URL или других источников
@@ -1014,6 +1088,7 @@ class AnimeStarsKodikOptimizer {
         for (let i = 1; i <= maxEpisode; i++) {
           this.episodes.push({
             number: i,
+            season: this.currentSeason,
             title: `Серия ${i}`
           });
         }
@@ -1022,10 +1097,12 @@ class AnimeStarsKodikOptimizer {
         console.log('📺 No episodes detected, creating single episode');
         this.episodes.push({
           number: 1,
+          season: this.currentSeason,
           title: 'Серия 1'
         });
       }
 
+      this.rememberSeasonEpisodesCount();
       console.log('📺 Final episodes array:', this.episodes);
 
     } catch (error) {
@@ -1033,6 +1110,7 @@ class AnimeStarsKodikOptimizer {
       console.log('📺 Using single default episode');
       this.episodes = [{
         number: 1,
+        season: this.currentSeason,
         title: 'Серия 1'
       }];
     }
@@ -1040,6 +1118,78 @@ class AnimeStarsKodikOptimizer {
     console.log('📺 Final episodes array:', this.episodes);
   }
 
+  /**
+   * Создает селектор сезонов
+   */
+  private createSeasonSelector() {
+    if (!this.playerContainer || this.seasons.length <= 1) return;
+
+    const seasonBar = document.createElement('div');
+    seasonBar.className = 'season-selector';
+    seasonBar.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      padding: 8px 12px;
+      background: #222;
+      border-bottom: 1px solid #333;
+    `;
+
+    this.seasons.forEach(season => {
+      const button = document.createElement('button');
+      button.textContent = season.title;
+      button.dataset.season = season.number.toString();
+      button.className = 'season-btn';
+      button.style.cssText = `
+        padding: 6px 12px;
+        background: ${this.currentSeason === season.number ? '#007bff' : '#444'};
+        color: white;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 12px;
+        transition: background 0.2s;
+      `;
+
+      button.addEventListener('click', () => {
+        if (this.currentSeason !== season.number) {
+          this.switchSeason(season.number);
+        }
+      });
+
+      seasonBar.appendChild(button);
+    });
+
+    // Селектор сезонов всегда стоит перед селектором эпизодов
+    const episodeSelector = this.playerContainer.querySelector('.episode-selector');
+    this.playerContainer.insertBefore(seasonBar, episodeSelector);
+  }
+
+  /**
+   * Подсвечивает активный сезон
+   */
+  private updateSeasonButtons() {
+    const seasonButtons = this.playerContainer?.querySelectorAll('.season-btn');
+    seasonButtons?.forEach(btn => {
+      const btnSeason = parseInt((btn as HTMLElement).dataset.season || '0');
+      (btn as HTMLElement).style.background =
+        btnSeason === this.currentSeason ? '#007bff' : '#444';
+    });
+  }
+
+  /**
+   * Пересоздает селекторы сезонов и эпизодов
+   */
+  private rebuildEpisodeSelectors() {
+    this.playerContainer?.querySelector('.season-selector')?.remove();
+    this.playerContainer?.querySelector('.episode-selector')?.remove();
+    this.createEpisodeSelector();
+    this.createSeasonSelector();
+
+    // Список серий изменился — соседние серии тоже
+    this.updateNavigationButtons();
+  }
+
   /**
    * Создает селектор эпизодов
    */
@@ -1051,6 +1201,12 @@ class AnimeStarsKodikOptimizer {
       console.log('❌ No player container for episode selector');
       return;
     }
+
+    // У фильма выбирать нечего
+    if (this.isMovie) {
+      console.log('🎞️ Movie translation, skipping episode selector');
+      return;
+    }
     
     // Показываем селектор эпизодов даже если эпизод один, для лучшего UX
     if (this.episodes.length === 0) {
@@ -1076,7 +1232,10 @@ class AnimeStarsKodikOptimizer {
       button.textContent = episode.number.toString();
       button.title = episode.title || `Эпизод ${episode.number}`;
       button.className = 'episode-btn';
+      button.dataset.episode = episode.number.toString();
       button.style.cssText = `
+        position: relative;
+        overflow: hidden;
         width: 40px;
         height: 40px;
         background: ${this.currentEpisode === episode.number ? '#007bff' : '#444'};
@@ -1089,6 +1248,20 @@ class AnimeStarsKodikOptimizer {
         transition: background 0.2s;
       `;
 
+      // Полоска прогресса серии, заполняется из истории просмотра
+      const progressBar = document.createElement('span');
+      progressBar.className = 'episode-progress';
+      progressBar.style.cssText = `
+        position: absolute;
+        left: 0;
+        bottom: 0;
+        height: 3px;
+        width: 0;
+        background: #ff6b35;
+        transition: width 0.3s;
+      `;
+      button.appendChild(progressBar);
+
       // Безопасно добавляем обработчик события
       button.addEventListener('click', () => {
         this.switchEpisode(episode.number);
@@ -1107,7 +1280,49 @@ class AnimeStarsKodikOptimizer {
       episodeBar.appendChild(button);
     });
 
-    this.playerContainer.appendChild(episodeBar);
+    // При пересоздании селектор должен оказаться над плеером, а не под ним
+    const playerWrapper = this.playerContainer.querySelector('.animestars-player-wrapper');
+    this.playerContainer.insertBefore(episodeBar, playerWrapper);
+
+    this.refreshEpisodeMarks();
+  }
+
+  /**
+   * Загружает историю аниме и отмечает просмотренные серии
+   */
+  private async refreshEpisodeMarks() {
+    if (!this.currentAnimeInfo) return;
+
+    this.animeHistory = await ProgressManager.getAnimeHistory(this.currentAnimeInfo.id);
+    this.updateEpisodeMarks();
+  }
+
+  /**
+   * Отмечает просмотренные серии и частичный прогресс в селекторе эпизодов
+   */
+  private updateEpisodeMarks() {
+    const buttons = this.playerContainer?.querySelectorAll<HTMLElement>('.episode-btn');
+    buttons?.forEach(button => {
+      const episodeNumber = parseInt(button.dataset.episode || '0');
+      const progress = this.animeHistory?.episodes[ProgressManager.episodeKey(this.currentSeason, episodeNumber)];
+      const state = progress?.state || 'unwatched';
+      const bar = button.querySelector<HTMLElement>('.episode-progress');
+
+      let percent = 0;
+      if (state === 'watched') {
+        percent = 100;
+      } else if (progress && progress.duration > 0) {
+        percent = Math.min(100, (progress.currentTime / progress.duration) * 100);
+      }
+
+      button.dataset.state = state;
+      button.title = `Эпизод ${episodeNumber}` + (state === 'watched' ? ' • просмотрено' : percent > 0 ? ` • ${Math.round(percent)}%` : '');
+      button.style.opacity = state === 'watched' && episodeNumber !== this.currentEpisode ? '0.65' : '1';
+      if (bar) {
+        bar.style.width = `${percent}%`;
+        bar.style.background = state === 'watched' ? '#28a745' : '#ff6b35';
+      }
+    });
   }
 
   /**
@@ -1118,63 +1333,40 @@ class AnimeStarsKodikOptimizer {
 
     console.log('🎬 Creating video player...');
 
-    // Создаем главный контейнер плеера
-    const playerWrapper = document.createElement('div');
-    playerWrapper.className = 'animestars-player-wrapper';
-    playerWrapper.style.cssText = `
-      position: relative;
-      background: linear-gradient(135deg, #0f0f0f 0%, #1a1a1a 100%);
-      aspect-ratio: 16/9;
-      border-radius: 12px;
-      overflow: hidden;
-      box-shadow: 0 8px 25px rgba(0,0,0,0.4);
-      cursor: pointer;
-    `;
+    // Плеер отвечает за видео, HLS.js и базовые контролы, остальное добавляем поверх
+    const player = new FastVideoPlayer({ bufferSize: this.settings.bufferSize });
+    this.player = player;
 
-    // Создаем видео элемент
-    this.videoElement = document.createElement('video');
-    this.videoElement.style.cssText = `
-      width: 100%;
-      height: 100%;
-      object-fit: contain;
-      border-radius: 12px;
-    `;
-    this.videoElement.controls = false;
-    this.videoElement.preload = 'metadata';
-    
     // Создаем красивый poster с информацией об аниме
-    await this.createVideoPoster();
-
-    // Создаем индикатор загрузки
-    this.createLoadingIndicator(playerWrapper);
+    await this.updateVideoPoster();
 
-    // Создаем кастомные контролы
-    this.createCustomControls(playerWrapper);
+    // Навигация по сериям, меню и карточки
+    this.createCustomControls(player);
 
-    // Создаем центральную кнопку воспроизведения
-    this.createCenterPlayButton(playerWrapper);
-
-    // Добавляем видео в контейнер
-    playerWrapper.appendChild(this.videoElement);
+    // Окно со списком горячих клавиш
+    this.keymapHelp = new KeymapHelpOverlay();
+    this.keymapHelp.setKeymap(this.keymap);
+    player.addOverlay(this.keymapHelp.element);
 
     // Добавляем обработчики событий
-    this.setupVideoEvents();
+    this.setupVideoEvents(player);
     this.setupKeyboardControls();
-    this.setupMouseControls(playerWrapper);
 
-    this.playerContainer.appendChild(playerWrapper);
+    this.playerContainer.appendChild(player.element);
 
     // Загружаем видео для текущего эпизода
     await this.loadVideo();
   }
 
   /**
-   * Создает красивый poster для видео с информацией об аниме
+   * Передает плееру poster с информацией об аниме
    */
-  private async createVideoPoster() {
-    if (!this.videoElement || !this.currentAnimeInfo) {
+  private async updateVideoPoster() {
+    if (!this.player) return;
+
+    if (!this.currentAnimeInfo) {
       // Используем базовый градиентный poster
-      this.videoElement!.poster = this.createDefaultPoster();
+      this.player.setPoster(null);
       return;
     }
 
@@ -1183,7 +1375,7 @@ class AnimeStarsKodikOptimizer {
       const kodikPoster = await this.tryGetKodikPoster();
       
       if (kodikPoster) {
-        this.videoElement.poster = kodikPoster;
+        this.player.setPoster(kodikPoster);
         console.log('✅ Using Kodik poster');
         return;
       }
@@ -1191,9 +1383,16 @@ class AnimeStarsKodikOptimizer {
       console.log('⚠️ Could not get Kodik poster, using custom poster');
     }
 
-    // Создаем кастомный poster с информацией об аниме
-    const customPoster = await this.createCustomPoster();
-    this.videoElement.poster = customPoster;
+    // Плеер рисует poster с информацией об аниме
+    this.player.setPoster({
+      title: this.currentAnimeInfo.title,
+      episodeText: this.isMovie
+        ? 'Фильм'
+        : this.seasons.length > 1
+          ? `Сезон ${this.currentSeason} • Серия ${this.currentEpisode}`
+          : `Серия ${this.currentEpisode}`,
+      translationText: this.currentTranslation?.title || 'Озвучка'
+    });
   }
 
   /**
@@ -1204,7 +1403,7 @@ class AnimeStarsKodikOptimizer {
 
     try {
       // Пробуем найти превью в данных Kodik
-      const episodeUrl = `https://kodik.info/serial/${this.currentTranslation.mediaId}/${this.currentTranslation.mediaHash}/720p?min_age=16&first_url=false&season=1&episode=${this.currentEpisode}`;
+      const episodeUrl = this.buildEpisodeUrl(this.currentSeason, this.currentEpisode);
       
       const response = await this.fetchViaBackground(episodeUrl);
       if (!response.success || !response.data) return null;
@@ -1242,641 +1441,189 @@ class AnimeStarsKodikOptimizer {
   }
 
   /**
-   * Создает кастомный poster с информацией об аниме
+   * Добавляет в плеер меню и карточку следующей серии, подключает навигацию по сериям
    */
-  private async createCustomPoster(): Promise<string> {
-    const canvas = document.createElement('canvas');
-    canvas.width = 800;
-    canvas.height = 450;
-    const ctx = canvas.getContext('2d')!;
-
-    // Создаем градиентный фон
-    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-    gradient.addColorStop(0, '#1a1a2e');
-    gradient.addColorStop(0.5, '#16213e');
-    gradient.addColorStop(1, '#0f3460');
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Добавляем паттерн
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
-    for (let i = 0; i < 50; i++) {
-      const x = Math.random() * canvas.width;
-      const y = Math.random() * canvas.height;
-      const size = Math.random() * 3 + 1;
-      ctx.fillRect(x, y, size, size);
-    }
-
-    // Центральная иконка воспроизведения
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    const iconSize = 80;
-
-    // Тень для иконки
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-    ctx.beginPath();
-    ctx.arc(centerX + 3, centerY + 3, iconSize / 2, 0, 2 * Math.PI);
-    ctx.fill();
-
-    // Фон иконки
-    ctx.fillStyle = 'rgba(0, 212, 255, 0.2)';
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, iconSize / 2, 0, 2 * Math.PI);
-    ctx.fill();
-
-    // Обводка иконки
-    ctx.strokeStyle = 'rgba(0, 212, 255, 0.8)';
-    ctx.lineWidth = 3;
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, iconSize / 2, 0, 2 * Math.PI);
-    ctx.stroke();
-
-    // Треугольник воспроизведения
-    ctx.fillStyle = '#00d4ff';
-    ctx.beginPath();
-    ctx.moveTo(centerX - 15, centerY - 20);
-    ctx.lineTo(centerX - 15, centerY + 20);
-    ctx.lineTo(centerX + 20, centerY);
-    ctx.closePath();
-    ctx.fill();
-
-    // Название аниме
-    if (this.currentAnimeInfo?.title) {
-      ctx.fillStyle = '#ffffff';
-      ctx.font = 'bold 32px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      
-      // Тень для текста
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillText(this.currentAnimeInfo.title, centerX + 2, centerY - 82);
-      
-      // Основной текст
-      ctx.fillStyle = '#ffffff';
-      ctx.fillText(this.currentAnimeInfo.title, centerX, centerY - 80);
-    }
-
-    // Информация о серии и переводе
-    const episodeText = `Серия ${this.currentEpisode}`;
-    const translationText = this.currentTranslation?.title || 'Озвучка';
-    
-    ctx.font = '20px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif';
-    
-    // Тень
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-    ctx.fillText(episodeText, centerX + 1, centerY + 101);
-    ctx.fillText(translationText, centerX + 1, centerY + 131);
-    
-    // Основной текст
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-    ctx.fillText(episodeText, centerX, centerY + 100);
-    
-    ctx.fillStyle = 'rgba(0, 212, 255, 0.9)';
-    ctx.fillText(translationText, centerX, centerY + 130);
-
-    // Декоративные элементы по углам
-    this.drawCornerDecorations(ctx, canvas.width, canvas.height);
-
-    return canvas.toDataURL('image/png', 0.9);
+  private createCustomControls(player: FastVideoPlayer) {
+    // Кнопки навигации по эпизодам
+    player.on('previousepisode', () => this.goToPreviousEpisode());
+    player.on('nextepisode', () => this.goToNextEpisode());
+    this.updateNavigationButtons();
+
+    // Ограничение сессии «ещё N серий и стоп»
+    this.sessionMenu = new SessionMenu(limit => {
+      this.sessionEpisodesLeft = limit;
+      console.log('⏹️ Session limit:', limit);
+    }, player.signal);
+    this.sessionMenu.setRemaining(this.sessionEpisodesLeft);
+
+    // Меню скорости воспроизведения
+    this.speedMenu = new SpeedMenu(
+      rate => this.setPlaybackRate(rate),
+      preservePitch => SettingsManager.saveSettings({ preservePitch }),
+      player.signal
+    );
+    this.speedMenu.setRate(this.playbackRate);
+    this.speedMenu.setPreservePitch(this.settings.preservePitch);
+
+    // Меню аудиодорожек, видно только у потоков с несколькими дорожками
+    this.audioMenu = new AudioMenu(index => this.selectAudioTrack(index), player.signal);
+
+    // Меню субтитров: дорожки серии и свой файл
+    this.subtitleMenu = new SubtitleMenu({
+      onSelectTrack: index => this.selectSubtitleTrack(index),
+      onSettingsChange: settings => SubtitleSettingsManager.saveSettings({ ...this.subtitleSettings, ...settings }),
+      onLoadFile: file => this.loadLocalSubtitleFile(file),
+      onOffsetChange: delta => this.shiftLocalSubtitles(delta),
+      onRemoveFile: () => this.removeLocalSubtitle()
+    }, player.signal);
+    this.subtitleMenu.setSettings(this.subtitleSettings);
+
+    // Меню отметок опенинга/эндинга
+    this.skipMenu = new SkipMenu(action => this.handleSkipMenuAction(action), player.signal);
+    this.skipMenu.setMarkers(this.skipMarkers);
+
+    player.addControl(this.sessionMenu.element, 'end');
+    player.addControl(this.speedMenu.element, 'end');
+    player.addControl(this.audioMenu.element, 'end');
+    player.addControl(this.subtitleMenu.element, 'end');
+    player.addControl(this.skipMenu.element, 'end');
+
+    player.on('skipsegment', () => this.skipActiveSegment());
+
+    // Карточка перехода к следующей серии
+    this.nextEpisodeCard = new NextEpisodeCard({
+      onPlayNow: auto => this.advanceToNextEpisode(auto),
+      onCancel: () => {
+        this.nextEpisodeCancelled = true;
+        console.log('⏸️ Next episode cancelled');
+      }
+    });
+    player.addOverlay(this.nextEpisodeCard.element);
   }
 
   /**
-   * Рисует декоративные элементы по углам poster'а
+   * Подписывает селекторы, контролы и состояние потока на события плеера
    */
-  private drawCornerDecorations(ctx: CanvasRenderingContext2D, width: number, height: number) {
-    const cornerSize = 40;
-    const lineWidth = 3;
-    
-    ctx.strokeStyle = 'rgba(0, 212, 255, 0.4)';
-    ctx.lineWidth = lineWidth;
-    
-    // Верхний левый угол
-    ctx.beginPath();
-    ctx.moveTo(20, 20 + cornerSize);
-    ctx.lineTo(20, 20);
-    ctx.lineTo(20 + cornerSize, 20);
-    ctx.stroke();
-    
-    // Верхний правый угол
-    ctx.beginPath();
-    ctx.moveTo(width - 20 - cornerSize, 20);
-    ctx.lineTo(width - 20, 20);
-    ctx.lineTo(width - 20, 20 + cornerSize);
-    ctx.stroke();
-    
-    // Нижний левый угол
-    ctx.beginPath();
-    ctx.moveTo(20, height - 20 - cornerSize);
-    ctx.lineTo(20, height - 20);
-    ctx.lineTo(20 + cornerSize, height - 20);
-    ctx.stroke();
-    
-    // Нижний правый угол
-    ctx.beginPath();
-    ctx.moveTo(width - 20 - cornerSize, height - 20);
-    ctx.lineTo(width - 20, height - 20);
-    ctx.lineTo(width - 20, height - 20 - cornerSize);
-    ctx.stroke();
-  }
+  private subscribeToPlayerEvents() {
+    playerEvents.on('translationChanged', ({ translationId }) => {
+      const translationButtons = this.playerContainer?.querySelectorAll<HTMLElement>('.translation-btn');
+      translationButtons?.forEach((btn, index) => {
+        btn.style.background = this.translations[index]?.translationId === translationId ? '#007bff' : '#333';
+      });
+    });
 
-  /**
-   * Создает базовый градиентный poster
-   */
-  private createDefaultPoster(): string {
-    const canvas = document.createElement('canvas');
-    canvas.width = 800;
-    canvas.height = 450;
-    const ctx = canvas.getContext('2d')!;
+    playerEvents.on('episodeChanged', ({ episode }) => {
+      this.updateSeasonButtons();
 
-    // Градиентный фон
-    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-    gradient.addColorStop(0, '#232323');
-    gradient.addColorStop(1, '#111111');
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const episodeButtons = this.playerContainer?.querySelectorAll<HTMLElement>('.episode-btn');
+      episodeButtons?.forEach(btn => {
+        btn.style.background = parseInt(btn.dataset.episode || '0') === episode ? '#007bff' : '#444';
+      });
+      this.updateEpisodeMarks();
+      this.updateNavigationButtons();
+    });
 
-    // Центральная иконка
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, 50, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-    ctx.beginPath();
-    ctx.moveTo(centerX - 15, centerY - 20);
-    ctx.lineTo(centerX - 15, centerY + 20);
-    ctx.lineTo(centerX + 20, centerY);
-    ctx.closePath();
-    ctx.fill();
+    playerEvents.on('qualityChanged', ({ quality }) => {
+      this.selectedQuality = quality;
+    });
 
-    return canvas.toDataURL('image/png', 0.8);
+    playerEvents.on('streamError', ({ message }) => {
+      this.lastStreamError = message;
+    });
   }
 
   /**
-   * Создает индикатор загрузки
+   * Сообщает о смене текущей серии
    */
-  private createLoadingIndicator(container: HTMLElement) {
-    const loadingOverlay = document.createElement('div');
-    loadingOverlay.className = 'loading-overlay';
-    loadingOverlay.style.cssText = `
-      position: absolute;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      background: rgba(0,0,0,0.9);
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      flex-direction: column;
-      z-index: 100;
-      transition: opacity 0.4s ease;
-      backdrop-filter: blur(10px);
-    `;
-
-    const spinner = document.createElement('div');
-    spinner.style.cssText = `
-      width: 60px;
-      height: 60px;
-      border: 4px solid rgba(255,255,255,0.2);
-      border-top: 4px solid #00d4ff;
-      border-radius: 50%;
-      animation: spin 1.2s linear infinite;
-      margin-bottom: 20px;
-      box-shadow: 0 0 20px rgba(0,212,255,0.3);
-    `;
-
-    const loadingText = document.createElement('div');
-    loadingText.textContent = 'Загрузка видео...';
-    loadingText.style.cssText = `
-      color: white;
-      font-size: 16px;
-      font-weight: 600;
-      text-shadow: 0 2px 4px rgba(0,0,0,0.5);
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
-    `;
-
-    // Добавляем CSS анимацию
-    if (!document.querySelector('#animestars-animations')) {
-      const style = document.createElement('style');
-      style.id = 'animestars-animations';
-      style.textContent = `
-        @keyframes spin {
-          0% { transform: rotate(0deg); }
-          100% { transform: rotate(360deg); }
-        }
-        @keyframes fadeIn {
-          from { opacity: 0; transform: scale(0.9); }
-          to { opacity: 1; transform: scale(1); }
-        }
-        @keyframes slideUp {
-          from { transform: translateY(10px); opacity: 0; }
-          to { transform: translateY(0); opacity: 1; }
-        }
-      `;
-      document.head.appendChild(style);
-    }
-
-    loadingOverlay.appendChild(spinner);
-    loadingOverlay.appendChild(loadingText);
-    container.appendChild(loadingOverlay);
-
-    this.loadingOverlay = loadingOverlay;
+  private emitEpisodeChanged() {
+    playerEvents.emit('episodeChanged', {
+      animeId: this.currentAnimeInfo?.id,
+      season: this.currentSeason,
+      episode: this.currentEpisode
+    });
   }
 
   /**
-   * Создает центральную кнопку воспроизведения
+   * Настраивает события видео элемента
    */
-  private createCenterPlayButton(container: HTMLElement) {
-    const centerButton = document.createElement('div');
-    centerButton.className = 'center-play-button';
-    centerButton.style.cssText = `
-      position: absolute;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      width: 90px;
-      height: 90px;
-      background: rgba(0,0,0,0.8);
-      border: 3px solid rgba(255,255,255,0.9);
-      border-radius: 50%;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      cursor: pointer;
-      z-index: 50;
-      transition: all 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
-      backdrop-filter: blur(10px);
-      box-shadow: 0 8px 32px rgba(0,0,0,0.4);
-    `;
+  private setupVideoEvents(player: FastVideoPlayer) {
+    // Дорожки субтитров добавляем мы (внешние файлы) и HLS.js (субтитры в манифесте)
+    player.on('subtitletracks', () => this.refreshSubtitleTracks());
+    player.on('subtitlefile', file => this.loadLocalSubtitleFile(file));
+    this.applySubtitleStyle();
 
-    centerButton.innerHTML = `
-      <svg width="36" height="36" viewBox="0 0 24 24" fill="white">
-        <path d="M8 5v14l11-7z"/>
-      </svg>
-    `;
+    player.on('canplay', () => {
+      // Запускаем автосохранение прогресса
+      this.startProgressTracking();
+    });
 
-    centerButton.addEventListener('mouseenter', () => {
-      centerButton.style.transform = 'translate(-50%, -50%) scale(1.1)';
-      centerButton.style.background = 'rgba(0,123,255,0.9)';
-      centerButton.style.borderColor = 'rgba(0,123,255,1)';
-      centerButton.style.boxShadow = '0 12px 40px rgba(0,123,255,0.4)';
+    player.on('pause', () => {
+      // Сохраняем прогресс при паузе
+      this.saveCurrentProgress();
+    });
+
+    player.on('timeupdate', () => {
+      this.updateSkipButton();
+      this.updateNextEpisodeCard();
+      this.preloadNextEpisode();
     });
 
-    centerButton.addEventListener('mouseleave', () => {
-      centerButton.style.transform = 'translate(-50%, -50%) scale(1)';
-      centerButton.style.background = 'rgba(0,0,0,0.8)';
-      centerButton.style.borderColor = 'rgba(255,255,255,0.9)';
-      centerButton.style.boxShadow = '0 8px 32px rgba(0,0,0,0.4)';
+    player.on('ready', () => this.autoplayIfEnabled());
+
+    player.on('qualitychange', quality => {
+      playerEvents.emit('qualityChanged', { quality });
+    });
+
+    player.on('audiotracks', tracks => {
+      void this.applyAudioTracks(tracks);
     });
 
-    centerButton.addEventListener('mousedown', () => {
-      centerButton.style.transform = 'translate(-50%, -50%) scale(0.95)';
+    player.on('audiotrackswitch', index => {
+      this.audioMenu?.setSelected(index);
     });
 
-    centerButton.addEventListener('mouseup', () => {
-      centerButton.style.transform = 'translate(-50%, -50%) scale(1.1)';
+    player.on('error', message => {
+      playerEvents.emit('streamError', { message, stage: 'playback' });
     });
 
-    centerButton.addEventListener('click', (e) => {
-      console.log('🎬 Center play button clicked - event target:', e.target);
-      console.log('🎬 Video element paused state:', this.videoElement?.paused);
-      e.stopPropagation(); // Предотвращаем всплытие события
-      e.preventDefault(); // Предотвращаем действие по умолчанию
-      this.togglePlayPause();
+    player.on('ended', () => {
+      // Отмечаем серию просмотренной
+      if (this.isProgressSystemActive && this.currentAnimeInfo) {
+        ProgressManager.markEpisodeWatched(this.currentAnimeInfo, player.duration);
+      }
+      
+      // Автопереход к следующей серии (в том числе к первой серии следующего сезона)
+      if (this.shouldAutoAdvance()) {
+        if (!this.nextEpisodeCancelled && !this.nextEpisodeCard?.isVisible) {
+          this.showNextEpisodeCard();
+        }
+      } else if (this.sessionEpisodesLeft === 0) {
+        console.log('⏹️ Session limit reached, stopping');
+        this.sessionEpisodesLeft = null;
+        this.sessionMenu?.setRemaining(null);
+      }
     });
 
-    container.appendChild(centerButton);
-    this.centerPlayButton = centerButton;
+    // Сохраняем прогресс при закрытии страницы
+    window.addEventListener('beforeunload', () => {
+      this.saveCurrentProgress();
+    }, { signal: this.pageListeners.signal });
   }
 
   /**
-   * Создает кастомные контролы плеера
+   * Запускает отслеживание прогресса просмотра
    */
-  private createCustomControls(container: HTMLElement) {
-    const controlsBar = document.createElement('div');
-    controlsBar.className = 'custom-controls';
-    controlsBar.style.cssText = `
-      position: absolute;
-      bottom: 0;
-      left: 0;
-      right: 0;
-      background: linear-gradient(transparent, rgba(0,0,0,0.9));
-      padding: 30px 20px 20px;
-      transform: translateY(0);
-      transition: all 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
-      z-index: 60;
-      backdrop-filter: blur(10px);
-    `;
-
-    // Полоса прогресса
-    const progressContainer = document.createElement('div');
-    progressContainer.style.cssText = `
-      width: 100%;
-      height: 8px;
-      background: rgba(255,255,255,0.2);
-      border-radius: 4px;
-      margin-bottom: 16px;
-      cursor: pointer;
-      position: relative;
-      box-shadow: inset 0 1px 3px rgba(0,0,0,0.3);
-    `;
-
-    const progressBar = document.createElement('div');
-    progressBar.style.cssText = `
-      height: 100%;
-      background: linear-gradient(90deg, #00d4ff, #007bff);
-      border-radius: 4px;
-      width: 0%;
-      transition: width 0.2s ease;
-      box-shadow: 0 2px 8px rgba(0,123,255,0.3);
-    `;
+  private startProgressTracking() {
+    if (!this.isProgressSystemActive || !this.currentAnimeInfo || !this.videoElement) {
+      console.log('⚠️ Progress tracking not available');
+      return;
+    }
 
-    const bufferedBar = document.createElement('div');
-    bufferedBar.className = 'buffered-bar';
-    bufferedBar.style.cssText = `
-      position: absolute;
-      top: 0;
-      left: 0;
-      height: 100%;
-      background: rgba(255,255,255,0.3);
-      border-radius: 4px;
-      width: 0%;
-    `;
-
-    progressContainer.appendChild(bufferedBar);
-    progressContainer.appendChild(progressBar);
-
-    // Контролы
-    const controlsRow = document.createElement('div');
-    controlsRow.style.cssText = `
-      display: flex;
-      align-items: center;
-      gap: 16px;
-      color: white;
-    `;
-
-    // Кнопка воспроизведения
-    const playButton = this.createControlButton('play', `
-      <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
-        <path d="M8 5v14l11-7z"/>
-      </svg>
-    `);
-
-    // Кнопка предыдущего эпизода
-    const prevEpisodeButton = this.createControlButton('prev-episode', `
-      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-        <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/>
-      </svg>
-    `);
-    prevEpisodeButton.title = 'Предыдущий эпизод';
-
-    // Кнопка следующего эпизода
-    const nextEpisodeButton = this.createControlButton('next-episode', `
-      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-        <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/>
-      </svg>
-    `);
-    nextEpisodeButton.title = 'Следующий эпизод';
-
-    // Обновляем видимость кнопок навигации
-    this.updateNavigationButtons(prevEpisodeButton, nextEpisodeButton);
-
-    // Информация о времени
-    const timeInfo = document.createElement('span');
-    timeInfo.style.cssText = `
-      font-size: 14px;
-      font-weight: 600;
-      min-width: 110px;
-      text-shadow: 0 1px 2px rgba(0,0,0,0.5);
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
-    `;
-    timeInfo.textContent = '00:00 / 00:00';
-
-    // Spacer для выравнивания
-    const spacer = document.createElement('div');
-    spacer.style.cssText = `flex: 1;`;
-
-    // Громкость
-    const volumeContainer = document.createElement('div');
-    volumeContainer.style.cssText = `
-      display: flex;
-      align-items: center;
-      gap: 10px;
-    `;
-
-    const volumeButton = this.createControlButton('volume', `
-      <svg width="22" height="22" viewBox="0 0 24 24" fill="currentColor">
-        <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
-    `);
-
-    const volumeSlider = document.createElement('input');
-    volumeSlider.type = 'range';
-    volumeSlider.min = '0';
-    volumeSlider.max = '100';
-    volumeSlider.value = '100';
-    volumeSlider.style.cssText = `
-      width: 90px;
-      height: 6px;
-      background: rgba(255,255,255,0.3);
-      border-radius: 3px;
-      outline: none;
-      cursor: pointer;
-      -webkit-appearance: none;
-      appearance: none;
-    `;
-
-    // Добавляем стили для ползунка через CSS
-    const style = document.createElement('style');
-    style.textContent = `
-      input[type="range"]::-webkit-slider-thumb {
-        -webkit-appearance: none;
-        appearance: none;
-        width: 16px;
-        height: 16px;
-        border-radius: 50%;
-        background: #00d4ff;
-        cursor: pointer;
-        box-shadow: 0 2px 8px rgba(0,212,255,0.4);
-        transition: all 0.2s ease;
-      }
-      
-      input[type="range"]::-webkit-slider-thumb:hover {
-        transform: scale(1.2);
-        box-shadow: 0 4px 12px rgba(0,212,255,0.6);
-      }
-      
-      input[type="range"]::-moz-range-thumb {
-        width: 16px;
-        height: 16px;
-        border-radius: 50%;
-        background: #00d4ff;
-        cursor: pointer;
-        border: none;
-        box-shadow: 0 2px 8px rgba(0,212,255,0.4);
-      }
-    `;
-    document.head.appendChild(style);
-
-    // Полноэкранная кнопка
-    const fullscreenButton = this.createControlButton('fullscreen', `
-      <svg width="22" height="22" viewBox="0 0 24 24" fill="currentColor">
-        <path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z"/>
-      </svg>
-    `);
-
-    volumeContainer.appendChild(volumeButton);
-    volumeContainer.appendChild(volumeSlider);
-
-    controlsRow.appendChild(playButton);
-    controlsRow.appendChild(prevEpisodeButton);
-    controlsRow.appendChild(nextEpisodeButton);
-    controlsRow.appendChild(timeInfo);
-    controlsRow.appendChild(spacer);
-    controlsRow.appendChild(volumeContainer);
-    controlsRow.appendChild(fullscreenButton);
-
-    controlsBar.appendChild(progressContainer);
-    controlsBar.appendChild(controlsRow);
-    container.appendChild(controlsBar);
-
-    this.customControls = controlsBar;
-    this.progressBar = progressBar;
-    this.volumeSlider = volumeSlider;
-    this.bufferedBar = bufferedBar;
-
-    // Добавляем обработчики
-    this.setupControlsEvents(playButton, timeInfo, progressContainer, volumeButton, fullscreenButton, prevEpisodeButton, nextEpisodeButton);
-  }
-
-  /**
-   * Создает кнопку для контролов
-   */
-  private createControlButton(type: string, icon: string): HTMLElement {
-    const button = document.createElement('button');
-    button.className = `control-btn control-btn-${type}`;
-    button.style.cssText = `
-      background: rgba(255,255,255,0.1);
-      border: none;
-      color: white;
-      cursor: pointer;
-      padding: 12px;
-      border-radius: 8px;
-      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      backdrop-filter: blur(5px);
-      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
-    `;
-    button.innerHTML = icon;
-
-    button.addEventListener('mouseenter', () => {
-      button.style.background = 'rgba(255,255,255,0.2)';
-      button.style.transform = 'scale(1.05)';
-      button.style.boxShadow = '0 4px 12px rgba(0,0,0,0.3)';
-    });
-
-    button.addEventListener('mouseleave', () => {
-      button.style.background = 'rgba(255,255,255,0.1)';
-      button.style.transform = 'scale(1)';
-      button.style.boxShadow = '0 2px 8px rgba(0,0,0,0.2)';
-    });
-
-    button.addEventListener('mousedown', () => {
-      button.style.transform = 'scale(0.95)';
-    });
-
-    button.addEventListener('mouseup', () => {
-      button.style.transform = 'scale(1.05)';
-    });
-
-    return button;
-  }
-
-  /**
-   * Настраивает события видео элемента
-   */
-  private setupVideoEvents() {
-    if (!this.videoElement) return;
-
-    this.videoElement.addEventListener('loadstart', () => {
-      console.log('📺 Video loading started');
-      this.showLoading();
-    });
-
-    this.videoElement.addEventListener('canplay', () => {
-      console.log('📺 Video can start playing');
-      this.hideLoading();
-      this.hideCenterPlayButton();
-      
-      // Запускаем автосохранение прогресса
-      this.startProgressTracking();
-    });
-
-    this.videoElement.addEventListener('waiting', () => {
-      this.showLoading();
-    });
-
-    this.videoElement.addEventListener('playing', () => {
-      this.hideLoading();
-      this.hideCenterPlayButton();
-      this.updatePlayButton(false);
-    });
-
-    this.videoElement.addEventListener('pause', () => {
-      this.updatePlayButton(true);
-      this.showCenterPlayButton();
-      
-      // Сохраняем прогресс при паузе
-      this.saveCurrentProgress();
-    });
-
-    this.videoElement.addEventListener('timeupdate', () => {
-      this.updateProgress();
-    });
-
-    this.videoElement.addEventListener('progress', () => {
-      this.updateBuffered();
-    });
-
-    this.videoElement.addEventListener('ended', () => {
-      this.showCenterPlayButton();
-      
-      // Сохраняем финальный прогресс
-      this.saveCurrentProgress();
-      
-      // Автопереход к следующей серии
-      if (this.currentEpisode < this.episodes.length) {
-        setTimeout(() => this.switchEpisode(this.currentEpisode + 1), 2000);
-      }
-    });
-
-    // Сохраняем прогресс при закрытии страницы
-    window.addEventListener('beforeunload', () => {
-      this.saveCurrentProgress();
-    });
-  }
-
-  /**
-   * Запускает отслеживание прогресса просмотра
-   */
-  private startProgressTracking() {
-    if (!this.isProgressSystemActive || !this.currentAnimeInfo || !this.videoElement) {
-      console.log('⚠️ Progress tracking not available');
-      return;
-    }
-
-    console.log('📊 Starting progress tracking for:', this.currentAnimeInfo.title);
-    
-    // Запускаем автосохранение прогресса
-    ProgressManager.startAutoSave(this.currentAnimeInfo, this.videoElement);
-  }
+    console.log('📊 Starting progress tracking for:', this.currentAnimeInfo.title);
+    
+    // Запускаем автосохранение прогресса
+    ProgressManager.startAutoSave(this.currentAnimeInfo, this.videoElement);
+  }
 
   /**
    * Сохраняет текущий прогресс просмотра
@@ -1912,9 +1659,11 @@ class AnimeStarsKodikOptimizer {
 
     this.currentAnimeInfo = {
       ...this.currentAnimeInfo,
+      currentSeason: this.currentSeason,
       currentEpisode: this.currentEpisode,
       totalEpisodes: this.episodes.length > 0 ? this.episodes.length : undefined,
       translationId: this.currentTranslation.translationId,
+      translationTitle: this.currentTranslation.title,
       url: window.location.href
     };
 
@@ -1939,6 +1688,16 @@ class AnimeStarsKodikOptimizer {
       if (resumeOptions) {
         console.log('📺 Found saved progress, restoring automatically:', resumeOptions);
         
+        // Сезон выставляем до загрузки эпизодов, чтобы загрузился нужный список серий
+        const resumeSeason = resumeOptions.season ?? this.currentSeason;
+        let episodesReloaded = false;
+        const seasonChanged = resumeSeason !== this.currentSeason &&
+          this.seasons.some(season => season.number === resumeSeason);
+        if (seasonChanged) {
+          console.log(`📺 Switching to saved season: ${resumeSeason}`);
+          this.currentSeason = resumeSeason;
+        }
+        
         // Проверяем, нужно ли переключить озвучку
         if (resumeOptions.translation && this.currentTranslation?.translationId !== resumeOptions.translation) {
           console.log(`📺 Switching to saved translation: ${resumeOptions.translation}`);
@@ -1949,41 +1708,33 @@ class AnimeStarsKodikOptimizer {
           if (targetTranslation) {
             console.log(`📺 Found target translation: ${targetTranslation.title}`);
             this.currentTranslation = targetTranslation;
-            
-            // Обновляем UI селектора озвучек
-            const translationButtons = this.playerContainer?.querySelectorAll('.translation-btn');
-            translationButtons?.forEach((btn, index) => {
-              (btn as HTMLElement).style.background = 
-                this.translations[index] === targetTranslation ? '#007bff' : '#333';
+            playerEvents.emit('translationChanged', {
+              translationId: targetTranslation.translationId,
+              title: targetTranslation.title
             });
             
             // Перезагружаем эпизоды для новой озвучки
             await this.loadEpisodes();
+            episodesReloaded = true;
             
-            // Пересоздаем селектор эпизодов если нужно
-            const oldEpisodeSelector = this.playerContainer?.querySelector('.episode-selector');
-            if (oldEpisodeSelector) {
-              oldEpisodeSelector.remove();
-              this.createEpisodeSelector();
-            }
+            // Пересоздаем селекторы сезонов и эпизодов
+            this.rebuildEpisodeSelectors();
           } else {
             console.warn(`⚠️ Translation ${resumeOptions.translation} not found in current list`);
           }
         }
         
+        if (seasonChanged && !episodesReloaded) {
+          await this.loadEpisodes();
+          this.rebuildEpisodeSelectors();
+        }
+        
         // Проверяем, нужно ли переключить эпизод
         if (resumeOptions.episode !== this.currentEpisode) {
           console.log(`📺 Switching to saved episode: ${resumeOptions.episode}`);
           this.currentEpisode = resumeOptions.episode;
           this.updateAnimeInfoForCurrentEpisode();
-          
-          // Обновляем UI селектора эпизодов
-          const episodeButtons = this.playerContainer?.querySelectorAll('.episode-btn');
-          episodeButtons?.forEach(btn => {
-            const btnEpisode = parseInt(btn.textContent || '0');
-            (btn as HTMLElement).style.background = 
-              btnEpisode === this.currentEpisode ? '#007bff' : '#444';
-          });
+          this.emitEpisodeChanged();
         }
         
         // Показываем информационное уведомление
@@ -2028,8 +1779,10 @@ class AnimeStarsKodikOptimizer {
       // Проверяем что видео элемент существует и активен
       if (!this.videoElement) return;
       
-      // Игнорируем события если фокус на input элементах (кроме полноэкранного режима)
-      if (document.activeElement?.tagName === 'INPUT' && !document.fullscreenElement) return;
+      // Игнорируем события если фокус на полях ввода (кроме полноэкранного режима)
+      const active = document.activeElement as HTMLElement | null;
+      const isTyping = active?.tagName === 'INPUT' || active?.tagName === 'TEXTAREA' || active?.isContentEditable;
+      if (isTyping && !document.fullscreenElement) return;
       
       // Проверяем что плеер активен (видимый контейнер или полноэкранный режим)
       const isPlayerActive = document.fullscreenElement || 
@@ -2037,398 +1790,324 @@ class AnimeStarsKodikOptimizer {
       
       if (!isPlayerActive) return;
 
-      switch (e.code) {
-        case 'Space':
-          e.preventDefault();
-          this.togglePlayPause();
-          break;
-        case 'ArrowLeft':
-          e.preventDefault();
-          this.seekBy(-10);
-          break;
-        case 'ArrowRight':
-          e.preventDefault();
-          this.seekBy(10);
-          break;
-        case 'ArrowUp':
-          e.preventDefault();
-          this.adjustVolume(0.1);
-          break;
-        case 'ArrowDown':
-          e.preventDefault();
-          this.adjustVolume(-0.1);
-          break;
-        case 'KeyF':
-          e.preventDefault();
-          this.toggleFullscreen();
-          break;
-        case 'KeyM':
-          e.preventDefault();
-          this.toggleMute();
-          break;
-        case 'KeyN':
-          e.preventDefault();
-          this.goToNextEpisode();
-          break;
-        case 'KeyP':
-          e.preventDefault();
-          this.goToPreviousEpisode();
-          break;
-        case 'PageUp':
+      if (e.code === 'Escape') {
+        // Закрываем список клавиш, затем выходим из полноэкранного режима
+        if (this.keymapHelp?.isVisible) {
           e.preventDefault();
-          this.goToPreviousEpisode();
-          break;
-        case 'PageDown':
+          this.keymapHelp.hide();
+        } else if (document.fullscreenElement) {
           e.preventDefault();
-          this.goToNextEpisode();
-          break;
-        case 'Escape':
-          // Выход из полноэкранного режима
-          if (document.fullscreenElement) {
-            e.preventDefault();
-            document.exitFullscreen();
-          }
-          break;
-      }
-    });
-  }
-
-  /**
-   * Настраивает события мыши
-   */
-  private setupMouseControls(container: HTMLElement) {
-    let isMouseMoving = false;
-
-    // Обработчик кликов для обычного и полноэкранного режима
-    const handleClick = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-      
-      // Не обрабатываем клики по кнопкам, input и контролам
-      if (target.closest('button') || 
-          target.closest('input') || 
-          target.closest('.custom-controls')) {
+          document.exitFullscreen();
+        }
         return;
       }
-      
-      // Обрабатываем клики по видео или контейнеру
-      if (target === this.videoElement || target === container || 
-          target.closest('.video-container') === container) {
-        this.togglePlayPause();
-      }
-    };
 
-    // Обработчик движения мыши
-    const handleMouseMove = () => {
-      this.showControls();
-      isMouseMoving = true;
-      
-      if (this.controlsHideTimeout) {
-        clearTimeout(this.controlsHideTimeout);
+      const key = KeymapManager.eventToKey(e);
+      const action = key ? KeymapManager.findAction(this.keymap.bindings, key) : null;
+      if (action) {
+        e.preventDefault();
+        this.runKeyAction(action);
+        return;
       }
-      
-      this.controlsHideTimeout = window.setTimeout(() => {
-        if (!isMouseMoving) this.hideControls();
-        isMouseMoving = false;
-      }, 3000);
-    };
-
-    // Привязываем к контейнеру
-    container.addEventListener('click', handleClick);
-    container.addEventListener('mousemove', handleMouseMove);
-
-    container.addEventListener('mouseleave', () => {
-      this.hideControls();
-    });
 
-    // Сохраняем ссылки на обработчики для правильного удаления
-    this.fullscreenClickHandler = handleClick;
-    this.fullscreenMouseMoveHandler = handleMouseMove;
-
-    // Дополнительно привязываем к document для полноэкранного режима
-    document.addEventListener('fullscreenchange', () => {
-      if (document.fullscreenElement) {
-        // Вошли в полноэкранный режим
-        if (this.fullscreenClickHandler) {
-          document.addEventListener('click', this.fullscreenClickHandler);
-        }
-        if (this.fullscreenMouseMoveHandler) {
-          document.addEventListener('mousemove', this.fullscreenMouseMoveHandler);
-        }
-        console.log('🔍 Fullscreen mode enabled - global controls active');
-      } else {
-        // Вышли из полноэкранного режима
-        if (this.fullscreenClickHandler) {
-          document.removeEventListener('click', this.fullscreenClickHandler);
-        }
-        if (this.fullscreenMouseMoveHandler) {
-          document.removeEventListener('mousemove', this.fullscreenMouseMoveHandler);
-        }
-        this.showControls(); // Показываем контролы при выходе из полноэкранного режима
-        console.log('🔍 Fullscreen mode disabled - local controls only');
+      // 0–9 перематывают на 0–90% серии
+      const digit = e.code.match(/^(?:Digit|Numpad)(\d)$/);
+      if (digit && this.keymap.digitSeek && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+        e.preventDefault();
+        this.player?.seekToPercent(parseInt(digit[1]) * 10);
       }
-    });
+    }, { signal: this.pageListeners.signal });
+  }
+
+  /**
+   * Выполняет действие горячей клавиши
+   */
+  private runKeyAction(action: KeyAction) {
+    const { seekStep, longSeekStep, volumeStep } = this.keymap;
+
+    switch (action) {
+      case 'togglePlay':
+        this.player?.togglePlay();
+        break;
+      case 'seekBackward':
+        this.player?.seekBy(-seekStep);
+        break;
+      case 'seekForward':
+        this.player?.seekBy(seekStep);
+        break;
+      case 'seekBackwardLong':
+        this.player?.seekBy(-longSeekStep);
+        break;
+      case 'seekForwardLong':
+        this.player?.seekBy(longSeekStep);
+        break;
+      case 'frameBackward':
+        this.player?.stepFrame(-1);
+        break;
+      case 'frameForward':
+        this.player?.stepFrame(1);
+        break;
+      case 'volumeUp':
+        this.player?.adjustVolume(volumeStep / 100);
+        break;
+      case 'volumeDown':
+        this.player?.adjustVolume(-volumeStep / 100);
+        break;
+      case 'toggleMute':
+        this.player?.toggleMute();
+        break;
+      case 'toggleFullscreen':
+        this.player?.toggleFullscreen();
+        break;
+      case 'speedUp':
+        this.setPlaybackRate(PlaybackSpeedManager.step(this.playbackRate, 1));
+        break;
+      case 'speedDown':
+        this.setPlaybackRate(PlaybackSpeedManager.step(this.playbackRate, -1));
+        break;
+      case 'previousEpisode':
+        this.goToPreviousEpisode();
+        break;
+      case 'nextEpisode':
+        this.goToNextEpisode();
+        break;
+      case 'skipSegment':
+        this.skipActiveSegment();
+        break;
+      case 'subtitleEarlier':
+        this.shiftLocalSubtitles(-SUBTITLE_OFFSET_STEP);
+        break;
+      case 'subtitleLater':
+        this.shiftLocalSubtitles(SUBTITLE_OFFSET_STEP);
+        break;
+      case 'showHelp':
+        this.keymapHelp?.toggle();
+        break;
+    }
   }
 
   /**
-   * Переключает воспроизведение/паузу
+   * Меняет скорость воспроизведения и запоминает её для аниме и как общую
    */
-  private togglePlayPause() {
-    console.log('🎵 togglePlayPause called, video element:', !!this.videoElement);
-    if (!this.videoElement) {
-      console.log('❌ No video element found');
-      return;
-    }
+  private setPlaybackRate(rate: number) {
+    this.playbackRate = PlaybackSpeedManager.clamp(rate);
+    this.applyPlaybackRate();
+    console.log('⏩ Playback rate:', this.playbackRate);
 
-    console.log('🎵 Current paused state:', this.videoElement.paused);
-    if (this.videoElement.paused) {
-      console.log('▶️ Playing video');
-      this.videoElement.play();
-    } else {
-      console.log('⏸️ Pausing video');
-      this.videoElement.pause();
+    if (this.currentAnimeInfo) {
+      PlaybackSpeedManager.saveRate(this.currentAnimeInfo.id, this.playbackRate);
     }
+    SettingsManager.saveSettings({ playbackRate: this.playbackRate });
   }
 
   /**
-   * Настраивает события контролов
+   * Применяет скорость к видео; defaultPlaybackRate сохраняет её при смене источника
    */
-  private setupControlsEvents(
-    playButton: HTMLElement, 
-    timeInfo: HTMLElement, 
-    progressContainer: HTMLElement, 
-    volumeButton: HTMLElement, 
-    fullscreenButton: HTMLElement,
-    prevEpisodeButton: HTMLElement,
-    nextEpisodeButton: HTMLElement
-  ) {
-    // Кнопка воспроизведения
-    if (playButton) {
-      playButton.addEventListener('click', () => {
-        this.togglePlayPause();
-      });
-    }
+  private applyPlaybackRate() {
+    this.speedMenu?.setRate(this.playbackRate);
+    this.player?.setPlaybackRate(this.playbackRate, this.settings.preservePitch);
+  }
 
-    // Кнопки навигации по эпизодам
-    if (prevEpisodeButton) {
-      prevEpisodeButton.addEventListener('click', () => {
-        this.goToPreviousEpisode();
-      });
-    }
+  /**
+   * Загружает отметки опенинга/эндинга для текущей серии и озвучки
+   */
+  private async refreshSkipMarkers() {
+    if (!this.currentAnimeInfo) return;
 
-    if (nextEpisodeButton) {
-      nextEpisodeButton.addEventListener('click', () => {
-        this.goToNextEpisode();
-      });
-    }
+    this.skipMarkers = await SkipMarkersManager.getMarkers(this.currentAnimeInfo);
+    this.skipMenu?.setMarkers(this.skipMarkers);
+    this.player?.setTimelineMarks(SkipMarkersManager.SEGMENT_TYPES
+      .map(type => this.skipMarkers[type])
+      .filter((range): range is SkipRange => !!range));
+    this.updateSkipButton();
+  }
 
-    // Полоса прогресса
-    if (progressContainer) {
-      progressContainer.addEventListener('click', (e) => {
-        if (!this.videoElement) return;
-        const rect = progressContainer.getBoundingClientRect();
-        const percent = (e.clientX - rect.left) / rect.width;
-        this.videoElement.currentTime = percent * this.videoElement.duration;
-      });
-    }
+  /**
+   * Показывает кнопку пропуска внутри отмеченного сегмента и выполняет автопропуск
+   */
+  private updateSkipButton() {
+    if (!this.player) return;
 
-    // Громкость
-    if (this.volumeSlider) {
-      this.volumeSlider.addEventListener('input', (e) => {
-        if (!this.videoElement) return;
-        const target = e.target as HTMLInputElement;
-        this.videoElement.volume = parseInt(target.value) / 100;
-      });
+    const active = SkipMarkersManager.findActiveSegment(this.skipMarkers, this.player.currentTime);
+    if (!active) {
+      this.player.hideSkipButton();
+      return;
     }
 
-    if (volumeButton) {
-      volumeButton.addEventListener('click', () => {
-        this.toggleMute();
-      });
+    if (this.settings.autoSkip && !this.autoSkippedSegments.has(active) && !this.player.paused) {
+      this.autoSkippedSegments.add(active);
+      console.log(`⏭️ Auto-skipping ${active}`);
+      this.skipSegment(active, true);
+      return;
     }
 
-    // Полный экран
-    if (fullscreenButton) {
-      fullscreenButton.addEventListener('click', () => {
-        this.toggleFullscreen();
-      });
+    // Во время эндинга вместо кнопки пропуска показывается карточка следующей серии
+    if (active === 'ending' && this.nextEpisodeCard?.isVisible) {
+      this.player.hideSkipButton();
+      return;
     }
 
-    // Обновляем видимость кнопок навигации
-    this.updateNavigationButtons(prevEpisodeButton, nextEpisodeButton);
+    this.player.showSkipButton(SKIP_BUTTON_LABELS[active]);
   }
 
   /**
-   * Показывает индикатор загрузки
+   * Пропускает сегмент под текущей позицией (кнопка и горячая клавиша)
    */
-  private showLoading() {
-    if (this.loadingOverlay) {
-      this.loadingOverlay.style.display = 'flex';
-    }
-  }
+  private skipActiveSegment() {
+    if (!this.player) return;
 
-  /**
-   * Скрывает индикатор загрузки
-   */
-  private hideLoading() {
-    if (this.loadingOverlay) {
-      this.loadingOverlay.style.display = 'none';
+    const active = SkipMarkersManager.findActiveSegment(this.skipMarkers, this.player.currentTime);
+    if (active) {
+      this.skipSegment(active);
     }
   }
 
   /**
-   * Показывает центральную кнопку воспроизведения
+   * Перематывает в конец сегмента; эндинг в самом конце серии сразу переключает на следующую
    */
-  private showCenterPlayButton() {
-    if (this.centerPlayButton) {
-      this.centerPlayButton.style.display = 'flex';
+  private skipSegment(type: SkipSegmentType, auto: boolean = false) {
+    const range = this.skipMarkers[type];
+    if (!this.player || !range) return;
+
+    const duration = this.player.duration;
+    if (type === 'ending' && isFinite(duration) && duration - range.end < ENDING_TAIL_THRESHOLD) {
+      if (this.isProgressSystemActive && this.currentAnimeInfo) {
+        ProgressManager.markEpisodeWatched(this.currentAnimeInfo, duration);
+      }
+
+      // Автопропуск подчиняется тем же правилам, что и автопереход
+      if (auto ? this.shouldAutoAdvance() && !this.needsStillWatchingPrompt() : this.hasNextEpisode()) {
+        auto ? this.advanceToNextEpisode(true) : this.goToNextEpisode();
+        return;
+      }
     }
+
+    this.player.seekTo(Math.min(range.end, duration || range.end));
+    this.player.hideSkipButton();
   }
 
   /**
-   * Скрывает центральную кнопку воспроизведения
+   * Можно ли автоматически включить следующую серию
    */
-  private hideCenterPlayButton() {
-    if (this.centerPlayButton) {
-      this.centerPlayButton.style.display = 'none';
-    }
+  private shouldAutoAdvance(): boolean {
+    return this.settings.autoNext && this.hasNextEpisode() && this.sessionEpisodesLeft !== 0;
   }
 
   /**
-   * Обновляет состояние кнопки воспроизведения
+   * Пора спросить «Вы ещё смотрите?» вместо автоперехода
    */
-  private updatePlayButton(isPaused: boolean) {
-    const playButtons = document.querySelectorAll('.control-btn-play');
-    playButtons.forEach(button => {
-      button.innerHTML = isPaused ? `
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-          <path d="M8 5v14l11-7z"/>
-        </svg>
-      ` : `
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-          <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
-        </svg>
-      `;
-    });
+  private needsStillWatchingPrompt(): boolean {
+    const limit = this.settings.stillWatchingAfter;
+    return limit > 0 && this.autoAdvancedCount >= limit;
   }
 
   /**
-   * Обновляет полосу прогресса
+   * Показывает карточку следующей серии во время эндинга или в последние секунды серии
    */
-  private updateProgress() {
-    if (!this.videoElement || !this.progressBar) return;
-    
-    const percent = (this.videoElement.currentTime / this.videoElement.duration) * 100;
-    this.progressBar.style.width = `${percent}%`;
+  private updateNextEpisodeCard() {
+    if (!this.videoElement || !this.nextEpisodeCard) return;
+
+    const { currentTime, duration } = this.videoElement;
+    if (!isFinite(duration)) return;
+
+    const ending = this.skipMarkers.ending;
+    const inEnding = !!ending && currentTime >= ending.start && duration - ending.end < ENDING_TAIL_THRESHOLD;
+    const inZone = inEnding || duration - currentTime <= this.settings.nextEpisodeCountdown;
 
-    // Обновляем время
-    const timeInfo = document.querySelector('.custom-controls span') as HTMLElement;
-    if (timeInfo) {
-      const current = this.formatTime(this.videoElement.currentTime);
-      const duration = this.formatTime(this.videoElement.duration);
-      timeInfo.textContent = `${current} / ${duration}`;
+    if (!inZone) {
+      // Перемотали назад из эндинга — отсчет больше не нужен
+      if (this.nextEpisodeCard.isVisible) {
+        this.nextEpisodeCard.hide();
+      }
+      return;
     }
-  }
 
-  /**
-   * Обновляет полосу буферизации
-   */
-  private updateBuffered() {
-    if (!this.videoElement || !this.bufferedBar) return;
-    
-    if (this.videoElement.buffered.length > 0) {
-      const bufferedEnd = this.videoElement.buffered.end(this.videoElement.buffered.length - 1);
-      const percent = (bufferedEnd / this.videoElement.duration) * 100;
-      this.bufferedBar.style.width = `${percent}%`;
+    if (!this.nextEpisodeCard.isVisible && !this.nextEpisodeCancelled && !this.videoElement.paused && this.shouldAutoAdvance()) {
+      this.showNextEpisodeCard();
     }
   }
 
   /**
-   * Перематывает видео на указанное количество секунд
+   * Отсчет до следующей серии или вопрос «Вы ещё смотрите?»
    */
-  private seekBy(seconds: number) {
-    if (!this.videoElement) return;
-    this.videoElement.currentTime = Math.max(0, Math.min(
-      this.videoElement.duration, 
-      this.videoElement.currentTime + seconds
-    ));
-  }
+  private showNextEpisodeCard() {
+    if (!this.nextEpisodeCard) return;
 
-  /**
-   * Регулирует громкость
-   */
-  private adjustVolume(delta: number) {
-    if (!this.videoElement) return;
-    this.videoElement.volume = Math.max(0, Math.min(1, this.videoElement.volume + delta));
-    
-    if (this.volumeSlider) {
-      this.volumeSlider.value = (this.videoElement.volume * 100).toString();
-    }
-  }
+    const nextSeason = this.currentEpisode < this.episodes.length ? null : this.getAdjacentSeason(1);
+    const nextLabel = nextSeason
+      ? ProgressManager.formatEpisodeLabel(1, nextSeason.number)
+      : ProgressManager.formatEpisodeLabel(this.currentEpisode + 1, this.currentSeason);
 
-  /**
-   * Переключает полноэкранный режим
-   */
-  private toggleFullscreen() {
-    if (!document.fullscreenElement) {
-      this.videoElement?.requestFullscreen();
+    if (this.needsStillWatchingPrompt()) {
+      this.nextEpisodeCard.showStillWatching(nextLabel);
     } else {
-      document.exitFullscreen();
+      this.nextEpisodeCard.showCountdown(this.settings.nextEpisodeCountdown, nextLabel);
     }
   }
 
   /**
-   * Переключает звук
+   * После порога просмотра заранее получает поток следующей серии
    */
-  private toggleMute() {
-    if (!this.videoElement) return;
-    this.videoElement.muted = !this.videoElement.muted;
-    
-    const volumeButton = document.querySelector('.control-btn-volume');
-    if (volumeButton) {
-      volumeButton.innerHTML = this.videoElement.muted ? `
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-          <path d="M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
-        </svg>
-      ` : `
-        <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-          <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/>
-        </svg>
-      `;
-    }
+  private preloadNextEpisode() {
+    if (!this.settings.preloadNext || !this.videoElement || !this.currentTranslation || this.isLoadingStream) return;
+
+    const { currentTime, duration } = this.videoElement;
+    if (!isFinite(duration) || currentTime / duration < StreamPreloader.THRESHOLD || !this.hasNextEpisode()) return;
+
+    const nextSeason = this.currentEpisode < this.episodes.length ? null : this.getAdjacentSeason(1);
+    const nextTarget = nextSeason
+      ? this.getStreamTarget(nextSeason.number, 1)
+      : this.getStreamTarget(this.currentSeason, this.currentEpisode + 1);
+
+    const preferred = this.getPreferredQuality();
+    this.streamPreloader.preload(nextTarget, preferred === 'auto' ? null : preferred);
   }
 
   /**
-   * Показывает контролы
+   * Включает следующую серию из карточки; ручной переход сбрасывает счетчик серий подряд
    */
-  private showControls() {
-    if (this.customControls) {
-      this.customControls.style.transform = 'translateY(0)';
-      this.customControls.style.opacity = '1';
-      this.customControls.style.pointerEvents = 'auto';
+  private advanceToNextEpisode(auto: boolean) {
+    if (!this.hasNextEpisode()) return;
+
+    if (this.sessionEpisodesLeft !== null) {
+      this.sessionEpisodesLeft = Math.max(0, this.sessionEpisodesLeft - 1);
+      this.sessionMenu?.setRemaining(this.sessionEpisodesLeft);
     }
+
+    this.autoAdvancedCount = auto ? this.autoAdvancedCount + 1 : 0;
+    this.isAutoAdvancing = true;
+    console.log(`⏭️ Advancing to next episode (${auto ? 'auto' : 'manual'}), in a row: ${this.autoAdvancedCount}`);
+    this.goToNextEpisode();
   }
 
   /**
-   * Скрывает контролы
+   * Сохраняет отметку из меню OP/ED по текущей позиции видео
    */
-  private hideControls() {
-    if (this.customControls && !this.videoElement?.paused) {
-      this.customControls.style.transform = 'translateY(100%)';
-      this.customControls.style.opacity = '0';
-      this.customControls.style.pointerEvents = 'none';
+  private async handleSkipMenuAction(action: SkipMenuAction) {
+    if (!this.currentAnimeInfo || !this.videoElement) return;
+
+    const animeInfo = this.currentAnimeInfo;
+    try {
+      if (action.kind === 'mark') {
+        const time = this.videoElement.currentTime;
+        const duration = isFinite(this.videoElement.duration) ? this.videoElement.duration : Infinity;
+        const existing = this.skipMarkers[action.type];
+
+        const range = action.edge === 'start'
+          ? { start: time, end: existing && existing.end > time ? existing.end : Math.min(duration, time + DEFAULT_SKIP_SEGMENT_LENGTH) }
+          : { start: existing && existing.start < time ? existing.start : Math.max(0, time - DEFAULT_SKIP_SEGMENT_LENGTH), end: time };
+
+        await SkipMarkersManager.setMarker(animeInfo, action.type, range, action.scope);
+      } else if (action.kind === 'none') {
+        await SkipMarkersManager.setMarker(animeInfo, action.type, null, 'episode');
+      } else {
+        await SkipMarkersManager.clearMarker(animeInfo, action.type, action.scope);
+      }
+    } catch (error) {
+      console.error('❌ Failed to update skip markers:', error);
     }
-  }
 
-  /**
-   * Форматирует время в формат mm:ss
-   */
-  private formatTime(seconds: number): string {
-    if (isNaN(seconds)) return '00:00';
-    
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.floor(seconds % 60);
-    
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+    await this.refreshSkipMarkers();
   }
 
   /**
@@ -2439,278 +2118,376 @@ class AnimeStarsKodikOptimizer {
 
     console.log('🔄 Loading video for episode:', this.currentEpisode);
 
+    this.isLoadingStream = true;
+    this.lastStreamError = null;
+
     try {
       // Обновляем информацию об аниме для текущего эпизода
       this.updateAnimeInfoForCurrentEpisode();
 
+      // Счетчик автопереходов подряд сбрасывается при ручном выборе серии
+      if (!this.isAutoAdvancing) {
+        this.autoAdvancedCount = 0;
+      }
+      this.isAutoAdvancing = false;
+      this.nextEpisodeCancelled = false;
+      this.nextEpisodeCard?.hide();
+
+      // Скорость, запомненная для аниме, или общая из настроек
+      this.playbackRate = await PlaybackSpeedManager.getRate(this.currentAnimeInfo?.id, this.settings.playbackRate);
+
       // Обновляем poster для нового эпизода
-      await this.createVideoPoster();
+      await this.updateVideoPoster();
 
       // Проверяем есть ли сохраненный прогресс
       await this.checkAndOfferProgressResume();
 
+      // Отметки опенинга/эндинга новой серии: после восстановления, которое может сменить серию и озвучку
+      this.updateAnimeInfoForCurrentEpisode();
+      this.autoSkippedSegments.clear();
+      await this.refreshSkipMarkers();
+
       console.log('🔍 Getting real video URL from Kodik...');
       
       // Строим URL для конкретного эпизода
-      const episodeUrl = `https://kodik.info/serial/${this.currentTranslation.mediaId}/${this.currentTranslation.mediaHash}/720p?min_age=16&first_url=false&season=1&episode=${this.currentEpisode}`;
+      const target = this.getStreamTarget(this.currentSeason, this.currentEpisode);
+      const episodeUrl = buildKodikEpisodeUrl(target);
       console.log('📺 Episode URL:', episodeUrl);
       
-      // Используем background script для обхода CORS
-      const response = await this.fetchViaBackground(episodeUrl);
-      if (!response.success) {
-        throw new Error(`Failed to fetch episode page: ${response.error}`);
+      // Потоки получает background, результат кэшируется для всех вкладок
+      // Если серия была предзагружена, ссылки уже готовы
+      const resolution = await this.streamPreloader.take(target)
+        ?? await this.resolveStreamViaBackground(target);
+      this.currentStreams = resolution.streams;
+      playerEvents.emit('streamResolved', {
+        url: episodeUrl,
+        season: this.currentSeason,
+        episode: this.currentEpisode,
+        qualities: resolution.qualities,
+        maxQuality: resolution.maxQuality
+      });
+
+      // Дорожки прошлой серии больше не актуальны
+      this.audioTracks = [];
+      this.audioMenu?.setTracks([], -1);
+
+      // Субтитры грузятся параллельно с видео
+      this.resetSubtitleTracks();
+      void this.loadExternalSubtitles(resolution.subtitles);
+      void this.restoreLocalSubtitle();
+
+      const preferred = this.getPreferredQuality();
+      const startQuality = preferred === 'auto'
+        ? resolution.maxQuality
+        : HLSUtils.pickQuality(resolution.qualities, preferred);
+      const finalVideoUrl = resolution.streams[startQuality];
+
+      console.log('🧭 Extraction strategies:', resolution.diagnostics.matched);
+      console.log('✅ Got video URL:', finalVideoUrl);
+      console.log('📊 Qualities:', resolution.qualities, 'preferred:', preferred);
+
+      // Плеер сам выбирает HLS.js, нативный HLS или прямую ссылку
+      await this.player?.load({
+        streams: resolution.streams,
+        qualities: resolution.qualities,
+        startQuality,
+        preferred
+      });
+
+      this.applyPlaybackRate();
+
+    } catch (error) {
+      console.error('❌ Failed to load video:', error);
+      playerEvents.emit('streamError', {
+        message: error instanceof Error ? error.message : String(error),
+        stage: 'resolve'
+      });
+      if (error instanceof KodikStreamResolveError) {
+        console.log('🔍 Stream resolution diagnostics:', error.diagnostics);
       }
-      
-      const html = response.data;
-      if (!html) {
-        throw new Error('Empty response from episode page');
+    } finally {
+      this.isLoadingStream = false;
+    }
+  }
+
+  /**
+   * Убирает внешние дорожки предыдущей серии
+   */
+  private resetSubtitleTracks() {
+    this.subtitleLoadId++;
+    this.subtitleAutoSelectPending = true;
+    this.player?.subtitles.clearTracks();
+    this.setLocalSubtitle(null);
+  }
+
+  /**
+   * Скачивает внешние субтитры, конвертирует в WebVTT и передает плееру
+   */
+  private async loadExternalSubtitles(sources: SubtitleSource[]) {
+    const loadId = this.subtitleLoadId;
+
+    for (const source of sources) {
+      const response = await this.fetchViaBackground(source.url);
+      if (loadId !== this.subtitleLoadId || !this.player) return;
+      if (!response.success || !response.data) {
+        console.warn('⚠️ Failed to load subtitles:', source.url, response.error);
+        continue;
       }
-      
-      console.log('📄 HTML response length:', html.length);
-      console.log('📄 HTML preview:', html.substring(0,  500));
-      
-      // Попробуем разные варианты поиска urlParams
-      let urlParams;
-      
-      // Вариант 1: urlParams = '([^']+)';
-      let urlParamsMatch = html.match(/urlParams = '([^']+)';/);
-      if (urlParamsMatch) {
-        console.log('✅ Found urlParams variant 1 (string)');
-        urlParams = JSON.parse(urlParamsMatch[1]);
-      } else {
-        // Вариант 2: urlParams = {...};
-        urlParamsMatch = html.match(/urlParams = ({[^;]+});/);
-        if (urlParamsMatch) {
-          console.log('✅ Found urlParams variant 2 (object)');
-          urlParams = JSON.parse(urlParamsMatch[1]);
-        } else {
-          // Вариант 3: urlParams='{"json":"string"}';
-          urlParamsMatch = html.match(/urlParams='([^']+)';/);
-          if (urlParamsMatch) {
-            console.log('✅ Found urlParams variant 3 (string no space)');
-            urlParams = JSON.parse(urlParamsMatch[1]);
-          } else {
-            // Вариант 4: var urlParams = {...}
-            urlParamsMatch = html.match(/var urlParams = ({[^;]+});/);
-            if (urlParamsMatch) {
-              console.log('✅ Found urlParams variant 4 (var object)');
-              urlParams = JSON.parse(urlParamsMatch[1]);
-            } else {
-              // Поищем все что содержит urlParams
-              const allMatches = html.match(/urlParams[^{'"]*[{'"'][^}'"]+[}'"]/g);
-              console.log('🔍 All urlParams matches:', allMatches);
-              
-              throw new Error('Could not find urlParams in page');
-            }
-          }
-        }
-      }
-      
-      if (!urlParams) {
-        throw new Error('Could not parse urlParams');
-      }
-      
-      console.log('🔧 URL Params:', urlParams);
-      
-      // Извлекаем video параметры из скриптов
-      const videoTypeMatch = html.match(/\.type = '([^']+)'/);
-      const videoHashMatch = html.match(/\.hash = '([^']+)'/);
-      const videoIdMatch = html.match(/\.id = '([^']+)'/);
-      
-      console.log('🔍 Video type match:', videoTypeMatch);
-      console.log('🔍 Video hash match:', videoHashMatch);
-      console.log('🔍 Video id match:', videoIdMatch);
-      
-      if (!videoTypeMatch || !videoHashMatch || !videoIdMatch) {
-        // Попробуем альтернативные паттерны
-        const altTypeMatch = html.match(/type:\s*'([^']+)'/);
-        const altHashMatch = html.match(/hash:\s*'([^']+)'/);
-        const altIdMatch = html.match(/id:\s*'([^']+)'/);
-        
-        console.log('🔍 Alt type match:', altTypeMatch);
-        console.log('🔍 Alt hash match:', altHashMatch);
-        console.log('🔍 Alt id match:', altIdMatch);
-        
-        if (!altTypeMatch || !altHashMatch || !altIdMatch) {
-          // Выведем часть HTML где должны быть эти параметры
-          const scriptTags = html.match(/<script[^>]*>[\s\S]*?<\/script>/g);
-          console.log('📜 All script tags count:', scriptTags?.length);
-          if (scriptTags && scriptTags.length > 0) {
-            scriptTags.forEach((script, index) => {
-              if (script.includes('type') || script.includes('hash') || script.includes('id')) {
-                console.log(`📜 Script ${index} with params:`, script.substring(0, 300));
-              }
-            });
-          }
-          
-          throw new Error('Could not extract video parameters');
-        }
-        
-        var videoType = altTypeMatch[1];
-        var videoHash = altHashMatch[1];
-        var videoId = altIdMatch[1];
-      } else {
-        var videoType = videoTypeMatch[1];
-        var videoHash = videoHashMatch[1];
-        var videoId = videoIdMatch[1];
-      }
-      
-      console.log('🎬 Video params:', { videoType, videoHash, videoId });
-      
-      // Находим script URL для POST запроса (реплицируем Python логику)
-      // Получаем все скрипты и берем правильный для script URL
-      const allScriptMatches = html.match(/<script[^>]*>/g);
-      if (!allScriptMatches || allScriptMatches.length < 1) {
-        console.log('🔍 All script tags found:', allScriptMatches);
-        throw new Error('Could not find script tags');
-      }
-      
-      console.log('🔍 All script tags found:', allScriptMatches);
-      
-      // Ищем первый скрипт с src (это главный app.js)
-      let scriptUrl = null;
-      for (let i = 0; i < allScriptMatches.length; i++) {
-        const script = allScriptMatches[i];
-        const scriptSrcMatch = script.match(/src=['"]([^'"]+)['"]/);
-        if (scriptSrcMatch && !scriptSrcMatch[1].includes('adsbygoogle')) {
-          scriptUrl = scriptSrcMatch[1];
-          console.log(`� Found script URL at index ${i}:`, scriptUrl);
-          break;
-        }
-      }
-      
-      if (!scriptUrl) {
-        throw new Error('Could not find main script URL');
-      }
-      
-      // Получаем post link из скрипта
-      const scriptResponse = await this.fetchViaBackground('https://kodik.info' + scriptUrl);
-      if (!scriptResponse.success) {
-        throw new Error(`Failed to fetch script: ${scriptResponse.error}`);
-      }
-      
-      const scriptContent = scriptResponse.data;
-      if (!scriptContent) {
-        throw new Error('Empty response from script');
-      }
-      
-      // Ищем POST endpoint в скрипте (реплицируем Python логику)
-      // Python: url = data[data.find("$.ajax") + 30 : data.find("cache:!1") - 3]
-      const ajaxIndex = scriptContent.indexOf("$.ajax");
-      if (ajaxIndex === -1) {
-        console.log('🔍 Script content preview:', scriptContent.substring(0, 500));
-        throw new Error('Could not find $.ajax in script');
-      }
-      
-      const cacheIndex = scriptContent.indexOf("cache:!1");
-      if (cacheIndex === -1) {
-        console.log('🔍 Script content preview:', scriptContent.substring(0, 500));
-        throw new Error('Could not find cache:!1 in script');
-      }
-      
-      const base64Url = scriptContent.substring(ajaxIndex + 30, cacheIndex - 3);
-      console.log('🔍 Base64 URL extracted:', base64Url);
-      
-      // Декодируем base64 для получения реального POST URL
-      let postLink;
-      try {
-        postLink = atob(base64Url);
-        console.log('🔗 Decoded post link:', postLink);
-      } catch (error) {
-        console.log('❌ Failed to decode base64:', base64Url);
-        throw new Error('Could not decode base64 post link');
-      }
-      
-      // Подготавливаем данные для POST запроса
-      const postData = {
-        hash: videoHash,
-        id: videoId,
-        type: videoType,
-        d: urlParams.d,
-        d_sign: urlParams.d_sign,
-        pd: urlParams.pd,
-        pd_sign: urlParams.pd_sign,
-        ref: '',
-        ref_sign: urlParams.ref_sign,
-        bad_user: 'true',
-        cdn_is_working: 'true'
-      };
-      
-      // Делаем POST запрос через background script
-      const postResponse = await this.postViaBackground(`https://kodik.info${postLink}`, postData);
-      if (!postResponse.success) {
-        throw new Error(`Failed to get video data: ${postResponse.error}`);
-      }
-      
-      const videoData = postResponse.data;
-      console.log('🎯 Video data:', videoData);
-      
-      if (!videoData.links || Object.keys(videoData.links).length === 0) {
-        throw new Error('No video links found in response');
-      }
-      
-      const maxQuality = Math.max(...Object.keys(videoData.links).map(Number));
-      
-      if (!videoData.links[maxQuality] || !videoData.links[maxQuality][0]) {
-        throw new Error('No video URL found for max quality: ' + maxQuality);
-      }
-      
-      const videoUrl = videoData.links[maxQuality][0].src;
-      
-      console.log('✅ Got video URL:', videoUrl);
-      console.log('📊 Max quality:', maxQuality);
-
-      // Проверяем нужно ли декодировать URL (реплицируем Python логику)
-      let finalVideoUrl = videoUrl;
-      if (!videoUrl.includes('mp4:hls:manifest')) {
-        console.log('🔓 Decrypting video URL...');
-        finalVideoUrl = this.convertKodikUrl(videoUrl);
-        console.log('🔓 Decrypted URL:', finalVideoUrl);
-      } else {
-        console.log('✅ URL already contains mp4:hls:manifest, no decryption needed');
+
+      const format = SubtitleConverter.detectFormat(response.data, source.url);
+      this.player.subtitles.addTrack(source.label, source.language, SubtitleConverter.toVtt(response.data, format));
+      console.log(`💬 Subtitles loaded: ${source.label} (${format})`);
+    }
+  }
+
+  /**
+   * Обновляет меню субтитров и включает запомненную дорожку у новой серии
+   */
+  private refreshSubtitleTracks() {
+    const tracks = this.player?.subtitles.getTracks() ?? [];
+
+    if (this.subtitleAutoSelectPending && tracks.length > 0) {
+      this.subtitleAutoSelectPending = false;
+      if (this.subtitleSettings.enabled) {
+        const remembered = tracks.findIndex(track => track.label === this.subtitleSettings.language);
+        this.selectSubtitleTrack(remembered === -1 ? 0 : remembered, false);
+        return;
       }
+    }
 
-      // Проверяем доступность HLS.js
-      if (typeof window.Hls !== 'undefined' && window.Hls.isSupported()) {
-        // Используем HLS.js
-        if (this.hlsPlayer) {
-          this.hlsPlayer.destroy();
-        }
+    const selected = tracks.findIndex(track => track.showing);
+    this.subtitleMenu?.setTracks(tracks.map(track => track.label), selected === -1 ? null : selected);
+  }
 
-        this.hlsPlayer = new window.Hls({
-          debug: false,
-          enableWorker: true,
-          lowLatencyMode: false,
-          maxMaxBufferLength: 30
-        });
+  /**
+   * Показывает дорожку (null — выключить субтитры) и запоминает выбор
+   */
+  private selectSubtitleTrack(index: number | null, remember: boolean = true) {
+    if (!this.player) return;
 
-        this.hlsPlayer.loadSource(finalVideoUrl);
-        this.hlsPlayer.attachMedia(this.videoElement);
+    const tracks = this.player.subtitles.getTracks();
+    this.player.subtitles.selectTrack(index);
 
-        this.hlsPlayer.on(window.Hls.Events.MANIFEST_PARSED, () => {
-          console.log('✅ HLS manifest loaded');
-        });
+    // Свой файл привязан к серии, поэтому как язык по умолчанию не запоминается
+    if (remember && (index === null || !tracks[index]?.local)) {
+      const track = index === null ? null : tracks[index];
+      SubtitleSettingsManager.saveSettings({
+        ...this.subtitleSettings,
+        enabled: track !== null,
+        language: track ? track.label : this.subtitleSettings.language
+      });
+    }
 
-        this.hlsPlayer.on(window.Hls.Events.ERROR, (event: any, data: any) => {
-          console.error('❌ HLS error:', data);
-          
-          // Пробуем fallback - прямая загрузка
-          if (data.fatal) {
-            console.log('🔄 Trying direct video loading...');
-            this.videoElement!.src = finalVideoUrl;
-          }
-        });
+    this.refreshSubtitleTracks();
+  }
 
-      } else if (this.videoElement.canPlayType('application/vnd.apple.mpegurl')) {
-        // Прямая поддержка HLS (Safari)
-        this.videoElement.src = finalVideoUrl;
-      } else {
-        console.warn('⚠️ HLS not supported, trying direct loading');
-        this.videoElement.src = finalVideoUrl;
+  /**
+   * Ключ своего файла субтитров для текущей серии
+   */
+  private getLocalSubtitleKey(): string | null {
+    if (!this.currentAnimeInfo) return null;
+    return LocalSubtitleStore.key(this.currentAnimeInfo.id, this.currentSeason, this.currentEpisode);
+  }
+
+  /**
+   * Загружает свой файл из меню или перетаскиванием и запоминает его для серии
+   */
+  private async loadLocalSubtitleFile(file: File) {
+    if (!LocalSubtitleStore.isSupportedFile(file.name)) {
+      this.player?.showMessage(`Неподдерживаемый файл: ${file.name}`);
+      return;
+    }
+
+    const key = this.getLocalSubtitleKey();
+    const loadId = this.subtitleLoadId;
+    const cues = SubtitleConverter.parseCues(await file.text(), file.name);
+    if (loadId !== this.subtitleLoadId) return;
+    if (cues.length === 0) {
+      this.player?.showMessage(`В файле нет субтитров: ${file.name}`);
+      return;
+    }
+
+    const record: LocalSubtitleRecord = { key: key || '', fileName: file.name, cues, offset: 0, savedAt: Date.now() };
+    console.log(`📄 Local subtitles loaded: ${file.name}, ${cues.length} cues`);
+    this.setLocalSubtitle(record, true);
+    this.player?.showMessage(`Субтитры: ${file.name}`);
+
+    if (key) {
+      await LocalSubtitleStore.save(record);
+    }
+  }
+
+  /**
+   * Подгружает запомненный файл субтитров серии
+   */
+  private async restoreLocalSubtitle() {
+    const key = this.getLocalSubtitleKey();
+    if (!key) return;
+
+    const loadId = this.subtitleLoadId;
+    const record = await LocalSubtitleStore.get(key);
+    if (!record || loadId !== this.subtitleLoadId) return;
+
+    console.log(`📄 Restored local subtitles: ${record.fileName} (${record.offset}s)`);
+    this.setLocalSubtitle(record, true);
+  }
+
+  private async removeLocalSubtitle() {
+    const key = this.localSubtitle?.key;
+    this.setLocalSubtitle(null);
+    if (key) {
+      await LocalSubtitleStore.remove(key);
+    }
+  }
+
+  /**
+   * Сдвигает свои субтитры по времени (null — сбросить сдвиг)
+   */
+  private shiftLocalSubtitles(delta: number | null) {
+    if (!this.localSubtitle) {
+      this.player?.showMessage('Сдвиг работает только для своего файла субтитров');
+      return;
+    }
+
+    const offset = delta === null ? 0 : Math.round((this.localSubtitle.offset + delta) * 10) / 10;
+    this.localSubtitle = { ...this.localSubtitle, offset, savedAt: Date.now() };
+    this.renderLocalSubtitle();
+    this.subtitleMenu?.setLocalFile(this.localSubtitle);
+    this.player?.showMessage(`Сдвиг субтитров: ${offset > 0 ? '+' : ''}${offset.toFixed(1)} с`);
+
+    if (this.localSubtitle.key) {
+      void LocalSubtitleStore.save(this.localSubtitle);
+    }
+  }
+
+  /**
+   * Заменяет свой файл субтитров серии и при необходимости сразу его включает
+   */
+  private setLocalSubtitle(record: LocalSubtitleRecord | null, select: boolean = false) {
+    this.localSubtitle = record;
+    this.renderLocalSubtitle();
+    this.subtitleMenu?.setLocalFile(record);
+
+    if (record && select && this.player) {
+      this.subtitleAutoSelectPending = false;
+      this.selectSubtitleTrack(this.player.subtitles.localTrackIndex, false);
+      return;
+    }
+
+    this.refreshSubtitleTracks();
+  }
+
+  /**
+   * Передает плееру свой файл субтитров с учетом сдвига
+   */
+  private renderLocalSubtitle() {
+    const record = this.localSubtitle;
+    this.player?.subtitles.setLocalTrack(record && {
+      label: `📄 ${record.fileName}`,
+      cues: record.cues,
+      offset: record.offset
+    });
+  }
+
+  /**
+   * Применяет размер, цвет, фон и отступ субтитров
+   */
+  private applySubtitleStyle() {
+    this.player?.subtitles.applySettings(this.subtitleSettings);
+  }
+
+  /**
+   * Предпочитаемое качество: выбор пользователя в меню или defaultQuality из настроек
+   */
+  private getPreferredQuality(): QualityChoice {
+    if (this.selectedQuality !== null) {
+      return this.selectedQuality;
+    }
+
+    const { defaultQuality } = this.settings;
+    return defaultQuality === 'auto' ? 'auto' : parseInt(defaultQuality);
+  }
+
+  /**
+   * Запускает воспроизведение после загрузки источника, если включен автозапуск
+   */
+  private autoplayIfEnabled() {
+    if (!this.settings.autoplay || !this.player) return;
+
+    this.player.play().catch(error => {
+      // Браузер блокирует автозапуск со звуком без взаимодействия со страницей
+      console.warn('⚠️ Autoplay prevented:', error);
+    });
+  }
+
+  /**
+   * Применяет изменения настроек из popup без перезагрузки страницы
+   */
+  private applySettings(settings: ExtensionSettings, changed: Array<keyof ExtensionSettings>) {
+    console.log('⚙️ Settings changed:', changed, settings);
+    this.settings = settings;
+
+    if (changed.includes('enablePlayer')) {
+      if (!settings.enablePlayer && this.originalPlayer) {
+        this.restoreOriginalPlayer();
+      } else if (settings.enablePlayer && !this.originalPlayer) {
+        this.restartPlayer();
       }
+      return;
+    }
 
-    } catch (error) {
-      console.error('❌ Failed to load video:', error);
+    if (changed.includes('bufferSize')) {
+      this.player?.setBufferSize(settings.bufferSize);
+    }
+
+    if (changed.includes('defaultQuality') && this.selectedQuality === null && this.player && this.player.levelCount > 1) {
+      this.player.applyQuality(this.getPreferredQuality());
+    }
+
+    if (changed.includes('preloadNext') && !settings.preloadNext) {
+      this.streamPreloader.cancel();
+    }
+
+    if (changed.includes('preservePitch')) {
+      this.speedMenu?.setPreservePitch(settings.preservePitch);
+      this.applyPlaybackRate();
+    }
+
+    if (changed.includes('showNotifications') && !settings.showNotifications) {
+      document.querySelectorAll('.progress-info-notification').forEach(notification => notification.remove());
+    }
+  }
+
+  /**
+   * Выбирает запомненную для аниме аудиодорожку и заполняет меню
+   */
+  private async applyAudioTracks(tracks: AudioTrackInfo[]) {
+    this.audioTracks = tracks;
+
+    const language = await AudioTrackManager.getLanguage(this.currentAnimeInfo?.id);
+    if (!this.player || this.audioTracks !== tracks) return;
+
+    const index = AudioTrackManager.pickTrack(tracks, language);
+    if (index !== -1) {
+      console.log('🎧 Restoring audio track:', tracks[index].name);
+      this.player.setAudioTrack(index);
+    }
+    this.audioMenu?.setTracks(tracks, index);
+  }
+
+  /**
+   * Переключает аудиодорожку из меню и запоминает язык для аниме
+   */
+  private selectAudioTrack(index: number) {
+    const track = this.audioTracks[index];
+    if (!this.player || !track) return;
+
+    console.log('🎧 Switching audio track to:', track.name);
+    this.player.setAudioTrack(index);
+
+    const animeId = this.currentAnimeInfo?.id;
+    if (animeId) {
+      void AudioTrackManager.saveLanguage(animeId, AudioTrackManager.trackKey(track));
     }
   }
 
@@ -2720,9 +2497,9 @@ class AnimeStarsKodikOptimizer {
   private async switchTranslation(translation: Translation) {
     console.log('🔄 Switching translation to:', translation.title);
     
-    // Останавливаем отслеживание прогресса
-    this.stopProgressTracking();
-    
+    // Предзагруженная серия относится к старой озвучке
+    this.streamPreloader.cancel();
+
     // Сохраняем текущий прогресс
     await this.saveCurrentProgress();
     
@@ -2734,29 +2511,19 @@ class AnimeStarsKodikOptimizer {
 
     // Обновляем информацию об аниме
     this.updateAnimeInfoForCurrentEpisode();
-
-    // Обновляем кнопки переводов
-    const translationButtons = this.playerContainer?.querySelectorAll('.translation-btn');
-    translationButtons?.forEach((btn, index) => {
-      (btn as HTMLElement).style.background = 
-        this.translations[index] === translation ? '#007bff' : '#333';
+    playerEvents.emit('translationChanged', {
+      translationId: translation.translationId,
+      title: translation.title
     });
 
     // Загружаем эпизоды для нового перевода
     await this.loadEpisodes();
     
-    // Пересоздаем селектор эпизодов
-    const oldEpisodeSelector = this.playerContainer?.querySelector('.episode-selector');
-    if (oldEpisodeSelector) {
-      oldEpisodeSelector.remove();
-      this.createEpisodeSelector();
-    }
+    // Пересоздаем селекторы сезонов и эпизодов
+    this.rebuildEpisodeSelectors();
 
     // Загружаем новое видео (прогресс НЕ восстановится, так как isFirstLoad = false)
     await this.loadVideo();
-
-    // Обновляем кнопки навигации
-    this.updateNavigationButtonsVisibility();
   }
 
   /**
@@ -2765,9 +2532,6 @@ class AnimeStarsKodikOptimizer {
   private async switchEpisode(episodeNumber: number) {
     console.log('🔄 Switching to episode:', episodeNumber);
     
-    // Останавливаем отслеживание прогресса
-    this.stopProgressTracking();
-    
     // Сохраняем текущий прогресс
     await this.saveCurrentProgress();
     
@@ -2778,20 +2542,59 @@ class AnimeStarsKodikOptimizer {
 
     // Обновляем информацию об аниме
     this.updateAnimeInfoForCurrentEpisode();
-
-    // Обновляем кнопки эпизодов
-    const episodeButtons = this.playerContainer?.querySelectorAll('.episode-btn');
-    episodeButtons?.forEach(btn => {
-      const btnEpisode = parseInt(btn.textContent || '0');
-      (btn as HTMLElement).style.background = 
-        btnEpisode === episodeNumber ? '#007bff' : '#444';
-    });
+    this.emitEpisodeChanged();
 
     // Загружаем новое видео (прогресс НЕ восстановится, так как isFirstLoad = false)
     await this.loadVideo();
+  }
+
+  /**
+   * Переключает сезон
+   */
+  private async switchSeason(seasonNumber: number, episode: number | 'last' = 1) {
+    console.log('🔄 Switching to season:', seasonNumber);
+    
+    // Сохраняем текущий прогресс
+    await this.saveCurrentProgress();
+    
+    this.isFirstLoad = false;
+    this.currentSeason = seasonNumber;
+
+    // Загружаем серии нового сезона
+    await this.loadEpisodes();
+    this.rebuildEpisodeSelectors();
+
+    this.currentEpisode = episode === 'last'
+      ? this.episodes[this.episodes.length - 1]?.number ?? 1
+      : episode;
+    this.updateAnimeInfoForCurrentEpisode();
+    this.emitEpisodeChanged();
+
+    await this.loadVideo();
+  }
+
+  /**
+   * Возвращает соседний сезон (-1 предыдущий, 1 следующий)
+   */
+  private getAdjacentSeason(direction: -1 | 1): Season | null {
+    const index = this.seasons.findIndex(season => season.number === this.currentSeason);
+    if (index === -1) return null;
+    return this.seasons[index + direction] || null;
+  }
 
-    // Обновляем кнопки навигации
-    this.updateNavigationButtonsVisibility();
+  /**
+   * Есть ли предыдущая серия (в текущем или предыдущем сезоне)
+   */
+  private hasPreviousEpisode(): boolean {
+    return this.currentEpisode > 1 || this.getAdjacentSeason(-1) !== null;
+  }
+
+  /**
+   * Есть ли следующая серия (в текущем или следующем сезоне)
+   */
+  private hasNextEpisode(): boolean {
+    if (this.isMovie) return false;
+    return this.currentEpisode < this.episodes.length || this.getAdjacentSeason(1) !== null;
   }
 
   /**
@@ -2800,6 +2603,13 @@ class AnimeStarsKodikOptimizer {
   private goToPreviousEpisode() {
     if (this.currentEpisode > 1) {
       this.switchEpisode(this.currentEpisode - 1);
+      return;
+    }
+
+    // С первой серии сезона переходим на последнюю серию предыдущего
+    const previousSeason = this.getAdjacentSeason(-1);
+    if (previousSeason) {
+      this.switchSeason(previousSeason.number, 'last');
     }
   }
 
@@ -2807,44 +2617,27 @@ class AnimeStarsKodikOptimizer {
    * Переходит к следующему эпизоду
    */
   private goToNextEpisode() {
+    if (!this.hasNextEpisode()) return;
+
     if (this.currentEpisode < this.episodes.length) {
       this.switchEpisode(this.currentEpisode + 1);
-    }
-  }
-
-  /**
-   * Обновляет видимость кнопок навигации по эпизодам
-   */
-  private updateNavigationButtons(prevButton: HTMLElement, nextButton: HTMLElement) {
-    if (prevButton) {
-      const hasPrevious = this.currentEpisode > 1;
-      prevButton.style.display = hasPrevious ? 'flex' : 'none';
-      prevButton.style.opacity = hasPrevious ? '1' : '0.5';
+      return;
     }
 
-    if (nextButton) {
-      const hasNext = this.currentEpisode < this.episodes.length;
-      nextButton.style.display = hasNext ? 'flex' : 'none';
-      nextButton.style.opacity = hasNext ? '1' : '0.5';
+    // С последней серии сезона переходим на первую серию следующего
+    const nextSeason = this.getAdjacentSeason(1);
+    if (nextSeason) {
+      this.switchSeason(nextSeason.number, 1);
     }
   }
 
   /**
-   * Обновляет видимость кнопок навигации (общий метод)
+   * Обновляет видимость кнопок навигации по эпизодам
    */
-  private updateNavigationButtonsVisibility() {
-    const prevButton = this.playerContainer?.querySelector('.control-btn-prev-episode') as HTMLElement;
-    const nextButton = this.playerContainer?.querySelector('.control-btn-next-episode') as HTMLElement;
-    
-    if (prevButton && nextButton) {
-      this.updateNavigationButtons(prevButton, nextButton);
-    }
+  private updateNavigationButtons() {
+    this.player?.setEpisodeNavigation(this.hasPreviousEpisode(), this.hasNextEpisode());
   }
 
-  /**
-   * Форматирует время в MM:SS
-   */
-
   /**
    * GET запрос через background script для обхода CORS
    */
@@ -2865,71 +2658,33 @@ class AnimeStarsKodikOptimizer {
   }
 
   /**
-   * POST запрос через background script для обхода CORS
+   * Потоки серии через background: там идет вся цепочка Kodik и кэш, общий для вкладок
    */
-  private async postViaBackground(url: string, data: any, timeout: number = 30000): Promise<{ success: boolean; data?: any; error?: string }> {
-    return new Promise((resolve) => {
+  private async resolveStreamViaBackground(target: KodikStreamTarget, timeout: number = 60000): Promise<KodikStreamResolution> {
+    const response = await new Promise<ResolveStreamResponse>((resolve) => {
       const timeoutId = setTimeout(() => {
         resolve({ success: false, error: 'Request timeout' });
       }, timeout);
 
-      chrome.runtime.sendMessage({
-        type: 'FETCH_KODIK_POST',
-        url: url,
-        data: data
-      }, (response) => {
+      const request: ResolveStreamRequest = { type: 'RESOLVE_STREAM', ...target };
+      chrome.runtime.sendMessage(request, (response?: ResolveStreamResponse) => {
         clearTimeout(timeoutId);
-        resolve(response);
+        resolve(response ?? { success: false, error: chrome.runtime.lastError?.message || 'No response from background' });
       });
     });
-  }
 
-  // Методы декодирования URL (реплицируют Python логику)
-  private convertChar(char: string, num: number): string {
-    const isLower = char === char.toLowerCase();
-    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    const upperChar = char.toUpperCase();
-    
-    if (alphabet.includes(upperChar)) {
-      const index = alphabet.indexOf(upperChar);
-      const newIndex = (index + num) % alphabet.length;
-      const newChar = alphabet[newIndex];
-      return isLower ? newChar.toLowerCase() : newChar;
-    } else {
-      return char;
+    if (!response.success) {
+      // Диагностика резолвера приходит из background, восстанавливаем типизированную ошибку
+      if (response.stage && response.diagnostics) {
+        throw new KodikStreamResolveError(response.error, response.stage, response.diagnostics);
+      }
+      throw new Error(response.error);
     }
-  }
 
-  convertKodikUrl(encryptedUrl: string): string {
-    console.log('🔓 Starting URL decryption for:', encryptedUrl.substring(0, 50) + '...');
-    
-    // Попробуем все возможные сдвиги ROT (0-25)
-    for (let rot = 0; rot < 26; rot++) {
-      try {
-        // Применяем Caesar cipher с текущим сдвигом
-        const decryptedChars = encryptedUrl.split('').map(char => this.convertChar(char, rot));
-        let decryptedUrl = decryptedChars.join('');
-        
-        // Добавляем padding для base64 если нужно
-        const padding = (4 - (decryptedUrl.length % 4)) % 4;
-        decryptedUrl += '='.repeat(padding);
-        
-        // Пробуем декодировать из base64
-        const decodedUrl = atob(decryptedUrl);
-        
-        // Проверяем что результат содержит ожидаемую строку
-        if (decodedUrl.includes('mp4:hls:manifest')) {
-          console.log(`🔓 Successfully decrypted with ROT${rot}: ${decodedUrl.substring(0, 100)}...`);
-          return decodedUrl;
-        }
-      } catch (error) {
-        // Игнорируем ошибки декодирования и пробуем следующий сдвиг
-        continue;
-      }
+    if (response.cached) {
+      console.log('💾 Stream links taken from shared cache');
     }
-    
-    console.log('❌ Could not decrypt URL, returning original');
-    throw new Error('Decryption failed - could not find valid mp4:hls:manifest URL');
+    return response.resolution;
   }
 
   // Асинхронные оптимизированные методы
@@ -2962,19 +2717,8 @@ class AnimeStarsKodikOptimizer {
             const title = item.textContent?.trim() || 'Unknown';
             
             if (link) {
-              const urlMatch = link.match(/\/serial\/(\d+)\/([a-f0-9]+)\/720p/);
-              if (urlMatch) {
-                const mediaId = urlMatch[1];
-                const mediaHash = urlMatch[2];
-                
-                const translation: Translation = {
-                  title,
-                  kodikUrl: link,
-                  translationId: `${mediaId}_${mediaHash}`,
-                  mediaId,
-                  mediaHash
-                };
-                
+              const translation = this.createTranslationFromLink(link, title);
+              if (translation) {
                 this.translations.push(translation);
               }
             }
@@ -3008,6 +2752,106 @@ class AnimeStarsKodikOptimizer {
     });
   }
 
+  /**
+   * Переводы без списка на странице: сначала из ссылки существующего iframe Kodik, затем поиском в Kodik API
+   */
+  private async loadTranslationsFallback(): Promise<void> {
+    const fromIframe = this.parseTranslationFromIframe();
+    if (fromIframe) {
+      this.translations = [fromIframe];
+      this.currentTranslation = fromIframe;
+      console.log('🖼️ Translation taken from Kodik iframe:', fromIframe);
+      return;
+    }
+
+    try {
+      const results = await this.searchKodikMaterials();
+      this.translations = this.translationsFromApiResults(results);
+      this.currentTranslation = this.translations[0] || null;
+      console.log(`🔎 Found ${this.translations.length} translations via Kodik API`);
+    } catch (error) {
+      console.warn('⚠️ Kodik API translations fallback failed:', error);
+    }
+  }
+
+  /**
+   * Перевод из src iframe плеера Kodik, который уже есть на странице
+   */
+  private parseTranslationFromIframe(): Translation | null {
+    const iframes = document.querySelectorAll('iframe[src*="kodik"]');
+
+    for (let i = 0; i < iframes.length; i++) {
+      const src = iframes[i].getAttribute('src') || '';
+      const translation = this.createTranslationFromLink(src, 'Озвучка');
+      if (translation) {
+        return translation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ищет материал в Kodik API по ID из каталогов, а если их нет на странице — по названию
+   */
+  private async searchKodikMaterials(): Promise<KodikElement[]> {
+    for (const { id, idType } of AnimeParser.extractExternalIds()) {
+      const response = await kodikAPI.searchById(id, idType, { with_material_data: false });
+      if (response.results.length > 0) {
+        return response.results;
+      }
+    }
+
+    const title = AnimeParser.extractTitle();
+    if (!title) return [];
+
+    const response = await kodikAPI.search(title, { with_material_data: false });
+    if (response.results.length === 0) return [];
+
+    // Поиск по названию возвращает и похожие тайтлы: оставляем переводы первого найденного
+    const first = response.results[0];
+    return response.results.filter(result => first.shikimori_id
+      ? result.shikimori_id === first.shikimori_id
+      : result.title === first.title);
+  }
+
+  /**
+   * Переводы из результатов Kodik API, по одному на озвучку
+   */
+  private translationsFromApiResults(results: KodikElement[]): Translation[] {
+    const translations: Translation[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      if (seen.has(result.translation.id)) continue;
+
+      const translation = this.createTranslationFromLink(result.link, result.translation.title, String(result.translation.id));
+      if (translation) {
+        seen.add(result.translation.id);
+        translations.push(translation);
+      }
+    }
+    return translations;
+  }
+
+  /**
+   * Перевод из ссылки плеера Kodik (/serial/ или /video/)
+   * ID перевода — only_translations из ссылки или ID озвучки из Kodik API, чтобы прогресс и настройки озвучки
+   * не зависели от того, откуда взят перевод
+   */
+  private createTranslationFromLink(link: string, title: string, translationId?: string): Translation | null {
+    const parsed = parseKodikUrl(link);
+    if (!parsed) return null;
+
+    return {
+      title,
+      kodikUrl: link.startsWith('//') ? 'https:' + link : link,
+      translationId: parsed.translation_id ?? translationId ?? `${parsed.media_id}_${parsed.media_hash}`,
+      mediaType: isVideo(link) ? 'video' : 'serial',
+      mediaId: parsed.media_id,
+      mediaHash: parsed.media_hash
+    };
+  }
+
   /**
    * Асинхронное удаление оригинального плеера
    */
@@ -3043,9 +2887,7 @@ class AnimeStarsKodikOptimizer {
         
         // Применяем изменения одним батчом
         if (elementsToHide.length > 0) {
-          elementsToHide.forEach(el => {
-            el.style.display = 'none';
-          });
+          elementsToHide.forEach(el => this.hideOriginalElement(el));
           console.log(`🗑️ Hidden ${elementsToHide.length} original player elements asynchronously`);
         }
         
@@ -3054,6 +2896,236 @@ class AnimeStarsKodikOptimizer {
     });
   }
 
+  /**
+   * Обрабатывает сообщения от popup и страницы настроек
+   */
+  private setupMessageListener() {
+    chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+      switch (request.type) {
+        case 'GET_PLAYERS_INFO':
+          sendResponse(this.getPlayersInfo());
+          break;
+
+        case 'RELOAD_PLAYERS':
+          this.reloadPlayers().then(sendResponse);
+          return true; // Ответ после пересборки плеера
+
+        case 'GET_CACHE_STATS':
+          this.getCacheStats().then(sendResponse);
+          return true;
+
+        case 'CLEAR_CACHE':
+          this.clearCache(request as ClearCacheRequest).then(sendResponse);
+          return true;
+      }
+    });
+  }
+
+  /**
+   * Собирает состояние плееров на странице для popup
+   */
+  private getPlayersInfo(): PlayersInfo {
+    const players = [...animeStarsDetector.getDetectedPlayers().values()];
+    // Заменены те iframe, которые сейчас убраны из DOM или скрыты под нашим плеером
+    const replaced = this.originalPlayer
+      ? players.filter(player => !player.iframe.isConnected || this.hiddenOriginalElements.has(player.iframe)).length
+      : 0;
+
+    return {
+      enabled: this.settings.enablePlayer,
+      detected: players.length,
+      replaced,
+      anime: this.currentAnimeInfo ? {
+        id: this.currentAnimeInfo.id,
+        title: this.currentAnimeInfo.title,
+        season: this.currentSeason,
+        episode: this.currentEpisode,
+        totalEpisodes: this.currentAnimeInfo.totalEpisodes
+      } : null,
+      translation: this.currentTranslation ? {
+        id: this.currentTranslation.translationId,
+        title: this.currentTranslation.title
+      } : null,
+      quality: {
+        selected: this.selectedQuality ?? (this.originalPlayer ? this.getPreferredQuality() : null),
+        current: this.player?.getCurrentQuality() ?? null,
+        available: Object.keys(this.currentStreams).map(Number).sort((a, b) => b - a)
+      },
+      stream: this.getStreamHealth()
+    };
+  }
+
+  /**
+   * Состояние воспроизведения: буфер впереди, ошибки, ожидание данных
+   */
+  private getStreamHealth(): StreamHealth {
+    const video = this.videoElement;
+    const health: StreamHealth = {
+      state: 'idle',
+      bufferedAhead: 0,
+      currentTime: video?.currentTime || 0,
+      duration: video && isFinite(video.duration) ? video.duration : 0,
+      hls: !!this.player?.isHls,
+      lastError: this.lastStreamError
+    };
+
+    if (!video) return health;
+
+    for (let i = 0; i < video.buffered.length; i++) {
+      if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+        health.bufferedAhead = video.buffered.end(i) - video.currentTime;
+        break;
+      }
+    }
+
+    if (this.lastStreamError) {
+      health.state = 'error';
+    } else if (this.isLoadingStream) {
+      health.state = 'loading';
+    } else if (video.paused) {
+      health.state = 'paused';
+    } else {
+      health.state = video.readyState < HTMLMediaElement.HAVE_FUTURE_DATA ? 'buffering' : 'playing';
+    }
+
+    return health;
+  }
+
+  /**
+   * Статистика кэшей этой вкладки
+   */
+  private async getCacheStats(): Promise<CacheStatsResponse> {
+    return {
+      url: window.location.href,
+      cache: await globalCache.getFullStats(),
+      api: kodikAPI.getCacheStats()
+    };
+  }
+
+  /**
+   * Очищает один уровень кэша и возвращает обновленную статистику
+   */
+  private async clearCache(request: ClearCacheRequest): Promise<CacheStatsResponse> {
+    if (request.layer === 'api') {
+      kodikAPI.clearCache();
+    } else {
+      await globalCache.clearLayer(request.layer);
+    }
+    return this.getCacheStats();
+  }
+
+  /**
+   * Полностью пересобирает кастомный плеер: возвращает оригинал и заново разбирает страницу
+   */
+  private async reloadPlayers(): Promise<ReloadPlayersResponse> {
+    console.log('🔄 Reloading players...');
+
+    if (this.originalPlayer) {
+      this.restoreOriginalPlayer();
+    }
+
+    if (!this.settings.enablePlayer) {
+      return { success: false, error: 'Player is disabled in settings' };
+    }
+
+    // Сбрасываем разобранные данные, чтобы start() прочитал страницу заново
+    this.translations = [];
+    this.episodes = [];
+    this.seasons = [];
+    this.currentTranslation = null;
+    this.currentSeason = 1;
+    this.currentEpisode = 1;
+    this.selectedQuality = null;
+    this.lastStreamError = null;
+    this.isFirstLoad = true; // Восстановим сохраненную позицию, как при первом открытии
+    this.domCache.clear();
+
+    await this.restartPlayer();
+
+    return this.originalPlayer
+      ? { success: true }
+      : { success: false, error: this.lastStreamError || 'Custom player was not created' };
+  }
+
+  /**
+   * Скрывает элемент оригинального плеера, запоминая его display для восстановления
+   */
+  private hideOriginalElement(element: HTMLElement) {
+    if (!this.hiddenOriginalElements.has(element)) {
+      this.hiddenOriginalElements.set(element, element.style.display);
+    }
+    element.style.display = 'none';
+  }
+
+  /**
+   * Убирает кастомный плеер и возвращает оригинальный iframe Kodik
+   */
+  private restoreOriginalPlayer() {
+    console.log('↩️ Restoring original Kodik player...');
+
+    this.stopProgressTracking();
+    this.saveCurrentProgress();
+    this.streamPreloader.cancel();
+
+    // Плеер останавливает HLS.js и снимает свои обработчики полноэкранного режима
+    this.player?.destroy();
+    this.player = null;
+
+    // Снимаем обработчики клавиатуры, повешенные на document/window
+    this.pageListeners.abort();
+    this.pageListeners = new AbortController();
+
+    const original = this.originalPlayer;
+    if (original) {
+      if (original.created) {
+        original.container.remove();
+      } else {
+        original.container.replaceChildren(...original.children);
+        original.container.className = original.className;
+        original.container.style.cssText = original.cssText;
+      }
+      this.originalPlayer = null;
+    }
+
+    document.querySelectorAll('.kodik-instant-placeholder').forEach(placeholder => placeholder.remove());
+    this.hiddenOriginalElements.forEach((display, element) => {
+      element.style.display = display;
+    });
+    this.hiddenOriginalElements.clear();
+
+    this.playerContainer = null;
+    this.speedMenu = null;
+    this.audioMenu = null;
+    this.audioTracks = [];
+    this.subtitleMenu = null;
+    this.resetSubtitleTracks();
+    this.skipMenu = null;
+    this.nextEpisodeCard?.hide();
+    this.nextEpisodeCard = null;
+    this.sessionMenu = null;
+    this.keymapHelp = null;
+    this.currentStreams = {};
+  }
+
+  /**
+   * Снова включает кастомный плеер, используя уже разобранные переводы и серии
+   */
+  private async restartPlayer() {
+    if (this.translations.length === 0) {
+      this.showInstantPlaceholder();
+      await this.start();
+      return;
+    }
+
+    try {
+      await this.createCustomPlayer();
+      await this.removeOriginalPlayerAsync();
+      console.log('✅ Custom player re-enabled');
+    } catch (error) {
+      console.error('❌ Failed to re-enable custom player:', error);
+    }
+  }
+
   /**
    * Асинхронное извлечение информации об аниме
    */
@@ -3091,9 +3163,11 @@ class AnimeStarsKodikOptimizer {
         this.currentAnimeInfo = {
           id: animeId,
           title: title || 'Unknown Anime',
+          currentSeason: this.currentSeason,
           currentEpisode: this.currentEpisode,
           totalEpisodes: this.episodes.length > 0 ? this.episodes.length : undefined,
           translationId: this.currentTranslation.translationId,
+          translationTitle: this.currentTranslation.title,
           url: window.location.href
         };
 
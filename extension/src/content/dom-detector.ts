@@ -394,8 +394,8 @@ export class AnimeStarsDetector {
    * Генерирует уникальный ID для плеера
    */
   private generatePlayerId(kodikUrl: string): string {
-    // Используем URL как основу для ID
-    return btoa(kodikUrl).replace(/[^a-zA-Z0-9]/g, '').substring(0, 16);
+    // ID — полный URL без протокола: у разных плееров общий только хост, а `//kodik.info/...` и `https://kodik.info/...` — один плеер
+    return kodikUrl.replace(/^https?:/, '');
   }
 
   /**
@@ -0,0 +1,13 @@
+// Общее поведение выпадающих меню на панели плеера
+
+/**
+ * Закрывает меню по клику вне его
+ * Обработчик висит на document, поэтому снимается через signal при уничтожении плеера
+ */
+export function closeOnOutsideClick(root: HTMLElement, close: () => void, signal: AbortSignal) {
+  document.addEventListener('click', (e) => {
+    if (!root.contains(e.target as Node)) {
+      close();
+    }
+  }, { signal });
+}
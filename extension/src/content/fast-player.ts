@@ -1,496 +1,1251 @@
 // Быстрый видео плеер для замены Kodik iframe
-// Использует HLS.js для оптимизированного воспроизведения
+// Отвечает за видео элемент, жизненный цикл HLS.js, контролы, оверлеи, субтитры и события;
+// серии, прогресс, настройки и отметки остаются в content script: он передает плееру данные и подписывается на события
+
+import { KodikStreamMap } from '../types/kodik';
+import { AudioTrackInfo } from '../utils/audio-tracks';
+import { EventBus, EventHandler } from '../utils/event-bus';
+import { HLSAudioRendition, HLSUtils, OptimizedHLSParser } from '../utils/hls-parser';
+import { QualityMenu, QualityChoice } from './quality-menu';
+import { OsdMessage } from './osd-message';
+import { SkipButton } from './skip-button';
+import { SubtitleRenderer } from './subtitle-renderer';
+import { VideoPoster, VideoPosterInfo } from './video-poster';
+
+// Declare HLS.js types
+declare global {
+  interface Window {
+    Hls: any;
+  }
+}
 
-import { AnimeStarsPlayerData } from '../types/kodik';
-import { HLSParser, HLSUtils } from '../utils/hls-parser';
+export interface FastPlayerOptions {
+  bufferSize: number; // секунды буфера впереди для HLS.js
+}
 
-export interface FastPlayerConfig {
-  container: HTMLElement;
-  videoUrl: string;
-  maxQuality: number;
-  playerData: AnimeStarsPlayerData | null;
-  originalUrl: string;
+// Потоки серии от резолвера Kodik
+export interface FastPlayerSource {
+  streams: KodikStreamMap;
+  qualities: number[];
+  startQuality: number; // качество, с которого начинается загрузка
+  preferred: QualityChoice;
 }
 
-export class FastVideoPlayer {
-  private config: FastPlayerConfig;
-  private videoElement: HTMLVideoElement | null = null;
-  private hlsPlayer: any = null; // HLS.js instance
-  private controlsContainer: HTMLElement | null = null;
-  private isInitialized = false;
-  private isPlaying = false;
+// События видео элемента, HLS.js и контролов плеера, на которые подписывается content script
+export interface FastPlayerEventMap {
+  loadstart: void;
+  canplay: void;
+  waiting: void;
+  playing: void;
+  pause: void;
+  timeupdate: void;
+  durationchange: void;
+  ended: void;
+  ready: void; // источник загружен, можно запускать воспроизведение
+  qualitychange: QualityChoice; // качество выбрано в меню
+  audiotracks: AudioTrackInfo[];
+  audiotrackswitch: number;
+  error: string; // фатальная ошибка потока
+  previousepisode: void; // кнопки навигации по сериям
+  nextepisode: void;
+  skipsegment: void; // нажата кнопка пропуска опенинга/эндинга
+  subtitletracks: void; // дорожки субтитров добавлены, удалены или переключены
+  subtitlefile: File; // файл перетащили на плеер
+}
 
-  constructor(config: FastPlayerConfig) {
-    this.config = config;
-  }
+// Отмеченный сегмент на полосе прогресса, в секундах
+export interface FastPlayerTimelineMark {
+  start: number;
+  end: number;
+}
 
-  /**
-   * Инициализирует плеер
-   */
-  async init(): Promise<void> {
-    if (this.isInitialized) return;
+// Куда вставить дополнительный контрол: после кнопки воспроизведения или перед меню качества
+export type FastPlayerControlSlot = 'start' | 'end';
 
-    try {
-      console.log('🎮 Initializing fast video player...');
+const MEDIA_EVENTS = ['loadstart', 'canplay', 'waiting', 'playing', 'pause', 'timeupdate', 'durationchange', 'ended'] as const;
 
-      // Очищаем контейнер
-      this.clearContainer();
+const FRAME_DURATION = 1 / 24; // покадровая перемотка, большинство аниме в 24 fps
+const CONTROLS_HIDE_DELAY = 3000;
+const MANIFEST_INSPECT_TIMEOUT = 5000; // проверка плейлиста на аудиодорожки не должна задерживать старт
 
-      // Создаем видео элемент
-      this.createVideoElement();
+const PLAY_ICON = `
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+    <path d="M8 5v14l11-7z"/>
+  </svg>
+`;
 
-      // Создаем контролы
-      this.createControls();
+const PAUSE_ICON = `
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+    <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+  </svg>
+`;
 
-      // Инициализируем HLS
-      await this.initializeHLS();
+const VOLUME_ICON = `
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+    <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/>
+  </svg>
+`;
 
-      // Настраиваем обработчики событий
-      this.setupEventHandlers();
+const MUTED_ICON = `
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+    <path d="M16.5 12c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
+  </svg>
+`;
 
-      this.isInitialized = true;
-      console.log('✅ Fast video player initialized');
+export class FastVideoPlayer {
+  private wrapper: HTMLElement;
+  private videoElement: HTMLVideoElement;
+  private hlsPlayer: any = null; // HLS.js instance
+  private masterPlaylistUrl: string | null = null;
+  private currentStreams: KodikStreamMap = {};
+  private qualityMenu: QualityMenu;
+  private loadingOverlay!: HTMLElement;
+  private centerPlayButton!: HTMLElement;
+  private controlsBar!: HTMLElement;
+  private controlsRow!: HTMLElement;
+  private playButton!: HTMLElement;
+  private volumeButton!: HTMLElement;
+  private volumeSlider!: HTMLInputElement;
+  private timeInfo!: HTMLElement;
+  private progressBar!: HTMLElement;
+  private bufferedBar!: HTMLElement;
+  private timelineLayer!: HTMLElement;
+  private timelineMarks: FastPlayerTimelineMark[] = [];
+  private previousEpisodeButton!: HTMLElement;
+  private nextEpisodeButton!: HTMLElement;
+  private skipButton: SkipButton;
+  private osdMessage: OsdMessage;
+  private subtitleRenderer: SubtitleRenderer;
+  private controlsHideTimeout: number | null = null;
+  private listeners = new AbortController(); // обработчики на document, снимаются в destroy()
+  private events = new EventBus<FastPlayerEventMap>();
+
+  constructor(private options: FastPlayerOptions) {
+    // Создаем главный контейнер плеера
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'animestars-player-wrapper';
+    this.wrapper.style.cssText = `
+      position: relative;
+      background: linear-gradient(135deg, #0f0f0f 0%, #1a1a1a 100%);
+      aspect-ratio: 16/9;
+      border-radius: 12px;
+      overflow: hidden;
+      box-shadow: 0 8px 25px rgba(0,0,0,0.4);
+      cursor: pointer;
+    `;
 
-    } catch (error) {
-      console.error('❌ Failed to initialize fast player:', error);
-      throw error;
-    }
+    // Создаем видео элемент
+    this.videoElement = document.createElement('video');
+    this.videoElement.className = 'animestars-player-video';
+    this.videoElement.style.cssText = `
+      width: 100%;
+      height: 100%;
+      object-fit: contain;
+      border-radius: 12px;
+    `;
+    this.videoElement.controls = false;
+    this.videoElement.preload = 'metadata';
+
+    this.qualityMenu = new QualityMenu(choice => this.switchQuality(choice), this.listeners.signal);
+    this.skipButton = new SkipButton(() => this.emit('skipsegment', undefined));
+    this.osdMessage = new OsdMessage();
+    this.subtitleRenderer = new SubtitleRenderer(
+      this.videoElement,
+      'video.animestars-player-video',
+      () => this.emit('subtitletracks', undefined)
+    );
+
+    this.createLoadingIndicator();
+    this.createControls();
+    this.createEpisodeNavigation();
+    this.createCenterPlayButton();
+    this.wrapper.appendChild(this.videoElement);
+    this.addOverlay(this.skipButton.element);
+    this.addOverlay(this.osdMessage.element);
+
+    this.setupVideoEvents();
+    this.setupMouseControls();
+    this.setupFileDrop();
   }
 
   /**
-   * Очищает контейнер от старого содержимого
+   * Срабатывает в destroy(): обработчики контролов на document снимаются вместе с плеером
    */
-  private clearContainer(): void {
-    // Убираем все iframe и другие элементы
-    const existingElements = this.config.container.querySelectorAll('iframe, video, embed, object');
-    existingElements.forEach(el => el.remove());
-
-    // Убираем индикаторы загрузки
-    const loadingElements = this.config.container.querySelectorAll('.animestars-loading, .animestars-error');
-    loadingElements.forEach(el => el.remove());
+  get signal(): AbortSignal {
+    return this.listeners.signal;
   }
 
   /**
-   * Создает видео элемент
+   * Корневой элемент плеера для вставки на страницу
    */
-  private createVideoElement(): void {
-    this.videoElement = document.createElement('video');
-    this.videoElement.style.cssText = `
-      width: 100%;
-      height: 100%;
-      background: #000;
-      object-fit: contain;
-    `;
-    
-    this.videoElement.setAttribute('controls', 'true');
-    this.videoElement.setAttribute('preload', 'metadata');
-    this.videoElement.setAttribute('crossorigin', 'anonymous');
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
 
-    this.config.container.appendChild(this.videoElement);
+  get video(): HTMLVideoElement {
+    return this.videoElement;
   }
 
   /**
-   * Создает дополнительные контролы
+   * Дорожки субтитров видео и их оформление
    */
-  private createControls(): void {
-    this.controlsContainer = document.createElement('div');
-    this.controlsContainer.className = 'fast-player-controls';
-    this.controlsContainer.style.cssText = `
-      position: absolute;
-      top: 10px;
-      right: 10px;
-      display: flex;
-      gap: 5px;
-      z-index: 1000;
-    `;
+  get subtitles(): SubtitleRenderer {
+    return this.subtitleRenderer;
+  }
 
-    // Кнопка качества
-    const qualityButton = this.createControlButton(
-      `${this.config.maxQuality}p`,
-      'Текущее качество'
-    );
-    qualityButton.onclick = () => this.showQualityMenu();
+  /**
+   * Воспроизведение идет через HLS.js
+   */
+  get isHls(): boolean {
+    return !!this.hlsPlayer;
+  }
 
-    // Кнопка PiP
-    const pipButton = this.createControlButton('⧉', 'Картинка в картинке');
-    pipButton.onclick = () => this.togglePictureInPicture();
+  /**
+   * Количество уровней HLS.js: больше одного — качество переключается без перезагрузки
+   */
+  get levelCount(): number {
+    return this.hlsPlayer?.levels?.length || 0;
+  }
 
-    // Кнопка полного экрана
-    const fullscreenButton = this.createControlButton('⛶', 'Полный экран');
-    fullscreenButton.onclick = () => this.toggleFullscreen();
+  /**
+   * Подписка на событие плеера, возвращает функцию отписки
+   */
+  on<K extends keyof FastPlayerEventMap>(event: K, handler: EventHandler<FastPlayerEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
 
-    this.controlsContainer.appendChild(qualityButton);
-    this.controlsContainer.appendChild(pipButton);
-    this.controlsContainer.appendChild(fullscreenButton);
+  private emit<K extends keyof FastPlayerEventMap>(event: K, data: FastPlayerEventMap[K]) {
+    this.events.emit(event, data);
+  }
 
-    this.config.container.style.position = 'relative';
-    this.config.container.appendChild(this.controlsContainer);
+  /**
+   * Добавляет контрол в строку управления
+   */
+  addControl(element: HTMLElement, slot: FastPlayerControlSlot) {
+    this.controlsRow.insertBefore(element, slot === 'start' ? this.timeInfo : this.qualityMenu.element);
   }
 
   /**
-   * Создает кнопку контрола
+   * Добавляет элемент поверх видео (кнопки, карточки, сообщения)
    */
-  private createControlButton(text: string, title: string): HTMLButtonElement {
-    const button = document.createElement('button');
-    button.textContent = text;
-    button.title = title;
-    button.style.cssText = `
-      background: rgba(0, 0, 0, 0.7);
-      color: white;
-      border: none;
-      padding: 8px 12px;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 12px;
-      font-family: monospace;
-      transition: background 0.2s;
-    `;
+  addOverlay(element: HTMLElement) {
+    this.wrapper.insertBefore(element, this.videoElement);
+  }
 
-    button.onmouseenter = () => {
-      button.style.background = 'rgba(0, 0, 0, 0.9)';
-    };
+  /**
+   * Показывает или скрывает кнопки предыдущей и следующей серии
+   */
+  setEpisodeNavigation(hasPrevious: boolean, hasNext: boolean) {
+    this.previousEpisodeButton.style.display = hasPrevious ? 'flex' : 'none';
+    this.previousEpisodeButton.style.opacity = hasPrevious ? '1' : '0.5';
+    this.nextEpisodeButton.style.display = hasNext ? 'flex' : 'none';
+    this.nextEpisodeButton.style.opacity = hasNext ? '1' : '0.5';
+  }
 
-    button.onmouseleave = () => {
-      button.style.background = 'rgba(0, 0, 0, 0.7)';
-    };
+  /**
+   * Рисует отмеченные сегменты на полосе прогресса; при смене длительности перерисовываются сами
+   */
+  setTimelineMarks(marks: FastPlayerTimelineMark[]) {
+    this.timelineMarks = marks;
+    this.renderTimelineMarks();
+  }
 
-    return button;
+  showSkipButton(label: string) {
+    this.skipButton.show(label);
+  }
+
+  hideSkipButton() {
+    this.skipButton.hide();
   }
 
   /**
-   * Инициализирует HLS плеер
+   * Короткое сообщение поверх видео
    */
-  private async initializeHLS(): Promise<void> {
-    if (!this.videoElement) {
-      throw new Error('Video element not created');
-    }
-
-    try {
-      console.log('🎬 Initializing video with URL:', this.config.videoUrl);
-      
-      // Определяем тип URL
-      const isHLS = this.config.videoUrl.includes('.m3u8');
-      const isKodikIframe = this.config.videoUrl.includes('kodik.info');
-      
-      if (isKodikIframe) {
-        console.log('🖼️ URL is Kodik iframe, creating fallback player');
-        await this.createKodikFallbackPlayer();
-        return;
-      }
-      
-      if (isHLS) {
-        console.log('📺 URL is HLS stream');
-        // Проверяем поддержку HLS браузером
-        if (this.videoElement.canPlayType('application/vnd.apple.mpegurl')) {
-          // Нативная поддержка HLS (Safari)
-          this.videoElement.src = this.config.videoUrl;
-          console.log('✅ Using native HLS support');
-        } else {
-          // Используем HLS.js для других браузеров
-          await this.loadHLSjs();
-        }
-      } else {
-        console.log('🎥 URL is regular video');
-        // Обычное видео
-        this.videoElement.src = this.config.videoUrl;
-      }
+  showMessage(text: string) {
+    this.osdMessage.show(text);
+  }
 
-    } catch (error) {
-      console.error('❌ Error initializing video:', error);
-      // Последний fallback - iframe
-      await this.createKodikFallbackPlayer();
+  /**
+   * Poster до начала воспроизведения: строка — готовое превью, info — нарисовать свое, null — базовый
+   */
+  setPoster(poster: string | VideoPosterInfo | null) {
+    if (typeof poster === 'string') {
+      this.videoElement.poster = poster;
+    } else {
+      this.videoElement.poster = poster ? VideoPoster.create(poster) : VideoPoster.createDefault();
     }
   }
 
   /**
-   * Создает fallback плеер с iframe для случаев когда не удается получить прямую ссылку
+   * Создает кнопку в стиле контролов плеера
    */
-  private async createKodikFallbackPlayer(): Promise<void> {
-    if (!this.videoElement) return;
-    
-    console.log('🔄 Creating Kodik fallback player');
-    
-    // Убираем video элемент
-    this.videoElement.remove();
-    this.videoElement = null;
-    
-    // Создаем улучшенный iframe
-    const iframe = document.createElement('iframe');
-    iframe.src = this.config.originalUrl;
-    iframe.style.cssText = `
-      width: 100%;
-      height: 100%;
+  static createControlButton(type: string, icon: string): HTMLElement {
+    const button = document.createElement('button');
+    button.className = `control-btn control-btn-${type}`;
+    button.style.cssText = `
+      background: rgba(255,255,255,0.1);
       border: none;
-      background: #000;
-    `;
-    iframe.setAttribute('allowfullscreen', 'true');
-    iframe.setAttribute('webkitallowfullscreen', 'true');
-    iframe.setAttribute('mozallowfullscreen', 'true');
-    
-    // Добавляем индикатор что это fallback
-    const indicator = document.createElement('div');
-    indicator.style.cssText = `
-      position: absolute;
-      top: 10px;
-      left: 10px;
-      background: rgba(255, 107, 53, 0.9);
       color: white;
-      padding: 5px 10px;
-      border-radius: 4px;
-      font-size: 12px;
-      z-index: 1001;
-      font-family: Arial, sans-serif;
+      cursor: pointer;
+      padding: 12px;
+      border-radius: 8px;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
     `;
-    indicator.textContent = 'Режим совместимости';
-    
-    this.config.container.appendChild(iframe);
-    this.config.container.appendChild(indicator);
-    
-    console.log('✅ Fallback player created');
-  }
+    button.innerHTML = icon;
 
-  /**
-   * Загружает и инициализирует HLS.js
-   */
-  private async loadHLSjs(): Promise<void> {
-    if (!this.videoElement) return;
+    button.addEventListener('mouseenter', () => {
+      button.style.background = 'rgba(255,255,255,0.2)';
+      button.style.transform = 'scale(1.05)';
+      button.style.boxShadow = '0 4px 12px rgba(0,0,0,0.3)';
+    });
 
-    try {
-      // Проверяем, доступен ли HLS.js глобально
-      if (typeof (window as any).Hls !== 'undefined') {
-        this.initHLSjsPlayer((window as any).Hls);
-        return;
-      }
+    button.addEventListener('mouseleave', () => {
+      button.style.background = 'rgba(255,255,255,0.1)';
+      button.style.transform = 'scale(1)';
+      button.style.boxShadow = '0 2px 8px rgba(0,0,0,0.2)';
+    });
 
-      // Загружаем HLS.js динамически
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/npm/hls.js@latest';
-      
-      await new Promise<void>((resolve, reject) => {
-        script.onload = () => resolve();
-        script.onerror = () => reject(new Error('Failed to load HLS.js'));
-        document.head.appendChild(script);
-      });
+    button.addEventListener('mousedown', () => {
+      button.style.transform = 'scale(0.95)';
+    });
 
-      this.initHLSjsPlayer((window as any).Hls);
+    button.addEventListener('mouseup', () => {
+      button.style.transform = 'scale(1.05)';
+    });
 
-    } catch (error) {
-      console.error('Failed to load HLS.js:', error);
-      throw error;
-    }
+    return button;
   }
 
   /**
-   * Инициализирует HLS.js плеер
+   * Загружает потоки серии: все качества в одном мастер плейлисте HLS.js,
+   * нативный HLS (Safari) или прямая ссылка как запасной вариант
    */
-  private initHLSjsPlayer(Hls: any): void {
-    if (!this.videoElement) return;
+  async load(source: FastPlayerSource): Promise<void> {
+    const { streams, qualities, startQuality, preferred } = source;
+    const finalVideoUrl = streams[startQuality];
+    this.currentStreams = streams;
+
+    if (typeof window.Hls !== 'undefined' && window.Hls.isSupported()) {
+      this.destroyHls();
 
-    if (Hls.isSupported()) {
-      this.hlsPlayer = new Hls({
+      const hls = new window.Hls({
+        debug: false,
         enableWorker: true,
         lowLatencyMode: false,
-        backBufferLength: 30
+        maxBufferLength: this.options.bufferSize,
+        maxMaxBufferLength: Math.max(30, this.options.bufferSize)
       });
+      this.hlsPlayer = hls;
 
-      this.hlsPlayer.loadSource(this.config.videoUrl);
-      this.hlsPlayer.attachMedia(this.videoElement);
+      // Поток с несколькими аудиодорожками отдается готовым мастер плейлистом:
+      // вложить его в собственный мастер нельзя, поэтому HLS.js получает его как есть
+      const manifest = await this.inspectStreamManifest(finalVideoUrl);
+      if (this.hlsPlayer !== hls) return; // пока проверяли плейлист, началась загрузка другой серии
 
-      this.hlsPlayer.on(Hls.Events.MANIFEST_PARSED, () => {
-        console.log('HLS manifest parsed successfully');
+      if (manifest.isMaster) {
+        console.log('🎧 Master playlist with audio renditions:', manifest.audioTracks);
+        hls.loadSource(finalVideoUrl);
+      } else {
+        // Все качества Kodik в одном мастер плейлисте: HLS.js переключает уровни без потери позиции
+        this.masterPlaylistUrl = URL.createObjectURL(new Blob(
+          [HLSUtils.createMasterPlaylist(streams)],
+          { type: 'application/vnd.apple.mpegurl' }
+        ));
+        hls.loadSource(this.masterPlaylistUrl);
+      }
+      hls.attachMedia(this.videoElement);
+
+      hls.on(window.Hls.Events.MANIFEST_PARSED, () => {
+        console.log('✅ HLS manifest loaded, levels:', hls.levels.length);
+        this.applyQuality(preferred === 'auto' ? 'auto' : startQuality);
+        this.emit('ready', undefined);
       });
 
-      this.hlsPlayer.on(Hls.Events.ERROR, (event: any, data: any) => {
-        console.error('HLS error:', data);
-        if (data.fatal) {
-          this.handleHLSError(data);
+      hls.on(window.Hls.Events.LEVEL_SWITCHED, (event: any, data: any) => {
+        const level = hls.levels?.[data.level];
+        this.qualityMenu.setAutoQuality(level?.height || null);
+      });
+
+      hls.on(window.Hls.Events.AUDIO_TRACKS_UPDATED, (event: any, data: any) => {
+        const tracks: AudioTrackInfo[] = (data.audioTracks || []).map((track: any, index: number) => ({
+          name: track.name || track.lang || `Дорожка ${index + 1}`,
+          language: track.lang || undefined,
+          isDefault: !!track.default
+        }));
+        this.emit('audiotracks', tracks);
+      });
+
+      hls.on(window.Hls.Events.AUDIO_TRACK_SWITCHED, (event: any, data: any) => {
+        this.emit('audiotrackswitch', data.id);
+      });
+
+      hls.on(window.Hls.Events.ERROR, (event: any, data: any) => {
+        console.error('❌ HLS error:', data);
+        if (!data.fatal) return;
+
+        this.emit('error', `${data.type}: ${data.details}`);
+
+        // Мастер плейлист из blob не загрузился — играем выбранное качество напрямую
+        if (data.details === window.Hls.ErrorDetails.MANIFEST_LOAD_ERROR && hls.url === this.masterPlaylistUrl) {
+          console.log('🔄 Falling back to single quality manifest...');
+          this.releaseMasterPlaylist();
+          hls.loadSource(finalVideoUrl);
+          this.qualityMenu.setQualities(qualities, startQuality, false);
+          return;
         }
+
+        // Пробуем fallback - прямая загрузка
+        console.log('🔄 Trying direct video loading...');
+        this.videoElement.src = finalVideoUrl;
       });
 
-      console.log('HLS.js player initialized');
+    } else if (this.videoElement.canPlayType('application/vnd.apple.mpegurl')) {
+      // Прямая поддержка HLS (Safari)
+      this.videoElement.src = finalVideoUrl;
+      this.qualityMenu.setQualities(qualities, startQuality, false);
+      this.emit('ready', undefined);
     } else {
-      throw new Error('HLS.js not supported');
+      console.warn('⚠️ HLS not supported, trying direct loading');
+      this.videoElement.src = finalVideoUrl;
+      this.qualityMenu.setQualities(qualities, startQuality, false);
+      this.emit('ready', undefined);
     }
   }
 
   /**
-   * Обрабатывает ошибки HLS
+   * Применяет качество к уровням HLS.js и обновляет меню
    */
-  private handleHLSError(data: any): void {
-    if (!this.hlsPlayer || !this.videoElement) return;
+  applyQuality(choice: QualityChoice) {
+    const levels: Array<{ height: number }> = this.hlsPlayer?.levels || [];
+    const qualities = [...new Set(levels.map(level => level.height).filter(Boolean))];
 
-    switch (data.type) {
-      case 'networkError':
-        console.log('Network error, trying to recover...');
-        this.hlsPlayer.startLoad();
-        break;
-      case 'mediaError':
-        console.log('Media error, trying to recover...');
-        this.hlsPlayer.recoverMediaError();
-        break;
-      default:
-        console.error('Fatal HLS error, cannot recover');
-        this.destroy();
-        break;
+    if (choice === 'auto') {
+      this.hlsPlayer.currentLevel = -1;
+    } else {
+      const levelIndex = levels.findIndex(level => level.height === choice);
+      if (levelIndex !== -1) {
+        this.hlsPlayer.currentLevel = levelIndex;
+      }
     }
+
+    this.qualityMenu.setQualities(qualities, choice, levels.length > 1);
   }
 
   /**
-   * Настраивает обработчики событий
+   * Текущее качество: уровень HLS.js или высота кадра
    */
-  private setupEventHandlers(): void {
-    if (!this.videoElement) return;
+  getCurrentQuality(): number | null {
+    const levels: Array<{ height: number }> = this.hlsPlayer?.levels || [];
+    const currentLevel = this.hlsPlayer ? levels[this.hlsPlayer.currentLevel] : undefined;
+    return currentLevel?.height || this.videoElement.videoHeight || null;
+  }
 
-    this.videoElement.addEventListener('play', () => {
-      this.isPlaying = true;
-    });
+  /**
+   * Переключает качество из меню, сохраняя позицию воспроизведения
+   */
+  private switchQuality(choice: QualityChoice) {
+    console.log('🎚️ Switching quality to:', choice);
+    this.emit('qualitychange', choice);
+
+    if (this.levelCount > 1) {
+      // HLS.js сам докачивает новый уровень с текущей позиции
+      this.hlsPlayer.currentLevel = choice === 'auto' ? -1 : this.hlsPlayer.levels.findIndex((level: any) => level.height === choice);
+      return;
+    }
 
-    this.videoElement.addEventListener('pause', () => {
-      this.isPlaying = false;
-    });
+    const url = choice === 'auto' ? null : this.currentStreams[choice];
+    if (!url) return;
 
-    this.videoElement.addEventListener('loadstart', () => {
-      console.log('Video loading started');
-    });
+    const video = this.videoElement;
+    const position = video.currentTime;
+    const wasPaused = video.paused;
 
-    this.videoElement.addEventListener('canplay', () => {
-      console.log('Video can start playing');
-    });
+    video.addEventListener('loadedmetadata', () => {
+      video.currentTime = position;
+      if (!wasPaused) {
+        video.play().catch(error => console.warn('⚠️ Resume after quality switch failed:', error));
+      }
+    }, { once: true });
 
-    this.videoElement.addEventListener('error', (e) => {
-      console.error('Video error:', e);
-    });
+    if (this.hlsPlayer) {
+      this.hlsPlayer.loadSource(url);
+    } else {
+      video.src = url;
+    }
   }
 
   /**
-   * Показывает меню выбора качества
+   * Включает аудиодорожку HLS.js
    */
-  private showQualityMenu(): void {
-    // TODO: Реализовать меню качества
-    console.log('Quality menu not implemented yet');
+  setAudioTrack(index: number) {
+    if (this.hlsPlayer && this.hlsPlayer.audioTrack !== index) {
+      this.hlsPlayer.audioTrack = index;
+    }
   }
 
   /**
-   * Переключает режим "картинка в картинке"
+   * Меняет размер буфера; HLS.js читает лимиты из config на каждом тике загрузки
    */
-  private async togglePictureInPicture(): Promise<void> {
-    if (!this.videoElement) return;
+  setBufferSize(seconds: number) {
+    this.options.bufferSize = seconds;
+    if (this.hlsPlayer) {
+      this.hlsPlayer.config.maxBufferLength = seconds;
+      this.hlsPlayer.config.maxMaxBufferLength = Math.max(30, seconds);
+    }
+  }
+
+  /**
+   * Загружает плейлист выбранного качества и проверяет, не мастер ли он с аудиодорожками
+   */
+  private async inspectStreamManifest(url: string): Promise<{ isMaster: boolean; audioTracks: HLSAudioRendition[] }> {
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => controller.abort(), MANIFEST_INSPECT_TIMEOUT);
 
     try {
-      if (document.pictureInPictureElement) {
-        await document.exitPictureInPicture();
-      } else {
-        await this.videoElement.requestPictureInPicture();
-      }
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const content = await response.text();
+      return {
+        isMaster: HLSUtils.isMasterPlaylist(content),
+        audioTracks: OptimizedHLSParser.parseAudioRenditions(content, url)
+      };
     } catch (error) {
-      console.error('PiP error:', error);
+      console.warn('⚠️ Failed to inspect stream manifest:', error);
+      return { isMaster: false, audioTracks: [] };
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
   /**
-   * Переключает полноэкранный режим
+   * Останавливает HLS.js и освобождает blob URL мастер плейлиста
+   */
+  private destroyHls() {
+    if (this.hlsPlayer) {
+      this.hlsPlayer.destroy();
+      this.hlsPlayer = null;
+    }
+    this.releaseMasterPlaylist();
+  }
+
+  /**
+   * Освобождает blob URL мастер плейлиста
    */
-  private toggleFullscreen(): void {
-    if (!this.videoElement) return;
+  private releaseMasterPlaylist() {
+    if (this.masterPlaylistUrl) {
+      URL.revokeObjectURL(this.masterPlaylistUrl);
+      this.masterPlaylistUrl = null;
+    }
+  }
 
-    if (document.fullscreenElement) {
-      document.exitFullscreen();
+  /**
+   * Запускает воспроизведение; браузер может заблокировать автозапуск со звуком
+   */
+  play(): Promise<void> {
+    return this.videoElement.play();
+  }
+
+  pause() {
+    this.videoElement.pause();
+  }
+
+  /**
+   * Переключает воспроизведение/паузу
+   */
+  togglePlay() {
+    if (this.videoElement.paused) {
+      console.log('▶️ Playing video');
+      this.videoElement.play();
     } else {
-      this.videoElement.requestFullscreen();
+      console.log('⏸️ Pausing video');
+      this.videoElement.pause();
     }
   }
 
+  get paused(): boolean {
+    return this.videoElement.paused;
+  }
+
+  get currentTime(): number {
+    return this.videoElement.currentTime;
+  }
+
+  get duration(): number {
+    return this.videoElement.duration;
+  }
+
+  /**
+   * Перематывает на позицию в секундах
+   */
+  seekTo(time: number) {
+    this.videoElement.currentTime = time;
+  }
+
+  /**
+   * Перематывает видео на указанное количество секунд
+   */
+  seekBy(seconds: number) {
+    this.videoElement.currentTime = Math.max(0, Math.min(
+      this.videoElement.duration,
+      this.videoElement.currentTime + seconds
+    ));
+  }
+
   /**
-   * Воспроизводит/останавливает видео
+   * Перематывает на процент длительности серии
    */
-  toggle(): void {
-    if (!this.videoElement) return;
+  seekToPercent(percent: number) {
+    if (!isFinite(this.videoElement.duration)) return;
+    this.videoElement.currentTime = this.videoElement.duration * percent / 100;
+  }
 
-    if (this.isPlaying) {
+  /**
+   * Покадровая перемотка, видео ставится на паузу
+   */
+  stepFrame(direction: -1 | 1) {
+    if (!this.videoElement.paused) {
       this.videoElement.pause();
+    }
+    this.seekBy(direction * FRAME_DURATION);
+  }
+
+  /**
+   * Применяет скорость к видео; defaultPlaybackRate сохраняет её при смене источника
+   */
+  setPlaybackRate(rate: number, preservesPitch: boolean) {
+    this.videoElement.defaultPlaybackRate = rate;
+    this.videoElement.playbackRate = rate;
+    this.videoElement.preservesPitch = preservesPitch;
+  }
+
+  /**
+   * Регулирует громкость
+   */
+  adjustVolume(delta: number) {
+    this.videoElement.volume = Math.max(0, Math.min(1, this.videoElement.volume + delta));
+    this.volumeSlider.value = (this.videoElement.volume * 100).toString();
+  }
+
+  /**
+   * Переключает звук
+   */
+  toggleMute() {
+    this.videoElement.muted = !this.videoElement.muted;
+    this.volumeButton.innerHTML = this.videoElement.muted ? MUTED_ICON : VOLUME_ICON;
+  }
+
+  /**
+   * Переключает полноэкранный режим
+   * На весь экран разворачивается обертка, а не <video>: иначе контролы и оверлеи (карточка следующей серии,
+   * пропуск опенинга, сообщения) остаются за пределами полноэкранного элемента
+   */
+  toggleFullscreen() {
+    if (!document.fullscreenElement) {
+      this.wrapper.requestFullscreen();
     } else {
-      this.videoElement.play();
+      document.exitFullscreen();
     }
   }
 
   /**
-   * Воспроизводит видео
+   * Показывает контролы
    */
-  play(): void {
-    if (this.videoElement) {
-      this.videoElement.play();
+  showControls() {
+    this.controlsBar.style.transform = 'translateY(0)';
+    this.controlsBar.style.opacity = '1';
+    this.controlsBar.style.pointerEvents = 'auto';
+  }
+
+  /**
+   * Скрывает контролы
+   */
+  hideControls() {
+    if (!this.videoElement.paused) {
+      this.controlsBar.style.transform = 'translateY(100%)';
+      this.controlsBar.style.opacity = '0';
+      this.controlsBar.style.pointerEvents = 'none';
     }
   }
 
   /**
-   * Останавливает видео
+   * Уничтожает плеер и освобождает ресурсы
    */
-  pause(): void {
-    if (this.videoElement) {
-      this.videoElement.pause();
+  destroy() {
+    console.log('🗑️ Destroying fast video player...');
+
+    this.destroyHls();
+
+    this.videoElement.pause();
+    this.videoElement.removeAttribute('src');
+    this.videoElement.load();
+
+    if (this.controlsHideTimeout) {
+      clearTimeout(this.controlsHideTimeout);
+      this.controlsHideTimeout = null;
     }
+
+    this.osdMessage.destroy();
+    this.subtitleRenderer.destroy();
+    this.listeners.abort();
+    this.events.clear();
+    this.wrapper.remove();
   }
 
   /**
-   * Устанавливает время воспроизведения
+   * Создает индикатор загрузки
    */
-  seekTo(time: number): void {
-    if (this.videoElement) {
-      this.videoElement.currentTime = time;
+  private createLoadingIndicator() {
+    const loadingOverlay = document.createElement('div');
+    loadingOverlay.className = 'loading-overlay';
+    loadingOverlay.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0,0,0,0.9);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      flex-direction: column;
+      z-index: 100;
+      transition: opacity 0.4s ease;
+      backdrop-filter: blur(10px);
+    `;
+
+    const spinner = document.createElement('div');
+    spinner.style.cssText = `
+      width: 60px;
+      height: 60px;
+      border: 4px solid rgba(255,255,255,0.2);
+      border-top: 4px solid #00d4ff;
+      border-radius: 50%;
+      animation: spin 1.2s linear infinite;
+      margin-bottom: 20px;
+      box-shadow: 0 0 20px rgba(0,212,255,0.3);
+    `;
+
+    const loadingText = document.createElement('div');
+    loadingText.textContent = 'Загрузка видео...';
+    loadingText.style.cssText = `
+      color: white;
+      font-size: 16px;
+      font-weight: 600;
+      text-shadow: 0 2px 4px rgba(0,0,0,0.5);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+
+    // Добавляем CSS анимацию
+    if (!document.querySelector('#animestars-animations')) {
+      const style = document.createElement('style');
+      style.id = 'animestars-animations';
+      style.textContent = `
+        @keyframes spin {
+          0% { transform: rotate(0deg); }
+          100% { transform: rotate(360deg); }
+        }
+        @keyframes fadeIn {
+          from { opacity: 0; transform: scale(0.9); }
+          to { opacity: 1; transform: scale(1); }
+        }
+        @keyframes slideUp {
+          from { transform: translateY(10px); opacity: 0; }
+          to { transform: translateY(0); opacity: 1; }
+        }
+      `;
+      document.head.appendChild(style);
     }
+
+    loadingOverlay.appendChild(spinner);
+    loadingOverlay.appendChild(loadingText);
+    this.wrapper.appendChild(loadingOverlay);
+
+    this.loadingOverlay = loadingOverlay;
   }
 
   /**
-   * Получает текущее время воспроизведения
+   * Создает центральную кнопку воспроизведения
    */
-  getCurrentTime(): number {
-    return this.videoElement?.currentTime || 0;
+  private createCenterPlayButton() {
+    const centerButton = document.createElement('div');
+    centerButton.className = 'center-play-button';
+    centerButton.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      width: 90px;
+      height: 90px;
+      background: rgba(0,0,0,0.8);
+      border: 3px solid rgba(255,255,255,0.9);
+      border-radius: 50%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      cursor: pointer;
+      z-index: 50;
+      transition: all 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(10px);
+      box-shadow: 0 8px 32px rgba(0,0,0,0.4);
+    `;
+
+    centerButton.innerHTML = `
+      <svg width="36" height="36" viewBox="0 0 24 24" fill="white">
+        <path d="M8 5v14l11-7z"/>
+      </svg>
+    `;
+
+    centerButton.addEventListener('mouseenter', () => {
+      centerButton.style.transform = 'translate(-50%, -50%) scale(1.1)';
+      centerButton.style.background = 'rgba(0,123,255,0.9)';
+      centerButton.style.borderColor = 'rgba(0,123,255,1)';
+      centerButton.style.boxShadow = '0 12px 40px rgba(0,123,255,0.4)';
+    });
+
+    centerButton.addEventListener('mouseleave', () => {
+      centerButton.style.transform = 'translate(-50%, -50%) scale(1)';
+      centerButton.style.background = 'rgba(0,0,0,0.8)';
+      centerButton.style.borderColor = 'rgba(255,255,255,0.9)';
+      centerButton.style.boxShadow = '0 8px 32px rgba(0,0,0,0.4)';
+    });
+
+    centerButton.addEventListener('mousedown', () => {
+      centerButton.style.transform = 'translate(-50%, -50%) scale(0.95)';
+    });
+
+    centerButton.addEventListener('mouseup', () => {
+      centerButton.style.transform = 'translate(-50%, -50%) scale(1.1)';
+    });
+
+    centerButton.addEventListener('click', (e) => {
+      e.stopPropagation(); // Предотвращаем всплытие события
+      e.preventDefault(); // Предотвращаем действие по умолчанию
+      this.togglePlay();
+    });
+
+    this.wrapper.appendChild(centerButton);
+    this.centerPlayButton = centerButton;
   }
 
   /**
-   * Получает общую длительность видео
+   * Создает базовые контролы: прогресс, воспроизведение, время, громкость, качество, полный экран
    */
-  getDuration(): number {
-    return this.videoElement?.duration || 0;
+  private createControls() {
+    const controlsBar = document.createElement('div');
+    controlsBar.className = 'custom-controls';
+    controlsBar.style.cssText = `
+      position: absolute;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background: linear-gradient(transparent, rgba(0,0,0,0.9));
+      padding: 30px 20px 20px;
+      transform: translateY(0);
+      transition: all 0.4s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      z-index: 60;
+      backdrop-filter: blur(10px);
+    `;
+
+    // Полоса прогресса
+    const progressContainer = document.createElement('div');
+    progressContainer.style.cssText = `
+      width: 100%;
+      height: 8px;
+      background: rgba(255,255,255,0.2);
+      border-radius: 4px;
+      margin-bottom: 16px;
+      cursor: pointer;
+      position: relative;
+      box-shadow: inset 0 1px 3px rgba(0,0,0,0.3);
+    `;
+
+    const progressBar = document.createElement('div');
+    progressBar.style.cssText = `
+      height: 100%;
+      background: linear-gradient(90deg, #00d4ff, #007bff);
+      border-radius: 4px;
+      width: 0%;
+      transition: width 0.2s ease;
+      box-shadow: 0 2px 8px rgba(0,123,255,0.3);
+    `;
+
+    const bufferedBar = document.createElement('div');
+    bufferedBar.className = 'buffered-bar';
+    bufferedBar.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      height: 100%;
+      background: rgba(255,255,255,0.3);
+      border-radius: 4px;
+      width: 0%;
+    `;
+
+    // Отметки на полосе прогресса
+    const timelineLayer = document.createElement('div');
+    timelineLayer.className = 'skip-markers-layer';
+    timelineLayer.style.cssText = `
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+      z-index: 1;
+    `;
+
+    progressContainer.appendChild(bufferedBar);
+    progressContainer.appendChild(progressBar);
+    progressContainer.appendChild(timelineLayer);
+
+    progressContainer.addEventListener('click', (e) => {
+      const rect = progressContainer.getBoundingClientRect();
+      const percent = (e.clientX - rect.left) / rect.width;
+      this.videoElement.currentTime = percent * this.videoElement.duration;
+    });
+
+    // Контролы
+    const controlsRow = document.createElement('div');
+    controlsRow.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      color: white;
+    `;
+
+    // Кнопка воспроизведения
+    const playButton = FastVideoPlayer.createControlButton('play', `
+      <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M8 5v14l11-7z"/>
+      </svg>
+    `);
+    playButton.addEventListener('click', () => this.togglePlay());
+
+    // Информация о времени
+    const timeInfo = document.createElement('span');
+    timeInfo.style.cssText = `
+      font-size: 14px;
+      font-weight: 600;
+      min-width: 110px;
+      text-shadow: 0 1px 2px rgba(0,0,0,0.5);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    timeInfo.textContent = '00:00 / 00:00';
+
+    // Spacer для выравнивания
+    const spacer = document.createElement('div');
+    spacer.style.cssText = `flex: 1;`;
+
+    // Громкость
+    const volumeContainer = document.createElement('div');
+    volumeContainer.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    `;
+
+    const volumeButton = FastVideoPlayer.createControlButton('volume', `
+      <svg width="22" height="22" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v2.21l2.45 2.45c.03-.2.05-.41.05-.63zm2.5 0c0 .94-.2 1.82-.54 2.64l1.51 1.51C20.63 14.91 21 13.5 21 12c0-4.28-2.99-7.86-7-8.77v2.06c2.89.86 5 3.54 5 6.71zM4.27 3L3 4.27 7.73 9H3v6h4l5 5v-6.73l4.25 4.25c-.67.52-1.42.93-2.25 1.18v2.06c1.38-.31 2.63-.95 3.69-1.81L19.73 21 21 19.73l-9-9L4.27 3zM12 4L9.91 6.09 12 8.18V4z"/>
+    `);
+    volumeButton.addEventListener('click', () => this.toggleMute());
+
+    const volumeSlider = document.createElement('input');
+    volumeSlider.type = 'range';
+    volumeSlider.min = '0';
+    volumeSlider.max = '100';
+    volumeSlider.value = '100';
+    volumeSlider.style.cssText = `
+      width: 90px;
+      height: 6px;
+      background: rgba(255,255,255,0.3);
+      border-radius: 3px;
+      outline: none;
+      cursor: pointer;
+      -webkit-appearance: none;
+      appearance: none;
+    `;
+    volumeSlider.addEventListener('input', () => {
+      this.videoElement.volume = parseInt(volumeSlider.value) / 100;
+    });
+
+    // Добавляем стили для ползунка через CSS (один блок на страницу, плеер пересоздается при перезагрузке)
+    if (!document.querySelector('#animestars-range-sliders')) {
+      const style = document.createElement('style');
+      style.id = 'animestars-range-sliders';
+      style.textContent = `
+        input[type="range"]::-webkit-slider-thumb {
+          -webkit-appearance: none;
+          appearance: none;
+          width: 16px;
+          height: 16px;
+          border-radius: 50%;
+          background: #00d4ff;
+          cursor: pointer;
+          box-shadow: 0 2px 8px rgba(0,212,255,0.4);
+          transition: all 0.2s ease;
+        }
+
+        input[type="range"]::-webkit-slider-thumb:hover {
+          transform: scale(1.2);
+          box-shadow: 0 4px 12px rgba(0,212,255,0.6);
+        }
+
+        input[type="range"]::-moz-range-thumb {
+          width: 16px;
+          height: 16px;
+          border-radius: 50%;
+          background: #00d4ff;
+          cursor: pointer;
+          border: none;
+          box-shadow: 0 2px 8px rgba(0,212,255,0.4);
+        }
+      `;
+      document.head.appendChild(style);
+    }
+
+    // Полноэкранная кнопка
+    const fullscreenButton = FastVideoPlayer.createControlButton('fullscreen', `
+      <svg width="22" height="22" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z"/>
+      </svg>
+    `);
+    fullscreenButton.addEventListener('click', () => this.toggleFullscreen());
+
+    volumeContainer.appendChild(volumeButton);
+    volumeContainer.appendChild(volumeSlider);
+
+    controlsRow.appendChild(playButton);
+    controlsRow.appendChild(timeInfo);
+    controlsRow.appendChild(spacer);
+    controlsRow.appendChild(volumeContainer);
+    controlsRow.appendChild(this.qualityMenu.element);
+    controlsRow.appendChild(fullscreenButton);
+
+    controlsBar.appendChild(progressContainer);
+    controlsBar.appendChild(controlsRow);
+    this.wrapper.appendChild(controlsBar);
+
+    this.controlsBar = controlsBar;
+    this.controlsRow = controlsRow;
+    this.playButton = playButton;
+    this.volumeButton = volumeButton;
+    this.volumeSlider = volumeSlider;
+    this.timeInfo = timeInfo;
+    this.progressBar = progressBar;
+    this.bufferedBar = bufferedBar;
+    this.timelineLayer = timelineLayer;
   }
 
   /**
-   * Проверяет, инициализирован ли плеер
+   * Кнопки предыдущей и следующей серии после кнопки воспроизведения, скрыты до setEpisodeNavigation()
    */
-  isReady(): boolean {
-    return this.isInitialized && !!this.videoElement;
+  private createEpisodeNavigation() {
+    this.previousEpisodeButton = FastVideoPlayer.createControlButton('prev-episode', `
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z"/>
+      </svg>
+    `);
+    this.previousEpisodeButton.title = 'Предыдущий эпизод';
+    this.previousEpisodeButton.addEventListener('click', () => this.emit('previousepisode', undefined));
+
+    this.nextEpisodeButton = FastVideoPlayer.createControlButton('next-episode', `
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/>
+      </svg>
+    `);
+    this.nextEpisodeButton.title = 'Следующий эпизод';
+    this.nextEpisodeButton.addEventListener('click', () => this.emit('nextepisode', undefined));
+
+    this.addControl(this.previousEpisodeButton, 'start');
+    this.addControl(this.nextEpisodeButton, 'start');
+    this.setEpisodeNavigation(false, false);
   }
 
   /**
-   * Уничтожает плеер и освобождает ресурсы
+   * Обновляет интерфейс по событиям видео и пересылает их подписчикам
    */
-  destroy(): void {
-    console.log('🗑️ Destroying fast video player...');
+  private setupVideoEvents() {
+    const video = this.videoElement;
 
-    // Останавливаем HLS плеер
-    if (this.hlsPlayer) {
-      this.hlsPlayer.destroy();
-      this.hlsPlayer = null;
+    video.addEventListener('loadstart', () => {
+      console.log('📺 Video loading started');
+      this.setLoading(true);
+    });
+
+    video.addEventListener('canplay', () => {
+      console.log('📺 Video can start playing');
+      this.setLoading(false);
+      this.centerPlayButton.style.display = 'none';
+    });
+
+    video.addEventListener('waiting', () => {
+      this.setLoading(true);
+    });
+
+    video.addEventListener('playing', () => {
+      this.setLoading(false);
+      this.centerPlayButton.style.display = 'none';
+      this.playButton.innerHTML = PAUSE_ICON;
+    });
+
+    video.addEventListener('pause', () => {
+      this.playButton.innerHTML = PLAY_ICON;
+      this.centerPlayButton.style.display = 'flex';
+    });
+
+    video.addEventListener('timeupdate', () => this.updateProgress());
+    video.addEventListener('durationchange', () => this.renderTimelineMarks());
+    video.addEventListener('progress', () => this.updateBuffered());
+
+    video.addEventListener('ended', () => {
+      this.centerPlayButton.style.display = 'flex';
+    });
+
+    for (const event of MEDIA_EVENTS) {
+      video.addEventListener(event, () => this.emit(event, undefined));
     }
+  }
 
-    // Останавливаем видео
-    if (this.videoElement) {
-      this.videoElement.pause();
-      this.videoElement.src = '';
-      this.videoElement.load();
-      this.videoElement.remove();
-      this.videoElement = null;
+  /**
+   * Клик по видео — пауза, движение мыши показывает контролы;
+   * в полноэкранном режиме обработчики висят на document
+   */
+  private setupMouseControls() {
+    const container = this.wrapper;
+    let isMouseMoving = false;
+
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+
+      // Не обрабатываем клики по кнопкам, input и контролам
+      if (target.closest('button') ||
+          target.closest('input') ||
+          target.closest('.custom-controls')) {
+        return;
+      }
+
+      if (target === this.videoElement || target === container) {
+        this.togglePlay();
+      }
+    };
+
+    const handleMouseMove = () => {
+      this.showControls();
+      isMouseMoving = true;
+
+      if (this.controlsHideTimeout) {
+        clearTimeout(this.controlsHideTimeout);
+      }
+
+      this.controlsHideTimeout = window.setTimeout(() => {
+        if (!isMouseMoving) this.hideControls();
+        isMouseMoving = false;
+      }, CONTROLS_HIDE_DELAY);
+    };
+
+    container.addEventListener('click', handleClick);
+    container.addEventListener('mousemove', handleMouseMove);
+    container.addEventListener('mouseleave', () => this.hideControls());
+
+    document.addEventListener('fullscreenchange', () => {
+      if (document.fullscreenElement) {
+        document.addEventListener('click', handleClick, { signal: this.listeners.signal });
+        document.addEventListener('mousemove', handleMouseMove, { signal: this.listeners.signal });
+        console.log('🔍 Fullscreen mode enabled - global controls active');
+      } else {
+        document.removeEventListener('click', handleClick);
+        document.removeEventListener('mousemove', handleMouseMove);
+        this.showControls(); // Показываем контролы при выходе из полноэкранного режима
+        console.log('🔍 Fullscreen mode disabled - local controls only');
+      }
+    }, { signal: this.listeners.signal });
+  }
+
+  /**
+   * Перетаскивание файла на плеер (свои субтитры)
+   */
+  private setupFileDrop() {
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types || []).includes('Files');
+
+    this.wrapper.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    });
+
+    this.wrapper.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (file) {
+        this.emit('subtitlefile', file);
+      }
+    });
+  }
+
+  private setLoading(isLoading: boolean) {
+    this.loadingOverlay.style.display = isLoading ? 'flex' : 'none';
+  }
+
+  /**
+   * Обновляет полосу прогресса и время
+   */
+  private updateProgress() {
+    const percent = (this.videoElement.currentTime / this.videoElement.duration) * 100;
+    this.progressBar.style.width = `${percent}%`;
+
+    const current = this.formatTime(this.videoElement.currentTime);
+    const duration = this.formatTime(this.videoElement.duration);
+    this.timeInfo.textContent = `${current} / ${duration}`;
+  }
+
+  /**
+   * Перерисовывает отметки на полосе прогресса под текущую длительность
+   */
+  private renderTimelineMarks() {
+    this.timelineLayer.innerHTML = '';
+    const duration = this.videoElement.duration;
+    if (!duration || !isFinite(duration)) return;
+
+    for (const mark of this.timelineMarks) {
+      const segment = document.createElement('div');
+      segment.style.cssText = `
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        left: ${Math.min(100, (mark.start / duration) * 100)}%;
+        width: ${Math.min(100, ((mark.end - mark.start) / duration) * 100)}%;
+        background: rgba(255,193,7,0.55);
+        border-radius: 4px;
+      `;
+      this.timelineLayer.appendChild(segment);
     }
+  }
 
-    // Убираем контролы
-    if (this.controlsContainer) {
-      this.controlsContainer.remove();
-      this.controlsContainer = null;
+  /**
+   * Обновляет полосу буферизации
+   */
+  private updateBuffered() {
+    if (this.videoElement.buffered.length > 0) {
+      const bufferedEnd = this.videoElement.buffered.end(this.videoElement.buffered.length - 1);
+      const percent = (bufferedEnd / this.videoElement.duration) * 100;
+      this.bufferedBar.style.width = `${percent}%`;
     }
+  }
+
+  /**
+   * Форматирует время в формат mm:ss
+   */
+  private formatTime(seconds: number): string {
+    if (isNaN(seconds)) return '00:00';
 
-    this.isInitialized = false;
-    this.isPlaying = false;
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
 
-    console.log('✅ Fast video player destroyed');
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
   }
 }
@@ -0,0 +1,162 @@
+// Окно со списком горячих клавиш плеера (открывается по «?»)
+
+import { KeyAction, KeymapSettings } from '../types/keymap';
+import { KeymapManager } from '../utils/keymap-manager';
+
+export class KeymapHelpOverlay {
+  private overlay: HTMLElement;
+  private list: HTMLElement;
+  private visible = false;
+
+  constructor() {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'keymap-help-overlay';
+    this.overlay.style.cssText = `
+      position: absolute;
+      inset: 0;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0,0,0,0.75);
+      z-index: 80;
+      cursor: default;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.overlay.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (e.target === this.overlay) this.hide();
+    });
+
+    const panel = document.createElement('div');
+    panel.style.cssText = `
+      max-width: 560px;
+      width: calc(100% - 48px);
+      max-height: calc(100% - 48px);
+      overflow-y: auto;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 12px;
+      padding: 16px 20px;
+      color: white;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+    `;
+
+    const title = document.createElement('div');
+    title.textContent = 'Горячие клавиши';
+    title.style.cssText = `
+      font-size: 16px;
+      font-weight: 700;
+      margin-bottom: 12px;
+    `;
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = `
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 6px 16px;
+      font-size: 13px;
+    `;
+
+    const hint = document.createElement('div');
+    hint.textContent = 'Клавиши настраиваются на странице настроек расширения';
+    hint.style.cssText = `
+      margin-top: 12px;
+      font-size: 12px;
+      color: rgba(255,255,255,0.5);
+    `;
+
+    panel.append(title, this.list, hint);
+    this.overlay.appendChild(panel);
+  }
+
+  /**
+   * Корневой элемент для вставки в обертку плеера
+   */
+  get element(): HTMLElement {
+    return this.overlay;
+  }
+
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Перерисовывает список по активной раскладке
+   */
+  setKeymap(keymap: KeymapSettings) {
+    this.list.innerHTML = '';
+
+    for (const action of Object.keys(keymap.bindings) as KeyAction[]) {
+      const keys = keymap.bindings[action];
+      if (keys.length === 0) continue;
+
+      this.addRow(this.describeAction(action, keymap), keys.map(key => KeymapManager.formatKey(key)));
+    }
+
+    if (keymap.digitSeek) {
+      this.addRow('Перейти к 0–90% серии', ['0 … 9']);
+    }
+    this.addRow('Закрыть / выйти из полноэкранного режима', ['Esc']);
+  }
+
+  toggle() {
+    this.visible ? this.hide() : this.show();
+  }
+
+  show() {
+    this.visible = true;
+    this.overlay.style.display = 'flex';
+  }
+
+  hide() {
+    this.visible = false;
+    this.overlay.style.display = 'none';
+  }
+
+  private describeAction(action: KeyAction, keymap: KeymapSettings): string {
+    const label = KeymapManager.ACTION_LABELS[action];
+    switch (action) {
+      case 'seekBackward':
+      case 'seekForward':
+        return `${label} на ${keymap.seekStep} с`;
+      case 'seekBackwardLong':
+      case 'seekForwardLong':
+        return `${label} на ${keymap.longSeekStep} с`;
+      case 'volumeUp':
+      case 'volumeDown':
+        return `${label} на ${keymap.volumeStep}%`;
+      default:
+        return label;
+    }
+  }
+
+  private addRow(label: string, keys: string[]) {
+    const labelCell = document.createElement('div');
+    labelCell.textContent = label;
+    labelCell.style.color = 'rgba(255,255,255,0.85)';
+
+    const keysCell = document.createElement('div');
+    keysCell.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: flex-end;
+      gap: 4px;
+    `;
+    for (const key of keys) {
+      const chip = document.createElement('kbd');
+      chip.textContent = key;
+      chip.style.cssText = `
+        background: rgba(255,255,255,0.12);
+        border: 1px solid rgba(255,255,255,0.2);
+        border-radius: 4px;
+        padding: 2px 6px;
+        font-size: 12px;
+        font-family: inherit;
+        white-space: nowrap;
+      `;
+      keysCell.appendChild(chip);
+    }
+
+    this.list.append(labelCell, keysCell);
+  }
+}
@@ -0,0 +1,173 @@
+// Карточка перехода к следующей серии: обратный отсчет и вопрос «Вы ещё смотрите?»
+
+interface NextEpisodeCardHandlers {
+  onPlayNow: (auto: boolean) => void; // auto — отсчет закончился сам, иначе нажата «Смотреть сейчас» или «Продолжить»
+  onCancel: () => void;
+}
+
+export class NextEpisodeCard {
+  private card: HTMLElement;
+  private title: HTMLElement;
+  private subtitle: HTMLElement;
+  private progress: HTMLElement;
+  private primaryButton: HTMLButtonElement;
+  private secondaryButton: HTMLButtonElement;
+  private countdownTimer: number | null = null;
+  private visible = false;
+
+  constructor(private handlers: NextEpisodeCardHandlers) {
+    this.card = document.createElement('div');
+    this.card.className = 'next-episode-card';
+    this.card.style.cssText = `
+      position: absolute;
+      right: 24px;
+      bottom: 130px;
+      width: 280px;
+      display: none;
+      flex-direction: column;
+      gap: 10px;
+      background: rgba(20,20,20,0.92);
+      border: 1px solid rgba(255,255,255,0.15);
+      border-radius: 12px;
+      padding: 14px 16px;
+      color: white;
+      z-index: 66;
+      cursor: default;
+      overflow: hidden;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.card.addEventListener('click', (e) => e.stopPropagation());
+
+    this.title = document.createElement('div');
+    this.title.style.cssText = `
+      font-size: 15px;
+      font-weight: 700;
+    `;
+
+    this.subtitle = document.createElement('div');
+    this.subtitle.style.cssText = `
+      font-size: 13px;
+      color: rgba(255,255,255,0.7);
+    `;
+
+    const actions = document.createElement('div');
+    actions.style.cssText = `
+      display: flex;
+      gap: 8px;
+    `;
+    this.primaryButton = this.createButton('rgba(0,123,255,0.9)');
+    this.primaryButton.addEventListener('click', () => {
+      this.hide();
+      this.handlers.onPlayNow(false);
+    });
+    this.secondaryButton = this.createButton('rgba(255,255,255,0.15)');
+    this.secondaryButton.addEventListener('click', () => {
+      this.hide();
+      this.handlers.onCancel();
+    });
+    actions.append(this.primaryButton, this.secondaryButton);
+
+    // Полоска оставшегося времени отсчета
+    this.progress = document.createElement('div');
+    this.progress.style.cssText = `
+      position: absolute;
+      left: 0;
+      bottom: 0;
+      height: 3px;
+      width: 100%;
+      background: #00d4ff;
+    `;
+
+    this.card.append(this.title, this.subtitle, actions, this.progress);
+  }
+
+  /**
+   * Корневой элемент для вставки в обертку плеера
+   */
+  get element(): HTMLElement {
+    return this.card;
+  }
+
+  get isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * Показывает отсчет до следующей серии, по окончании вызывает onPlayNow
+   */
+  showCountdown(seconds: number, nextLabel: string) {
+    this.stopCountdown();
+    this.subtitle.textContent = nextLabel;
+    this.primaryButton.textContent = 'Смотреть сейчас';
+    this.secondaryButton.textContent = 'Отмена';
+    this.progress.style.display = 'block';
+    this.show();
+
+    const startedAt = Date.now();
+    const tick = () => {
+      const left = Math.max(0, seconds - (Date.now() - startedAt) / 1000);
+      this.title.textContent = `Следующая серия через ${Math.ceil(left)} с`;
+      this.progress.style.width = `${seconds > 0 ? (left / seconds) * 100 : 0}%`;
+
+      if (left <= 0) {
+        this.hide();
+        this.handlers.onPlayNow(true);
+      }
+    };
+
+    tick();
+    if (this.visible) {
+      this.countdownTimer = window.setInterval(tick, 250);
+    }
+  }
+
+  /**
+   * Спрашивает, продолжает ли пользователь смотреть, без автоматического перехода
+   */
+  showStillWatching(nextLabel: string) {
+    this.stopCountdown();
+    this.title.textContent = 'Вы ещё смотрите?';
+    this.subtitle.textContent = nextLabel;
+    this.primaryButton.textContent = 'Продолжить';
+    this.secondaryButton.textContent = 'Остановиться';
+    this.progress.style.display = 'none';
+    this.show();
+  }
+
+  hide() {
+    this.stopCountdown();
+    this.visible = false;
+    this.card.style.display = 'none';
+  }
+
+  private show() {
+    this.visible = true;
+    this.card.style.display = 'flex';
+  }
+
+  private stopCountdown() {
+    if (this.countdownTimer) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+  }
+
+  private createButton(background: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.style.cssText = `
+      flex: 1;
+      background: ${background};
+      border: none;
+      color: white;
+      padding: 8px 10px;
+      border-radius: 8px;
+      cursor: pointer;
+      font-size: 13px;
+      font-weight: 600;
+      font-family: inherit;
+    `;
+    return button;
+  }
+}
@@ -0,0 +1,57 @@
+// Короткое сообщение поверх видео: сдвиг субтитров, ошибки загрузки файла
+
+const HIDE_DELAY = 1500;
+
+export class OsdMessage {
+  private message: HTMLElement;
+  private hideTimeout: number | null = null;
+
+  constructor() {
+    this.message = document.createElement('div');
+    this.message.className = 'osd-message';
+    this.message.style.cssText = `
+      position: absolute;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: rgba(0,0,0,0.75);
+      color: white;
+      padding: 8px 16px;
+      border-radius: 8px;
+      font-size: 14px;
+      font-weight: 600;
+      z-index: 67;
+      pointer-events: none;
+      opacity: 0;
+      transition: opacity 0.3s ease;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+  }
+
+  get element(): HTMLElement {
+    return this.message;
+  }
+
+  /**
+   * Показывает текст и прячет его через HIDE_DELAY; новое сообщение продлевает показ
+   */
+  show(text: string) {
+    this.message.textContent = text;
+    this.message.style.opacity = '1';
+    this.clearTimeout();
+    this.hideTimeout = window.setTimeout(() => {
+      this.message.style.opacity = '0';
+    }, HIDE_DELAY);
+  }
+
+  destroy() {
+    this.clearTimeout();
+  }
+
+  private clearTimeout() {
+    if (this.hideTimeout) {
+      clearTimeout(this.hideTimeout);
+      this.hideTimeout = null;
+    }
+  }
+}
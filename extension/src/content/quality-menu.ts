@@ -0,0 +1,175 @@
+// Меню выбора качества для кастомного плеера
+// Показывает качества из ответа Kodik и режим "Авто" (ABR в HLS.js)
+
+import { closeOnOutsideClick } from './dropdown';
+
+export type QualityChoice = number | 'auto';
+
+export class QualityMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private qualities: number[] = [];
+  private selected: QualityChoice = 'auto';
+  private autoAvailable = false;
+  private autoQuality: number | null = null;
+  private isOpen = false;
+
+  constructor(private onSelect: (choice: QualityChoice) => void, signal: AbortSignal) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'quality-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+      display: none;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-quality';
+    this.button.title = 'Качество';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      min-width: 64px;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'quality-menu-list';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      min-width: 140px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 6px;
+      display: none;
+      flex-direction: column;
+      gap: 2px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+    `;
+
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Задает список качеств и текущий выбор
+   */
+  setQualities(qualities: number[], selected: QualityChoice, autoAvailable: boolean) {
+    this.qualities = [...qualities].sort((a, b) => b - a);
+    this.selected = selected;
+    this.autoAvailable = autoAvailable;
+    this.autoQuality = null;
+    this.wrapper.style.display = this.qualities.length > 0 ? 'block' : 'none';
+    this.render();
+  }
+
+  /**
+   * Отмечает выбранное качество
+   */
+  setSelected(selected: QualityChoice) {
+    this.selected = selected;
+    this.render();
+  }
+
+  /**
+   * Обновляет качество, выбранное ABR в режиме "Авто"
+   */
+  setAutoQuality(quality: number | null) {
+    this.autoQuality = quality;
+    this.updateButtonLabel();
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+
+  private render() {
+    this.menu.innerHTML = '';
+
+    const choices: QualityChoice[] = this.autoAvailable ? ['auto', ...this.qualities] : [...this.qualities];
+    for (const choice of choices) {
+      const item = document.createElement('button');
+      const isActive = choice === this.selected;
+      item.className = 'quality-menu-item';
+      item.dataset.quality = String(choice);
+      item.textContent = choice === 'auto' ? 'Авто' : `${choice}p`;
+      item.style.cssText = `
+        background: ${isActive ? 'rgba(0,123,255,0.8)' : 'transparent'};
+        border: none;
+        color: white;
+        text-align: left;
+        padding: 8px 12px;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 13px;
+        font-weight: ${isActive ? '700' : '500'};
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      `;
+      item.addEventListener('mouseenter', () => {
+        if (choice !== this.selected) item.style.background = 'rgba(255,255,255,0.1)';
+      });
+      item.addEventListener('mouseleave', () => {
+        if (choice !== this.selected) item.style.background = 'transparent';
+      });
+      item.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.close();
+        if (choice !== this.selected) {
+          this.setSelected(choice);
+          this.onSelect(choice);
+        }
+      });
+      this.menu.appendChild(item);
+    }
+
+    this.updateButtonLabel();
+  }
+
+  private updateButtonLabel() {
+    if (this.selected === 'auto') {
+      this.button.textContent = this.autoQuality ? `Авто · ${this.autoQuality}p` : 'Авто';
+    } else {
+      this.button.textContent = `${this.selected}p`;
+    }
+  }
+}
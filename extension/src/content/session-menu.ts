@@ -0,0 +1,155 @@
+// Меню ограничения сессии: «посмотреть ещё N серий и остановиться»
+
+import { closeOnOutsideClick } from './dropdown';
+
+const SESSION_LIMITS = [1, 2, 3, 5];
+
+export class SessionMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private remaining: number | null = null;
+  private isOpen = false;
+
+  constructor(private onSelect: (limit: number | null) => void, signal: AbortSignal) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'session-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-session';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'session-menu-list';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      min-width: 200px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 6px;
+      display: none;
+      flex-direction: column;
+      gap: 2px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+    `;
+
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+
+    this.render();
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Показывает, сколько серий осталось до остановки (null — без ограничения)
+   */
+  setRemaining(remaining: number | null) {
+    this.remaining = remaining;
+    this.render();
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+
+  private render() {
+    this.menu.innerHTML = '';
+
+    const choices: Array<number | null> = [null, ...SESSION_LIMITS];
+    for (const choice of choices) {
+      const item = document.createElement('button');
+      const isActive = choice === this.remaining;
+      item.className = 'session-menu-item';
+      item.textContent = choice === null ? 'Без ограничений' : `Ещё ${formatEpisodes(choice)} и стоп`;
+      item.style.cssText = `
+        background: ${isActive ? 'rgba(0,123,255,0.8)' : 'transparent'};
+        border: none;
+        color: white;
+        text-align: left;
+        padding: 8px 12px;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 13px;
+        font-weight: ${isActive ? '700' : '500'};
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      `;
+      item.addEventListener('mouseenter', () => {
+        if (choice !== this.remaining) item.style.background = 'rgba(255,255,255,0.1)';
+      });
+      item.addEventListener('mouseleave', () => {
+        if (choice !== this.remaining) item.style.background = 'transparent';
+      });
+      item.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.close();
+        this.setRemaining(choice);
+        this.onSelect(choice);
+      });
+      this.menu.appendChild(item);
+    }
+
+    if (this.remaining === null) {
+      this.button.textContent = '∞';
+      this.button.title = 'Ограничить количество серий подряд';
+    } else {
+      this.button.textContent = `⏹ ${this.remaining}`;
+      this.button.title = this.remaining === 0
+        ? 'Остановиться после этой серии'
+        : `Остановиться через ${formatEpisodes(this.remaining)}`;
+    }
+  }
+}
+
+function formatEpisodes(count: number): string {
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 === 1 && mod100 !== 11) return `${count} серию`;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return `${count} серии`;
+  return `${count} серий`;
+}
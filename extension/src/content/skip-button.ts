@@ -0,0 +1,46 @@
+// Кнопка пропуска опенинга/эндинга поверх видео
+
+export class SkipButton {
+  private button: HTMLButtonElement;
+
+  constructor(onSkip: () => void) {
+    this.button = document.createElement('button');
+    this.button.className = 'skip-segment-btn';
+    this.button.title = 'Пропустить (S)';
+    this.button.style.cssText = `
+      position: absolute;
+      right: 24px;
+      bottom: 130px;
+      display: none;
+      background: rgba(20,20,20,0.85);
+      border: 1px solid rgba(255,255,255,0.3);
+      color: white;
+      padding: 12px 20px;
+      border-radius: 8px;
+      cursor: pointer;
+      font-size: 15px;
+      font-weight: 600;
+      z-index: 65;
+      backdrop-filter: blur(5px);
+      box-shadow: 0 4px 16px rgba(0,0,0,0.4);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onSkip();
+    });
+  }
+
+  get element(): HTMLElement {
+    return this.button;
+  }
+
+  show(label: string) {
+    this.button.textContent = label;
+    this.button.style.display = 'block';
+  }
+
+  hide() {
+    this.button.style.display = 'none';
+  }
+}
@@ -0,0 +1,214 @@
+// Меню отметок опенинга и эндинга для кастомного плеера
+// Отметки ставятся по текущей позиции видео: для всего сериала или только для этой серии
+
+import { ResolvedSkipMarkers, SkipMarkerScope, SkipSegmentType } from '../types/progress';
+import { closeOnOutsideClick } from './dropdown';
+
+export type SkipMenuAction =
+  | { kind: 'mark'; type: SkipSegmentType; edge: 'start' | 'end'; scope: SkipMarkerScope }
+  | { kind: 'none'; type: SkipSegmentType } // в этой серии сегмента нет
+  | { kind: 'clear'; type: SkipSegmentType; scope: SkipMarkerScope };
+
+const SEGMENT_TITLES: Record<SkipSegmentType, string> = {
+  opening: 'Опенинг',
+  ending: 'Эндинг'
+};
+
+export class SkipMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private scopeCheckbox: HTMLInputElement;
+  private statusElements = new Map<SkipSegmentType, HTMLElement>();
+  private isOpen = false;
+
+  constructor(private onAction: (action: SkipMenuAction) => void, signal: AbortSignal) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'skip-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-skip-markers';
+    this.button.title = 'Отметки опенинга и эндинга';
+    this.button.textContent = 'OP/ED';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'skip-menu-panel';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      width: 250px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 10px;
+      display: none;
+      flex-direction: column;
+      gap: 10px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+      color: white;
+      font-size: 13px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.menu.addEventListener('click', (e) => e.stopPropagation());
+
+    for (const type of ['opening', 'ending'] as SkipSegmentType[]) {
+      this.menu.appendChild(this.createSegmentSection(type));
+    }
+
+    const scopeLabel = document.createElement('label');
+    scopeLabel.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      cursor: pointer;
+      color: rgba(255,255,255,0.8);
+    `;
+    this.scopeCheckbox = document.createElement('input');
+    this.scopeCheckbox.type = 'checkbox';
+    scopeLabel.append(this.scopeCheckbox, 'Только для этой серии');
+    this.menu.appendChild(scopeLabel);
+
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Показывает текущие отметки серии
+   */
+  setMarkers(markers: ResolvedSkipMarkers) {
+    for (const [type, status] of this.statusElements) {
+      const range = markers[type];
+      const source = markers.sources[type];
+
+      if (range) {
+        status.textContent = `${formatTime(range.start)} – ${formatTime(range.end)} · ${source === 'episode' ? 'серия' : 'сериал'}`;
+      } else {
+        status.textContent = source === 'episode' ? 'нет в этой серии' : 'не отмечен';
+      }
+    }
+  }
+
+  private get scope(): SkipMarkerScope {
+    return this.scopeCheckbox.checked ? 'episode' : 'series';
+  }
+
+  private createSegmentSection(type: SkipSegmentType): HTMLElement {
+    const section = document.createElement('div');
+
+    const header = document.createElement('div');
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 6px;
+    `;
+
+    const title = document.createElement('span');
+    title.style.fontWeight = '700';
+    title.textContent = SEGMENT_TITLES[type];
+
+    const status = document.createElement('span');
+    status.style.color = 'rgba(255,255,255,0.6)';
+    status.textContent = 'не отмечен';
+    this.statusElements.set(type, status);
+
+    header.append(title, status);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    `;
+    actions.append(
+      this.createActionButton('Начало', 'Отметить начало по текущей позиции', () => ({ kind: 'mark', type, edge: 'start', scope: this.scope })),
+      this.createActionButton('Конец', 'Отметить конец по текущей позиции', () => ({ kind: 'mark', type, edge: 'end', scope: this.scope })),
+      this.createActionButton('Нет', 'В этой серии сегмента нет', () => ({ kind: 'none', type })),
+      this.createActionButton('Сброс', 'Удалить отметку', () => ({ kind: 'clear', type, scope: this.scope }))
+    );
+
+    section.append(header, actions);
+    return section;
+  }
+
+  private createActionButton(label: string, title: string, action: () => SkipMenuAction): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.title = title;
+    button.style.cssText = `
+      flex: 1;
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      padding: 6px 8px;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 12px;
+      font-weight: 600;
+      font-family: inherit;
+    `;
+    button.addEventListener('mouseenter', () => {
+      button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    button.addEventListener('mouseleave', () => {
+      button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    button.addEventListener('click', () => this.onAction(action()));
+    return button;
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,180 @@
+// Меню скорости воспроизведения для кастомного плеера
+// Скорости 0.25×–3× и переключатель сохранения высоты звука
+
+import { PlaybackSpeedManager } from '../utils/playback-speed';
+import { closeOnOutsideClick } from './dropdown';
+
+export class SpeedMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private list: HTMLElement;
+  private pitchCheckbox: HTMLInputElement;
+  private rate = 1;
+  private isOpen = false;
+
+  constructor(
+    private onSelect: (rate: number) => void,
+    private onPreservePitchChange: (preservePitch: boolean) => void,
+    signal: AbortSignal
+  ) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'speed-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-speed';
+    this.button.title = 'Скорость воспроизведения';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      min-width: 52px;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'speed-menu-list';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      min-width: 170px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 6px;
+      display: none;
+      flex-direction: column;
+      gap: 6px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.menu.addEventListener('click', (e) => e.stopPropagation());
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = `
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 2px;
+    `;
+
+    const pitchLabel = document.createElement('label');
+    pitchLabel.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px 4px;
+      border-top: 1px solid rgba(255,255,255,0.1);
+      color: rgba(255,255,255,0.8);
+      font-size: 12px;
+      cursor: pointer;
+    `;
+    this.pitchCheckbox = document.createElement('input');
+    this.pitchCheckbox.type = 'checkbox';
+    this.pitchCheckbox.checked = true;
+    this.pitchCheckbox.addEventListener('change', () => {
+      this.onPreservePitchChange(this.pitchCheckbox.checked);
+    });
+    pitchLabel.append(this.pitchCheckbox, 'Сохранять высоту звука');
+
+    this.menu.append(this.list, pitchLabel);
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+
+    this.render();
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Отмечает текущую скорость
+   */
+  setRate(rate: number) {
+    this.rate = rate;
+    this.render();
+  }
+
+  setPreservePitch(preservePitch: boolean) {
+    this.pitchCheckbox.checked = preservePitch;
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+
+  private render() {
+    this.list.innerHTML = '';
+
+    for (const rate of PlaybackSpeedManager.RATES) {
+      const item = document.createElement('button');
+      const isActive = rate === this.rate;
+      item.className = 'speed-menu-item';
+      item.dataset.rate = String(rate);
+      item.textContent = PlaybackSpeedManager.formatRate(rate);
+      item.style.cssText = `
+        background: ${isActive ? 'rgba(0,123,255,0.8)' : 'transparent'};
+        border: none;
+        color: white;
+        padding: 8px 10px;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 13px;
+        font-weight: ${isActive ? '700' : '500'};
+        font-family: inherit;
+      `;
+      item.addEventListener('mouseenter', () => {
+        if (rate !== this.rate) item.style.background = 'rgba(255,255,255,0.1)';
+      });
+      item.addEventListener('mouseleave', () => {
+        if (rate !== this.rate) item.style.background = 'transparent';
+      });
+      item.addEventListener('click', () => {
+        this.close();
+        if (rate !== this.rate) {
+          this.setRate(rate);
+          this.onSelect(rate);
+        }
+      });
+      this.list.appendChild(item);
+    }
+
+    this.button.textContent = PlaybackSpeedManager.formatRate(this.rate);
+  }
+}
@@ -0,0 +1,350 @@
+// Меню субтитров для кастомного плеера: выбор дорожки, свой файл и оформление (размер, цвет, фон, отступ)
+
+import { SubtitleBackground, SubtitleSettings } from '../types/subtitles';
+import { LocalSubtitleStore } from '../utils/local-subtitle-store';
+import { SubtitleSettingsManager } from '../utils/subtitle-settings';
+import { closeOnOutsideClick } from './dropdown';
+
+interface SubtitleMenuHandlers {
+  onSelectTrack: (index: number | null) => void;
+  onSettingsChange: (settings: Partial<SubtitleSettings>) => void;
+  onLoadFile: (file: File) => void;
+  onOffsetChange: (delta: number | null) => void; // null — сбросить сдвиг
+  onRemoveFile: () => void;
+}
+
+// Свой файл субтитров текущей серии
+export interface LocalSubtitleInfo {
+  fileName: string;
+  offset: number;
+}
+
+const BACKGROUND_LABELS: Record<SubtitleBackground, string> = {
+  none: 'Нет',
+  semi: 'Полупрозрачный',
+  solid: 'Сплошной'
+};
+
+export class SubtitleMenu {
+  private wrapper: HTMLElement;
+  private button: HTMLButtonElement;
+  private menu: HTMLElement;
+  private trackList: HTMLElement;
+  private localSection: HTMLElement;
+  private styleSection: HTMLElement;
+  private fileInput: HTMLInputElement;
+  private localFile: LocalSubtitleInfo | null = null;
+  private tracks: string[] = [];
+  private selected: number | null = null;
+  private settings: SubtitleSettings = { ...SubtitleSettingsManager.DEFAULTS };
+  private isOpen = false;
+
+  constructor(private handlers: SubtitleMenuHandlers, signal: AbortSignal) {
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'subtitle-menu';
+    this.wrapper.style.cssText = `
+      position: relative;
+    `;
+
+    this.button = document.createElement('button');
+    this.button.className = 'control-btn control-btn-subtitles';
+    this.button.textContent = 'CC';
+    this.button.title = 'Субтитры';
+    this.button.style.cssText = `
+      background: rgba(255,255,255,0.1);
+      border: none;
+      color: white;
+      cursor: pointer;
+      padding: 10px 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 700;
+      transition: all 0.3s cubic-bezier(0.25, 0.46, 0.45, 0.94);
+      backdrop-filter: blur(5px);
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.button.addEventListener('mouseenter', () => {
+      this.button.style.background = 'rgba(255,255,255,0.2)';
+    });
+    this.button.addEventListener('mouseleave', () => {
+      this.button.style.background = 'rgba(255,255,255,0.1)';
+    });
+    this.button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.isOpen ? this.close() : this.open();
+    });
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'subtitle-menu-list';
+    this.menu.style.cssText = `
+      position: absolute;
+      bottom: calc(100% + 10px);
+      right: 0;
+      width: 240px;
+      background: rgba(20,20,20,0.95);
+      border: 1px solid rgba(255,255,255,0.1);
+      border-radius: 10px;
+      padding: 6px;
+      display: none;
+      flex-direction: column;
+      gap: 6px;
+      box-shadow: 0 8px 32px rgba(0,0,0,0.5);
+      backdrop-filter: blur(10px);
+      z-index: 70;
+      color: white;
+      font-size: 12px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+    `;
+    this.menu.addEventListener('click', (e) => e.stopPropagation());
+
+    this.trackList = document.createElement('div');
+    this.trackList.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    `;
+
+    // Свой файл: выбор через диалог, перетаскивание на плеер обрабатывает content script
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = LocalSubtitleStore.EXTENSIONS.map(extension => `.${extension}`).join(',');
+    this.fileInput.style.display = 'none';
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      this.fileInput.value = '';
+      if (file) {
+        this.close();
+        this.handlers.onLoadFile(file);
+      }
+    });
+
+    this.localSection = document.createElement('div');
+    this.localSection.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 8px 6px 4px;
+      border-top: 1px solid rgba(255,255,255,0.1);
+    `;
+
+    this.styleSection = document.createElement('div');
+    this.styleSection.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 8px 6px 4px;
+      border-top: 1px solid rgba(255,255,255,0.1);
+    `;
+
+    this.menu.append(this.trackList, this.localSection, this.styleSection, this.fileInput);
+    this.wrapper.appendChild(this.menu);
+    this.wrapper.appendChild(this.button);
+
+    // Закрываем меню по клику вне его
+    closeOnOutsideClick(this.wrapper, () => this.close(), signal);
+
+    this.render();
+  }
+
+  /**
+   * Корневой элемент для вставки в контролы
+   */
+  get element(): HTMLElement {
+    return this.wrapper;
+  }
+
+  /**
+   * Обновляет список дорожек
+   */
+  setTracks(tracks: string[], selected: number | null) {
+    this.tracks = tracks;
+    this.selected = selected;
+    this.render();
+  }
+
+  /**
+   * Показывает сдвиг своего файла (null — файл не загружен)
+   */
+  setLocalFile(localFile: LocalSubtitleInfo | null) {
+    this.localFile = localFile;
+    this.render();
+  }
+
+  /**
+   * Открывает диалог выбора файла субтитров
+   */
+  openFilePicker() {
+    this.fileInput.click();
+  }
+
+  setSettings(settings: SubtitleSettings) {
+    this.settings = settings;
+    this.render();
+  }
+
+  private open() {
+    this.isOpen = true;
+    this.menu.style.display = 'flex';
+  }
+
+  private close() {
+    this.isOpen = false;
+    this.menu.style.display = 'none';
+  }
+
+  private render() {
+    this.trackList.style.display = this.tracks.length > 0 ? 'flex' : 'none';
+    this.trackList.innerHTML = '';
+    const choices: Array<number | null> = [null, ...this.tracks.map((_, index) => index)];
+    for (const choice of choices) {
+      const item = this.createOption(
+        choice === null ? 'Выключены' : this.tracks[choice],
+        choice === this.selected,
+        () => {
+          this.selected = choice;
+          this.close();
+          this.render();
+          this.handlers.onSelectTrack(choice);
+        }
+      );
+      item.style.textAlign = 'left';
+      item.style.padding = '8px 12px';
+      this.trackList.appendChild(item);
+    }
+
+    this.renderLocalSection();
+
+    // Оформление имеет смысл только при наличии дорожек
+    this.styleSection.style.display = this.tracks.length > 0 ? 'flex' : 'none';
+    this.styleSection.innerHTML = '';
+    this.styleSection.append(
+      this.createRow('Размер', SubtitleSettingsManager.FONT_SIZES.map(size =>
+        this.createOption(`${size}%`, size === this.settings.fontSize, () => this.change({ fontSize: size }))
+      )),
+      this.createRow('Цвет', SubtitleSettingsManager.COLORS.map(color => {
+        const swatch = this.createOption('', color === this.settings.color, () => this.change({ color }));
+        swatch.title = color;
+        swatch.style.cssText += `
+          width: 24px;
+          height: 24px;
+          flex: 0 0 24px;
+          padding: 0;
+          border-radius: 50%;
+          background: ${color};
+          outline: ${color === this.settings.color ? '2px solid #00d4ff' : 'none'};
+          outline-offset: 2px;
+        `;
+        return swatch;
+      })),
+      this.createRow('Фон', SubtitleSettingsManager.BACKGROUNDS.map(background =>
+        this.createOption(BACKGROUND_LABELS[background], background === this.settings.background, () => this.change({ background }))
+      )),
+      this.createOffsetRow()
+    );
+
+    const isOn = this.selected !== null;
+    this.button.style.color = isOn ? '#00d4ff' : 'white';
+    this.button.style.textDecoration = isOn ? 'underline' : 'none';
+  }
+
+  private renderLocalSection() {
+    this.localSection.innerHTML = '';
+
+    const loadButton = this.createOption('📂 Открыть файл (.srt, .ass, .vtt)', false, () => this.openFilePicker());
+    loadButton.title = 'Файл можно также перетащить на плеер';
+    this.localSection.appendChild(loadButton);
+
+    if (!this.localFile) return;
+
+    const offset = this.localFile.offset;
+    const offsetLabel = `${offset > 0 ? '+' : ''}${offset.toFixed(1)} с`;
+    this.localSection.append(
+      this.createRow(`Сдвиг «${this.localFile.fileName}»: ${offsetLabel}`, [
+        this.createOption('−0.5 с', false, () => this.handlers.onOffsetChange(-0.5)),
+        this.createOption('−0.1 с', false, () => this.handlers.onOffsetChange(-0.1)),
+        this.createOption('0', offset === 0, () => this.handlers.onOffsetChange(null)),
+        this.createOption('+0.1 с', false, () => this.handlers.onOffsetChange(0.1)),
+        this.createOption('+0.5 с', false, () => this.handlers.onOffsetChange(0.5))
+      ]),
+      this.createOption('✕ Убрать свой файл', false, () => {
+        this.close();
+        this.handlers.onRemoveFile();
+      })
+    );
+  }
+
+  private change(settings: Partial<SubtitleSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    this.render();
+    this.handlers.onSettingsChange(settings);
+  }
+
+  private createRow(label: string, options: HTMLElement[]): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    `;
+
+    const title = document.createElement('span');
+    title.textContent = label;
+    title.style.color = 'rgba(255,255,255,0.6)';
+
+    const values = document.createElement('div');
+    values.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    `;
+    values.append(...options);
+
+    row.append(title, values);
+    return row;
+  }
+
+  private createOffsetRow(): HTMLElement {
+    const slider = document.createElement('input');
+    slider.type = 'range';
+    slider.min = '0';
+    slider.max = String(SubtitleSettingsManager.MAX_OFFSET);
+    slider.value = String(this.settings.offset);
+    slider.style.cssText = `
+      width: 100%;
+      accent-color: #00d4ff;
+    `;
+
+    const row = this.createRow(`Отступ снизу: ${this.settings.offset}%`, [slider]);
+    const title = row.firstElementChild as HTMLElement;
+    slider.addEventListener('input', () => {
+      title.textContent = `Отступ снизу: ${slider.value}%`;
+    });
+    // Сохраняем по отпусканию ползунка, а не на каждый шаг
+    slider.addEventListener('change', () => {
+      this.settings = { ...this.settings, offset: Number(slider.value) };
+      this.handlers.onSettingsChange({ offset: Number(slider.value) });
+    });
+    return row;
+  }
+
+  private createOption(label: string, isActive: boolean, onClick: () => void): HTMLButtonElement {
+    const item = document.createElement('button');
+    item.className = 'subtitle-menu-item';
+    item.textContent = label;
+    item.style.cssText = `
+      flex: 1;
+      background: ${isActive ? 'rgba(0,123,255,0.8)' : 'rgba(255,255,255,0.05)'};
+      border: none;
+      color: white;
+      padding: 6px 8px;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 12px;
+      font-weight: ${isActive ? '700' : '500'};
+      font-family: inherit;
+    `;
+    item.addEventListener('click', onClick);
+    return item;
+  }
+}
@@ -0,0 +1,224 @@
+// Субтитры на видео: дорожки <track> из внешних файлов, своя дорожка из файла пользователя
+// и оформление реплик через ::cue; какую дорожку включить, решает content script
+
+import { SubtitleCue, SubtitleSettings } from '../types/subtitles';
+import { SubtitleSettingsManager } from '../utils/subtitle-settings';
+
+// Свой файл субтитров серии, реплики уже разобраны
+export interface LocalSubtitleTrack {
+  label: string;
+  cues: SubtitleCue[];
+  offset: number; // seconds, положительный — субтитры позже
+}
+
+export interface SubtitleTrackState {
+  label: string;
+  local: boolean; // своя дорожка из файла пользователя
+  showing: boolean;
+}
+
+export class SubtitleRenderer {
+  private styleElement: HTMLStyleElement | null = null;
+  private trackUrls: string[] = []; // blob URL сконвертированных дорожек
+  private bottomCues = new WeakSet<TextTrackCue>(); // реплики без явной позиции, их сдвигает отступ
+  private watchedTracks = new WeakSet<TextTrack>();
+  private localTrack: TextTrack | null = null; // дорожку из addTextTrack нельзя удалить, переиспользуем
+  private localCues: VTTCue[] = [];
+  private local: LocalSubtitleTrack | null = null;
+  private settings: SubtitleSettings = SubtitleSettingsManager.DEFAULTS;
+
+  constructor(private video: HTMLVideoElement, private cueSelector: string, onTracksChange: () => void) {
+    // Дорожки добавляем мы (внешние файлы) и HLS.js (субтитры в манифесте)
+    video.textTracks.addEventListener('addtrack', onTracksChange);
+    video.textTracks.addEventListener('removetrack', onTracksChange);
+    video.textTracks.addEventListener('change', onTracksChange);
+  }
+
+  /**
+   * Добавляет сконвертированный в WebVTT файл как <track>
+   */
+  addTrack(label: string, language: string | undefined, vtt: string) {
+    const url = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+    this.trackUrls.push(url);
+
+    const track = document.createElement('track');
+    track.kind = 'subtitles';
+    track.label = label;
+    if (language) track.srclang = language;
+    track.src = url;
+    this.video.appendChild(track);
+  }
+
+  /**
+   * Убирает внешние дорожки предыдущей серии
+   */
+  clearTracks() {
+    this.video.querySelectorAll('track').forEach(track => track.remove());
+    this.trackUrls.forEach(url => URL.revokeObjectURL(url));
+    this.trackUrls = [];
+  }
+
+  /**
+   * Дорожки для меню субтитров, в порядке индексов selectTrack()
+   */
+  getTracks(): SubtitleTrackState[] {
+    return this.listTracks().map((track, index) => {
+      this.watchTrack(track);
+      return {
+        label: this.getLabel(track, index),
+        local: track === this.localTrack,
+        showing: track.mode === 'showing'
+      };
+    });
+  }
+
+  /**
+   * Показывает дорожку по индексу, остальные выключает (null — выключить субтитры)
+   */
+  selectTrack(index: number | null) {
+    this.listTracks().forEach((track, trackIndex) => {
+      track.mode = trackIndex === index ? 'showing' : 'disabled';
+    });
+  }
+
+  /**
+   * Индекс своей дорожки, -1 если файла нет
+   */
+  get localTrackIndex(): number {
+    return this.localTrack && this.local ? this.listTracks().indexOf(this.localTrack) : -1;
+  }
+
+  /**
+   * Заменяет реплики своей дорожки с учетом сдвига (null — убрать файл)
+   */
+  setLocalTrack(local: LocalSubtitleTrack | null) {
+    this.local = local;
+    this.renderLocalCues();
+
+    if (!local && this.localTrack) {
+      this.localTrack.mode = 'disabled';
+    }
+  }
+
+  /**
+   * Применяет размер, цвет, фон и отступ субтитров
+   */
+  applySettings(settings: SubtitleSettings) {
+    this.settings = settings;
+
+    if (!this.styleElement) {
+      this.styleElement = document.createElement('style');
+      document.head.appendChild(this.styleElement);
+    }
+    this.styleElement.textContent = SubtitleSettingsManager.toCueCss(this.cueSelector, settings);
+
+    this.listTracks()
+      .filter(track => track.mode === 'showing')
+      .forEach(track => Array.from(track.cues || []).forEach(cue => {
+        if (this.bottomCues.has(cue)) this.positionCue(cue);
+      }));
+  }
+
+  destroy() {
+    this.clearTracks();
+    this.styleElement?.remove();
+    this.styleElement = null;
+    this.local = null;
+    this.localTrack = null;
+    this.localCues = [];
+  }
+
+  /**
+   * Дорожки субтитров видео (служебные metadata дорожки HLS.js не показываем)
+   */
+  private listTracks(): TextTrack[] {
+    return Array.from(this.video.textTracks)
+      .filter(track => track.kind === 'subtitles' || track.kind === 'captions')
+      .filter(track => track !== this.localTrack || this.local !== null);
+  }
+
+  private getLabel(track: TextTrack, index: number): string {
+    if (track === this.localTrack && this.local) {
+      return this.local.label;
+    }
+    return track.label || track.language || `Дорожка ${index + 1}`;
+  }
+
+  /**
+   * Пересобирает реплики своей дорожки с учетом сдвига
+   */
+  private renderLocalCues() {
+    if (!this.localTrack && this.local) {
+      this.localTrack = this.video.addTextTrack('subtitles', 'Свои субтитры');
+      this.localTrack.mode = 'disabled';
+    }
+    const track = this.localTrack;
+    if (!track) return;
+
+    this.localCues.forEach(cue => track.removeCue(cue));
+    this.localCues = [];
+    if (!this.local) return;
+
+    const offset = this.local.offset;
+    for (const source of this.local.cues) {
+      const start = source.start + offset;
+      const end = source.end + offset;
+      if (end <= 0) continue;
+
+      const cue = this.createCue(source, Math.max(0, start), end);
+      track.addCue(cue);
+      this.localCues.push(cue);
+    }
+  }
+
+  /**
+   * VTTCue из разобранной реплики с настройками позиции (line, position, align)
+   */
+  private createCue(source: SubtitleCue, start: number, end: number): VTTCue {
+    const cue = new VTTCue(start, end, source.text);
+
+    for (const setting of source.settings.split(/\s+/).filter(Boolean)) {
+      const [name, value] = setting.split(':');
+      if (!value) continue;
+      if (name === 'line') {
+        cue.snapToLines = !value.endsWith('%');
+        cue.line = parseFloat(value);
+      } else if (name === 'position') {
+        cue.position = parseFloat(value);
+      } else if (name === 'align' && ['start', 'center', 'end', 'left', 'right'].includes(value)) {
+        cue.align = value as AlignSetting;
+      }
+    }
+    return cue;
+  }
+
+  /**
+   * Подписывается на смену реплик дорожки, чтобы применять вертикальный отступ
+   */
+  private watchTrack(track: TextTrack) {
+    if (this.watchedTracks.has(track)) return;
+    this.watchedTracks.add(track);
+
+    track.addEventListener('cuechange', () => {
+      Array.from(track.activeCues || []).forEach(cue => this.positionCue(cue));
+    });
+  }
+
+  /**
+   * Сдвигает реплики без явной позиции (позиция сверху из ASS сохраняется)
+   */
+  private positionCue(cue: TextTrackCue) {
+    if (!(cue instanceof VTTCue)) return;
+
+    if (!this.bottomCues.has(cue)) {
+      if (cue.line !== 'auto') return;
+      this.bottomCues.add(cue);
+    }
+
+    cue.snapToLines = false;
+    cue.line = 100 - this.settings.offset;
+    if ('lineAlign' in cue) {
+      (cue as VTTCue & { lineAlign: string }).lineAlign = 'end';
+    }
+  }
+}
@@ -0,0 +1,184 @@
+// Poster видео: превью серии рисуется на canvas, пока Kodik не отдал свое
+
+export interface VideoPosterInfo {
+  title?: string;
+  episodeText: string; // «Сезон 2 • Серия 5», «Серия 5» или «Фильм»
+  translationText: string;
+}
+
+export class VideoPoster {
+  /**
+   * Рисует poster с названием аниме, серией и озвучкой
+   */
+  static create(info: VideoPosterInfo): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = 800;
+    canvas.height = 450;
+    const ctx = canvas.getContext('2d')!;
+
+    // Создаем градиентный фон
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, '#1a1a2e');
+    gradient.addColorStop(0.5, '#16213e');
+    gradient.addColorStop(1, '#0f3460');
+    
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Добавляем паттерн
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
+    for (let i = 0; i < 50; i++) {
+      const x = Math.random() * canvas.width;
+      const y = Math.random() * canvas.height;
+      const size = Math.random() * 3 + 1;
+      ctx.fillRect(x, y, size, size);
+    }
+
+    // Центральная иконка воспроизведения
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    const iconSize = 80;
+
+    // Тень для иконки
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.beginPath();
+    ctx.arc(centerX + 3, centerY + 3, iconSize / 2, 0, 2 * Math.PI);
+    ctx.fill();
+
+    // Фон иконки
+    ctx.fillStyle = 'rgba(0, 212, 255, 0.2)';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, iconSize / 2, 0, 2 * Math.PI);
+    ctx.fill();
+
+    // Обводка иконки
+    ctx.strokeStyle = 'rgba(0, 212, 255, 0.8)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, iconSize / 2, 0, 2 * Math.PI);
+    ctx.stroke();
+
+    // Треугольник воспроизведения
+    ctx.fillStyle = '#00d4ff';
+    ctx.beginPath();
+    ctx.moveTo(centerX - 15, centerY - 20);
+    ctx.lineTo(centerX - 15, centerY + 20);
+    ctx.lineTo(centerX + 20, centerY);
+    ctx.closePath();
+    ctx.fill();
+
+    // Название аниме
+    if (info.title) {
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 32px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      
+      // Тень для текста
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillText(info.title, centerX + 2, centerY - 82);
+      
+      // Основной текст
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(info.title, centerX, centerY - 80);
+    }
+
+    // Информация о серии и переводе
+    const { episodeText, translationText } = info;
+
+    ctx.font = '20px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif';
+    
+    // Тень
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillText(episodeText, centerX + 1, centerY + 101);
+    ctx.fillText(translationText, centerX + 1, centerY + 131);
+    
+    // Основной текст
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillText(episodeText, centerX, centerY + 100);
+    
+    ctx.fillStyle = 'rgba(0, 212, 255, 0.9)';
+    ctx.fillText(translationText, centerX, centerY + 130);
+
+    // Декоративные элементы по углам
+    this.drawCornerDecorations(ctx, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/png', 0.9);
+  }
+
+  /**
+   * Рисует декоративные элементы по углам poster'а
+   */
+  private static drawCornerDecorations(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const cornerSize = 40;
+    const lineWidth = 3;
+    
+    ctx.strokeStyle = 'rgba(0, 212, 255, 0.4)';
+    ctx.lineWidth = lineWidth;
+    
+    // Верхний левый угол
+    ctx.beginPath();
+    ctx.moveTo(20, 20 + cornerSize);
+    ctx.lineTo(20, 20);
+    ctx.lineTo(20 + cornerSize, 20);
+    ctx.stroke();
+    
+    // Верхний правый угол
+    ctx.beginPath();
+    ctx.moveTo(width - 20 - cornerSize, 20);
+    ctx.lineTo(width - 20, 20);
+    ctx.lineTo(width - 20, 20 + cornerSize);
+    ctx.stroke();
+    
+    // Нижний левый угол
+    ctx.beginPath();
+    ctx.moveTo(20, height - 20 - cornerSize);
+    ctx.lineTo(20, height - 20);
+    ctx.lineTo(20 + cornerSize, height - 20);
+    ctx.stroke();
+    
+    // Нижний правый угол
+    ctx.beginPath();
+    ctx.moveTo(width - 20 - cornerSize, height - 20);
+    ctx.lineTo(width - 20, height - 20);
+    ctx.lineTo(width - 20, height - 20 - cornerSize);
+    ctx.stroke();
+  }
+
+  /**
+   * Базовый градиентный poster, когда об аниме ничего не известно
+   */
+  static createDefault(): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = 800;
+    canvas.height = 450;
+    const ctx = canvas.getContext('2d')!;
+
+    // Градиентный фон
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, '#232323');
+    gradient.addColorStop(1, '#111111');
+    
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Центральная иконка
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, 50, 0, 2 * Math.PI);
+    ctx.fill();
+    
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.beginPath();
+    ctx.moveTo(centerX - 15, centerY - 20);
+    ctx.lineTo(centerX - 15, centerY + 20);
+    ctx.lineTo(centerX + 20, centerY);
+    ctx.closePath();
+    ctx.fill();
+
+    return canvas.toDataURL('image/png', 0.8);
+  }
+}
@@ -0,0 +1,539 @@
+// Страница настроек: прогресс просмотра, горячие клавиши, резервные копии, токен Kodik, кэши и правила заголовков
+import { ProgressManager } from '../utils/progress-manager';
+import { KeymapManager } from '../utils/keymap-manager';
+import { HeaderRulesManager } from '../utils/header-rules';
+import { KodikTokenManager } from '../utils/kodik-token';
+import { ProgressSettings } from '../types/progress';
+import { KeyAction, KeymapSettings } from '../types/keymap';
+import { CacheClearTarget, CacheStatsResponse, ClearCacheRequest } from '../types/messages';
+
+const ANIME_TAB_URLS = ['*://animestars.org/*', '*://asstars.tv/*'];
+
+const CACHE_LAYERS: Array<{ layer: CacheClearTarget; title: string }> = [
+  { layer: 'memory', title: 'Память' },
+  { layer: 'indexedDB', title: 'IndexedDB' },
+  { layer: 'session', title: 'sessionStorage' },
+  { layer: 'local', title: 'localStorage' },
+  { layer: 'api', title: 'API клиент' }
+];
+
+let keymap: KeymapSettings = KeymapManager.normalize(undefined);
+let captureAction: KeyAction | null = null; // действие, для которого ждем нажатие новой клавиши
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  console.log('⚙️ Options page loaded');
+
+  await loadProgressSettings();
+  await loadKeymap();
+  await renderProgressList();
+  await loadTokenState();
+  await renderCaches();
+  await renderHeaderRules();
+
+  // Настройки прогресса сохраняются при каждом изменении
+  ['autoSave', 'saveInterval', 'minWatchTime', 'autoResume', 'showProgressNotifications'].forEach(id => {
+    getInput(id).addEventListener('change', saveProgressSettings);
+  });
+
+  ['seekStep', 'longSeekStep', 'volumeStep', 'digitSeek'].forEach(id => {
+    getInput(id).addEventListener('change', saveKeymapOptions);
+  });
+
+  document.getElementById('resetKeymap')?.addEventListener('click', async () => {
+    captureAction = null;
+    keymap = await KeymapManager.resetKeymap();
+    await loadKeymap();
+    showMessage('Горячие клавиши сброшены', 'success');
+  });
+
+  // Запись новой клавиши: перехватываем нажатие до обработчиков страницы
+  document.addEventListener('keydown', captureKey, true);
+
+  document.getElementById('pruneProgress')?.addEventListener('click', async () => {
+    const days = parseInt(getInput('pruneDays').value);
+    if (!days || days < 1) {
+      showMessage('Укажите количество дней', 'error');
+      return;
+    }
+
+    const removed = await ProgressManager.clearOldProgress(days);
+    showMessage(`Удалено записей: ${removed}`, 'success');
+    await renderProgressList();
+  });
+
+  document.getElementById('exportProgress')?.addEventListener('click', exportProgress);
+
+  const importFile = getInput('importFile');
+  document.getElementById('importProgress')?.addEventListener('click', () => importFile.click());
+  importFile.addEventListener('change', async () => {
+    const file = importFile.files?.[0];
+    if (!file) return;
+
+    const success = await ProgressManager.importProgress(await file.text());
+    importFile.value = '';
+
+    if (success) {
+      showMessage('Прогресс импортирован', 'success');
+      await loadProgressSettings();
+      await renderProgressList();
+    } else {
+      showMessage('Не удалось прочитать файл', 'error');
+    }
+  });
+
+  document.getElementById('saveUserToken')?.addEventListener('click', async () => {
+    const token = getInput('userToken').value;
+    if (!token.trim()) {
+      showMessage('Введите токен', 'error');
+      return;
+    }
+    if (!await KodikTokenManager.saveUserToken(token)) {
+      showMessage('Токен должен состоять из латинских букв и цифр', 'error');
+      return;
+    }
+    getInput('userToken').value = '';
+    showMessage('Свой токен сохранен', 'success');
+    await loadTokenState();
+  });
+
+  document.getElementById('resetUserToken')?.addEventListener('click', async () => {
+    await KodikTokenManager.saveUserToken(null);
+    showMessage('Токен будет получаться автоматически', 'success');
+    await loadTokenState();
+  });
+
+  document.getElementById('refreshCaches')?.addEventListener('click', renderCaches);
+  document.getElementById('refreshHeaderRules')?.addEventListener('click', renderHeaderRules);
+});
+
+/**
+ * Заполняет форму настроек прогресса
+ */
+async function loadProgressSettings() {
+  const settings = await ProgressManager.getSettings();
+
+  getInput('autoSave').checked = settings.autoSave;
+  getInput('saveInterval').value = String(settings.saveInterval);
+  getInput('minWatchTime').value = String(settings.minWatchTime);
+  getInput('autoResume').checked = settings.autoResume;
+  getInput('showProgressNotifications').checked = settings.showProgressNotifications;
+}
+
+/**
+ * Сохраняет настройки прогресса из формы
+ */
+async function saveProgressSettings() {
+  const current = await ProgressManager.getSettings();
+  const saveInterval = parseInt(getInput('saveInterval').value);
+  const minWatchTime = parseInt(getInput('minWatchTime').value);
+
+  const settings: ProgressSettings = {
+    autoSave: getInput('autoSave').checked,
+    saveInterval: saveInterval >= 5 ? saveInterval : current.saveInterval,
+    minWatchTime: minWatchTime >= 0 ? minWatchTime : current.minWatchTime,
+    autoResume: getInput('autoResume').checked,
+    showProgressNotifications: getInput('showProgressNotifications').checked
+  };
+
+  await ProgressManager.saveSettings(settings);
+  await loadProgressSettings();
+  console.log('💾 Progress settings saved:', settings);
+  showMessage('Настройки сохранены', 'success');
+}
+
+/**
+ * Заполняет параметры горячих клавиш и список назначений
+ */
+async function loadKeymap() {
+  keymap = await KeymapManager.getKeymap();
+
+  getInput('seekStep').value = String(keymap.seekStep);
+  getInput('longSeekStep').value = String(keymap.longSeekStep);
+  getInput('volumeStep').value = String(keymap.volumeStep);
+  getInput('digitSeek').checked = keymap.digitSeek;
+
+  renderKeymap();
+}
+
+/**
+ * Сохраняет шаги перемотки и громкости
+ */
+async function saveKeymapOptions() {
+  keymap = KeymapManager.normalize({
+    ...keymap,
+    seekStep: parseInt(getInput('seekStep').value),
+    longSeekStep: parseInt(getInput('longSeekStep').value),
+    volumeStep: parseInt(getInput('volumeStep').value),
+    digitSeek: getInput('digitSeek').checked
+  });
+
+  await saveKeymap();
+  await loadKeymap();
+}
+
+async function saveKeymap() {
+  await KeymapManager.saveKeymap(keymap);
+  console.log('💾 Keymap saved:', keymap);
+  showMessage('Горячие клавиши сохранены', 'success');
+}
+
+/**
+ * Выводит таблицу действий с назначенными клавишами и отмечает конфликты
+ */
+function renderKeymap() {
+  const container = document.getElementById('keymapList');
+  const conflictsEl = document.getElementById('keymapConflicts');
+  if (!container || !conflictsEl) return;
+
+  const conflicts = KeymapManager.findConflicts(keymap.bindings);
+  const conflictKeys = new Set(conflicts.map(conflict => conflict.key));
+  conflictsEl.textContent = conflicts
+    .map(conflict => `⚠️ ${KeymapManager.formatKey(conflict.key)}: ${conflict.actions.map(action => `«${KeymapManager.ACTION_LABELS[action]}»`).join(', ')}`)
+    .join('\n');
+  conflictsEl.style.whiteSpace = 'pre-line';
+
+  const table = document.createElement('table');
+  const body = document.createElement('tbody');
+
+  for (const action of Object.keys(keymap.bindings) as KeyAction[]) {
+    const row = document.createElement('tr');
+
+    const labelCell = document.createElement('td');
+    labelCell.textContent = KeymapManager.ACTION_LABELS[action];
+
+    const keysCell = document.createElement('td');
+    for (const key of keymap.bindings[action]) {
+      const chip = document.createElement('span');
+      chip.className = conflictKeys.has(key) ? 'key-chip conflict' : 'key-chip';
+      chip.textContent = KeymapManager.formatKey(key);
+
+      const removeButton = document.createElement('button');
+      removeButton.textContent = '✕';
+      removeButton.title = 'Убрать клавишу';
+      removeButton.addEventListener('click', async () => {
+        keymap.bindings[action] = keymap.bindings[action].filter(bound => bound !== key);
+        await saveKeymap();
+        renderKeymap();
+      });
+
+      chip.appendChild(removeButton);
+      keysCell.appendChild(chip);
+    }
+
+    const actionCell = document.createElement('td');
+    const addButton = document.createElement('button');
+    const isCapturing = captureAction === action;
+    addButton.className = isCapturing ? 'btn btn-small capturing' : 'btn btn-secondary btn-small';
+    addButton.textContent = isCapturing ? 'Нажмите клавишу…' : '+ Клавиша';
+    addButton.addEventListener('click', () => {
+      captureAction = isCapturing ? null : action;
+      renderKeymap();
+    });
+    actionCell.appendChild(addButton);
+
+    row.append(labelCell, keysCell, actionCell);
+    body.appendChild(row);
+  }
+
+  table.appendChild(body);
+  container.replaceChildren(table);
+}
+
+/**
+ * Назначает нажатую клавишу ожидающему действию, Esc отменяет запись
+ */
+async function captureKey(event: KeyboardEvent) {
+  if (!captureAction) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const action = captureAction;
+  if (event.code === 'Escape') {
+    captureAction = null;
+    renderKeymap();
+    return;
+  }
+
+  const key = KeymapManager.eventToKey(event);
+  if (!key) return; // ждем клавишу вместе с модификатором
+
+  captureAction = null;
+  const boundAction = KeymapManager.findAction(keymap.bindings, key);
+  if (boundAction && boundAction !== action) {
+    showMessage(`${KeymapManager.formatKey(key)} уже назначена на «${KeymapManager.ACTION_LABELS[boundAction]}»`, 'error');
+    renderKeymap();
+    return;
+  }
+
+  if (!boundAction) {
+    keymap.bindings[action] = [...keymap.bindings[action], key];
+    await saveKeymap();
+  }
+  renderKeymap();
+}
+
+/**
+ * Выводит таблицу сохраненного прогресса, последние просмотры сверху
+ */
+async function renderProgressList() {
+  const container = document.getElementById('progressList');
+  if (!container) return;
+
+  const entries = Object.values(await ProgressManager.getAllProgress())
+    .sort((a, b) => b.lastWatched - a.lastWatched);
+
+  if (entries.length === 0) {
+    container.innerHTML = '<div class="empty">Сохраненного прогресса пока нет</div>';
+    return;
+  }
+
+  const table = document.createElement('table');
+  table.innerHTML = `
+    <thead>
+      <tr>
+        <th>Аниме</th>
+        <th>Серия</th>
+        <th>Позиция</th>
+        <th>Просмотрено</th>
+        <th></th>
+      </tr>
+    </thead>
+  `;
+
+  const body = document.createElement('tbody');
+  for (const progress of entries) {
+    const row = document.createElement('tr');
+
+    const titleCell = document.createElement('td');
+    const title = progress.title || `ID ${progress.animeId}`;
+    if (progress.url) {
+      const link = document.createElement('a');
+      link.href = progress.url;
+      link.target = '_blank';
+      link.textContent = title;
+      titleCell.appendChild(link);
+    } else {
+      titleCell.textContent = title;
+    }
+
+    const episodeCell = document.createElement('td');
+    episodeCell.textContent = ProgressManager.formatEpisodeLabel(progress.episode, progress.season);
+
+    const positionCell = document.createElement('td');
+    positionCell.textContent = `${ProgressManager.formatTime(progress.currentTime)} / ${ProgressManager.formatTime(progress.duration)}`;
+
+    const dateCell = document.createElement('td');
+    dateCell.textContent = new Date(progress.lastWatched).toLocaleString('ru-RU');
+
+    const actionCell = document.createElement('td');
+    const removeButton = document.createElement('button');
+    removeButton.className = 'btn btn-danger btn-small';
+    removeButton.textContent = 'Удалить';
+    removeButton.addEventListener('click', async () => {
+      await ProgressManager.removeProgress(progress.animeId);
+      await renderProgressList();
+    });
+    actionCell.appendChild(removeButton);
+
+    row.append(titleCell, episodeCell, positionCell, dateCell, actionCell);
+    body.appendChild(row);
+  }
+
+  table.appendChild(body);
+  container.replaceChildren(table);
+}
+
+/**
+ * Скачивает резервную копию прогресса в JSON файл
+ */
+async function exportProgress() {
+  const json = await ProgressManager.exportProgress();
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `animestars-progress-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  showMessage('Файл с прогрессом сохранен', 'success');
+}
+
+/**
+ * Показывает источник и срок действия токена, сам токен частично скрыт
+ */
+async function loadTokenState() {
+  const statusEl = document.getElementById('tokenStatus');
+  if (!statusEl) return;
+
+  const state = await KodikTokenManager.getState();
+  if (!state.token) {
+    statusEl.textContent = 'не получен';
+    return;
+  }
+
+  const masked = `${state.token.slice(0, 6)}…${state.token.slice(-4)}`;
+  statusEl.textContent = state.source === 'user'
+    ? `${masked} (свой)`
+    : `${masked} (до ${new Date(state.expiresAt!).toLocaleTimeString('ru-RU')})`;
+}
+
+/**
+ * Запрашивает статистику кэшей у открытых вкладок AnimeStars
+ */
+async function renderCaches() {
+  const container = document.getElementById('cacheList');
+  if (!container) return;
+
+  const tabs = await chrome.tabs.query({ url: ANIME_TAB_URLS });
+  const cards: HTMLElement[] = [];
+
+  for (const tab of tabs) {
+    if (!tab.id) continue;
+
+    try {
+      const stats = await chrome.tabs.sendMessage<{ type: string }, CacheStatsResponse | undefined>(tab.id, { type: 'GET_CACHE_STATS' });
+      if (stats) {
+        cards.push(createCacheCard(tab.id, stats));
+      }
+    } catch (error) {
+      console.log('📝 Content script not ready in tab:', tab.url);
+    }
+  }
+
+  if (cards.length === 0) {
+    container.innerHTML = '<div class="empty">Откройте страницу аниме на AnimeStars, чтобы увидеть кэш</div>';
+    return;
+  }
+
+  container.replaceChildren(...cards);
+}
+
+/**
+ * Карточка кэшей одной вкладки с очисткой по уровням
+ */
+function createCacheCard(tabId: number, stats: CacheStatsResponse): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'cache-tab';
+
+  const url = document.createElement('div');
+  url.className = 'url';
+  url.textContent = stats.url;
+
+  const table = document.createElement('table');
+  const rows: Record<CacheClearTarget, string> = {
+    memory: `${stats.cache.memoryEntries} записей, ${stats.cache.memorySize} KB`,
+    indexedDB: `${stats.cache.indexedDBEntries} записей`,
+    session: `${stats.cache.sessionEntries} записей`,
+    local: `${stats.cache.localEntries} записей`,
+    api: `${stats.api.memoryEntries} записей, токен ${stats.api.tokenCached ? 'в кэше' : 'не загружен'}, запросов в работе: ${stats.api.activeRequests}`
+  };
+
+  for (const { layer, title } of CACHE_LAYERS) {
+    const row = document.createElement('tr');
+
+    const nameCell = document.createElement('td');
+    nameCell.textContent = title;
+
+    const valueCell = document.createElement('td');
+    valueCell.textContent = rows[layer];
+
+    const actionCell = document.createElement('td');
+    const clearButton = document.createElement('button');
+    clearButton.className = 'btn btn-secondary btn-small';
+    clearButton.textContent = 'Очистить';
+    clearButton.addEventListener('click', async () => {
+      try {
+        const request: ClearCacheRequest = { type: 'CLEAR_CACHE', layer };
+        const updated = await chrome.tabs.sendMessage<ClearCacheRequest, CacheStatsResponse | undefined>(tabId, request);
+        if (updated) {
+          card.replaceWith(createCacheCard(tabId, updated));
+        }
+        showMessage(`Кэш «${title}» очищен`, 'success');
+      } catch (error) {
+        console.error('❌ Failed to clear cache:', error);
+        showMessage('Вкладка недоступна, обновите список', 'error');
+      }
+    });
+    actionCell.appendChild(clearButton);
+
+    row.append(nameCell, valueCell, actionCell);
+    table.appendChild(row);
+  }
+
+  const summary = document.createElement('div');
+  summary.className = 'url';
+  summary.textContent = `Попаданий: ${stats.cache.totalHits} из ${stats.cache.totalRequests} (${stats.cache.hitRate}%)`;
+
+  card.append(url, table, summary);
+  return card;
+}
+
+/**
+ * Выводит статические и динамические правила заголовков
+ */
+async function renderHeaderRules() {
+  const container = document.getElementById('headerRulesList');
+  if (!container) return;
+
+  const rules = await HeaderRulesManager.getRules();
+  const table = document.createElement('table');
+  table.innerHTML = `
+    <thead>
+      <tr>
+        <th>Набор</th>
+        <th>ID</th>
+        <th>Домены</th>
+        <th>Инициаторы</th>
+        <th>Заголовки</th>
+      </tr>
+    </thead>
+  `;
+
+  const body = document.createElement('tbody');
+  for (const { source, enabled, rule } of rules) {
+    const row = document.createElement('tr');
+    const cells = [
+      `${source === 'static' ? HeaderRulesManager.STATIC_RULESET_ID : 'динамические'}${enabled ? '' : ' (выключен)'}`,
+      String(rule.id),
+      (rule.condition.requestDomains || []).join(', '),
+      // Инициатор-расширение показываем словом, а не id
+      (rule.condition.initiatorDomains || []).map(domain => domain === chrome.runtime.id ? 'расширение' : domain).join(', ') || 'любые',
+      HeaderRulesManager.formatHeaders(rule)
+    ];
+    for (const text of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.appendChild(cell);
+    }
+    body.appendChild(row);
+  }
+
+  if (body.children.length === 0) {
+    container.innerHTML = '<div class="empty">Активных правил нет</div>';
+    return;
+  }
+
+  table.appendChild(body);
+  container.replaceChildren(table);
+}
+
+let messageTimer: number | null = null;
+
+function showMessage(text: string, type: 'success' | 'error') {
+  const messageEl = document.getElementById('message');
+  if (!messageEl) return;
+
+  messageEl.textContent = text;
+  messageEl.className = `message ${type}`;
+
+  if (messageTimer) clearTimeout(messageTimer);
+  messageTimer = window.setTimeout(() => {
+    messageEl.className = 'message';
+  }, 2500);
+}
@@ -0,0 +1,261 @@
+// Popup script для настроек расширения
+import { SettingsManager } from '../utils/settings-manager';
+import { ProgressManager } from '../utils/progress-manager';
+import { WatchProgress } from '../types/progress';
+import { DefaultQualitySetting, ExtensionSettings } from '../types/settings';
+import { PlayersInfo, ReloadPlayersResponse, StreamState } from '../types/messages';
+
+const STREAM_STATE_LABELS: Record<StreamState, string> = {
+  idle: 'не загружен',
+  loading: '⏳ загрузка',
+  buffering: '⏳ буферизация',
+  playing: '▶️ воспроизведение',
+  paused: '⏸️ пауза',
+  error: '⚠️ ошибка'
+};
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function getSelect(id: string): HTMLSelectElement {
+  return document.getElementById(id) as HTMLSelectElement;
+}
+
+document.addEventListener('DOMContentLoaded', async () => {
+  console.log('🎛️ Popup loaded');
+
+  // Загружаем сохраненные настройки
+  const settings = await SettingsManager.getSettings();
+
+  console.log('📋 Loaded settings:', settings);
+
+  // Устанавливаем значения в форму
+  getInput('enablePlayer').checked = settings.enablePlayer;
+  getSelect('defaultQuality').value = settings.defaultQuality;
+  getInput('autoplay').checked = settings.autoplay;
+  getInput('autoSkip').checked = settings.autoSkip;
+  getInput('autoNext').checked = settings.autoNext;
+  getSelect('nextEpisodeCountdown').value = String(settings.nextEpisodeCountdown);
+  getSelect('stillWatchingAfter').value = String(settings.stillWatchingAfter);
+  getInput('preloadNext').checked = settings.preloadNext;
+  getInput('showNotifications').checked = settings.showNotifications;
+  getSelect('bufferSize').value = String(settings.bufferSize);
+  getSelect('playbackRate').value = String(settings.playbackRate);
+  getInput('preservePitch').checked = settings.preservePitch;
+
+  // Обновляем статус
+  updateStatus(settings.enablePlayer);
+
+  await renderContinueWatching();
+
+  // Получаем информацию о текущей вкладке
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const isValidSite = tab?.url?.includes('animestars.org') || tab?.url?.includes('asstars.tv');
+    
+    if (tab?.id && isValidSite) {
+      // Запрашиваем статистику у content script
+      await requestPlayersInfo(tab.id);
+    }
+  } catch (error) {
+    console.log('🚫 Error getting tab info:', error);
+  }
+
+  // Сохраняем настройки при изменении
+  const inputs = document.querySelectorAll('input, select');
+  inputs.forEach(input => {
+    input.addEventListener('change', async () => {
+      const newSettings: ExtensionSettings = {
+        enablePlayer: getInput('enablePlayer').checked,
+        defaultQuality: getSelect('defaultQuality').value as DefaultQualitySetting,
+        autoplay: getInput('autoplay').checked,
+        autoSkip: getInput('autoSkip').checked,
+        autoNext: getInput('autoNext').checked,
+        nextEpisodeCountdown: Number(getSelect('nextEpisodeCountdown').value),
+        stillWatchingAfter: Number(getSelect('stillWatchingAfter').value),
+        preloadNext: getInput('preloadNext').checked,
+        showNotifications: getInput('showNotifications').checked,
+        bufferSize: Number(getSelect('bufferSize').value),
+        playbackRate: Number(getSelect('playbackRate').value),
+        preservePitch: getInput('preservePitch').checked
+      };
+
+      // Content script получает изменения через chrome.storage.onChanged
+      console.log('💾 Saving settings:', newSettings);
+      await SettingsManager.saveSettings(newSettings);
+      updateStatus(newSettings.enablePlayer);
+    });
+  });
+
+  // Обработчик кнопки перезагрузки
+  document.getElementById('reloadPlayers')?.addEventListener('click', async () => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id && (tab.url?.includes('animestars.org') || tab.url?.includes('asstars.tv'))) {
+        const btn = document.getElementById('reloadPlayers') as HTMLButtonElement;
+        const originalText = btn.textContent;
+        btn.textContent = '⏳ Перезагрузка...';
+        btn.disabled = true;
+
+        const response = await chrome.tabs.sendMessage<{ type: string }, ReloadPlayersResponse | undefined>(tab.id, { type: 'RELOAD_PLAYERS' });
+        console.log('🔄 Reload result:', response);
+        
+        // Показываем обратную связь
+        btn.textContent = response?.success ? '✓ Перезагружено' : '✗ Не удалось';
+        await requestPlayersInfo(tab.id);
+        
+        setTimeout(() => {
+          btn.textContent = originalText;
+          btn.disabled = false;
+        }, 2000);
+      } else {
+        alert('Откройте страницу AnimStars для перезагрузки плееров');
+      }
+    } catch (error) {
+      console.error('❌ Error reloading players:', error);
+      alert('Ошибка при перезагрузке плееров');
+    }
+  });
+
+  // Обработчик кнопки дополнительных настроек
+  document.getElementById('openOptions')?.addEventListener('click', () => {
+    chrome.runtime.openOptionsPage?.();
+  });
+});
+
+/**
+ * Список "Продолжить просмотр": последние просмотренные аниме, новые сверху
+ */
+async function renderContinueWatching() {
+  const section = document.getElementById('continueWatching');
+  const list = document.getElementById('historyList');
+  const totals = document.getElementById('viewingTotals');
+  if (!section || !list || !totals) return;
+
+  const stats = await ProgressManager.getViewingStats();
+  const entries = stats.recentlyWatched
+    .filter(progress => progress.url)
+    .sort((a, b) => b.lastWatched - a.lastWatched);
+
+  section.hidden = entries.length === 0;
+  totals.textContent = `${stats.totalAnimes} аниме • ${ProgressManager.formatDuration(stats.totalWatchTime)}`;
+  list.replaceChildren(...entries.map(createHistoryItem));
+}
+
+function createHistoryItem(progress: WatchProgress): HTMLElement {
+  const percent = progress.duration > 0
+    ? Math.min(100, Math.round((progress.currentTime / progress.duration) * 100))
+    : 0;
+
+  const item = document.createElement('div');
+  item.className = 'history-item';
+  item.title = `Продолжить с ${ProgressManager.formatTime(progress.currentTime)}`;
+
+  const title = document.createElement('div');
+  title.className = 'title';
+  title.textContent = progress.title || `ID ${progress.animeId}`;
+
+  const meta = document.createElement('div');
+  meta.className = 'meta';
+  meta.textContent = [
+    ProgressManager.formatEpisodeLabel(progress.episode, progress.season),
+    progress.translationTitle,
+    `${percent}%`
+  ].filter(Boolean).join(' • ');
+
+  const bar = document.createElement('div');
+  bar.className = 'bar';
+  const fill = document.createElement('div');
+  fill.style.width = `${percent}%`;
+  bar.appendChild(fill);
+
+  const remove = document.createElement('button');
+  remove.className = 'remove';
+  remove.title = 'Удалить из истории';
+  remove.textContent = '✕';
+  remove.addEventListener('click', async (e) => {
+    e.stopPropagation();
+    await ProgressManager.removeProgress(progress.animeId);
+    await renderContinueWatching();
+  });
+
+  // Content script восстановит серию, озвучку и позицию при открытии страницы
+  item.addEventListener('click', async () => {
+    await ProgressManager.requestResume(progress.animeId);
+    await chrome.tabs.create({ url: progress.url });
+    window.close();
+  });
+
+  item.append(title, meta, bar, remove);
+  return item;
+}
+
+function updateStatus(enabled: boolean) {
+  const statusEl = document.getElementById('status');
+  if (!statusEl) return;
+  if (enabled) {
+    statusEl.className = 'status active';
+    statusEl.textContent = '✅ Расширение активно';
+  } else {
+    statusEl.className = 'status inactive';
+    statusEl.textContent = '❌ Расширение отключено';
+  }
+}
+
+/**
+ * Запрашивает у content script состояние плееров на вкладке
+ */
+async function requestPlayersInfo(tabId: number) {
+  try {
+    const response = await chrome.tabs.sendMessage<{ type: string }, PlayersInfo | undefined>(tabId, { type: 'GET_PLAYERS_INFO' });
+    console.log('📊 Players info:', response);
+    updatePlayersInfo(response);
+  } catch (error) {
+    console.log('📝 Content script not ready yet');
+  }
+}
+
+function updatePlayersInfo(info: PlayersInfo | undefined) {
+  const statusEl = document.getElementById('status');
+  const infoEl = document.getElementById('playerInfo');
+  if (!info || !statusEl || !infoEl) return;
+
+  if (info.detected > 0) {
+    statusEl.innerHTML = `
+      ✅ Найдено плееров: ${info.detected}<br>
+      🚀 Заменено: ${info.replaced}
+    `;
+  }
+
+  const lines: string[] = [];
+  if (info.anime) {
+    lines.push(`🎬 ${escapeHtml(info.anime.title)}`);
+    lines.push(info.anime.episode === ProgressManager.MOVIE_EPISODE
+      ? '📺 Фильм'
+      : `📺 Сезон ${info.anime.season}, серия ${info.anime.episode}${info.anime.totalEpisodes ? ` из ${info.anime.totalEpisodes}` : ''}`);
+  }
+  if (info.translation) {
+    lines.push(`🎙️ ${escapeHtml(info.translation.title)}`);
+  }
+  if (info.quality.available.length > 0) {
+    const selected = info.quality.selected === 'auto' ? 'Авто' : info.quality.selected ? `${info.quality.selected}p` : '—';
+    const current = info.quality.current ? ` (сейчас ${info.quality.current}p)` : '';
+    lines.push(`🎚️ Качество: ${selected}${current}`);
+  }
+  if (info.replaced > 0) {
+    const stream = info.stream;
+    lines.push(`📡 Поток: ${STREAM_STATE_LABELS[stream.state]}, буфер ${stream.bufferedAhead.toFixed(1)} с`);
+    if (stream.lastError) {
+      lines.push(`<span class="error">${escapeHtml(stream.lastError)}</span>`);
+    }
+  }
+
+  infoEl.innerHTML = lines.join('<br>');
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
@@ -0,0 +1,48 @@
+// События плеера для шины playerEvents: на них подписываются прогресс, селекторы и контролы
+import type { EpisodeWatchState } from './progress';
+
+export interface EpisodeChangedEvent {
+  animeId?: string;
+  season: number;
+  episode: number;
+}
+
+export interface TranslationChangedEvent {
+  translationId: string;
+  title: string;
+}
+
+export interface QualityChangedEvent {
+  quality: number | 'auto';
+}
+
+export interface ProgressSavedEvent {
+  animeId: string;
+  season: number;
+  episode: number;
+  currentTime: number;
+  duration: number;
+  state: EpisodeWatchState;
+}
+
+export interface StreamResolvedEvent {
+  url: string;
+  season: number;
+  episode: number;
+  qualities: number[];
+  maxQuality: number;
+}
+
+export interface StreamErrorEvent {
+  message: string;
+  stage: 'resolve' | 'playback'; // получение ссылок Kodik или воспроизведение в плеере
+}
+
+export interface PlayerEventMap {
+  episodeChanged: EpisodeChangedEvent;
+  translationChanged: TranslationChangedEvent;
+  qualityChanged: QualityChangedEvent;
+  progressSaved: ProgressSavedEvent;
+  streamResolved: StreamResolvedEvent;
+  streamError: StreamErrorEvent;
+}
@@ -0,0 +1,39 @@
+// Типы горячих клавиш плеера (chrome.storage.sync)
+
+export type KeyAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'seekBackwardLong'
+  | 'seekForwardLong'
+  | 'frameBackward'
+  | 'frameForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'speedUp'
+  | 'speedDown'
+  | 'previousEpisode'
+  | 'nextEpisode'
+  | 'skipSegment'
+  | 'subtitleEarlier'
+  | 'subtitleLater'
+  | 'showHelp';
+
+// Клавиша записывается как `${модификаторы}${KeyboardEvent.code}`, например `Shift+ArrowRight`:
+// code не зависит от раскладки, поэтому KeyF работает и на ЙЦУКЕН
+export type KeyBinding = string;
+
+export interface KeymapSettings {
+  bindings: Record<KeyAction, KeyBinding[]>;
+  seekStep: number; // seconds
+  longSeekStep: number; // seconds
+  volumeStep: number; // percent
+  digitSeek: boolean; // 0–9 перематывают на 0–90% серии
+}
+
+export interface KeymapConflict {
+  key: KeyBinding;
+  actions: KeyAction[];
+}
@@ -1,6 +1,8 @@
 // Основные типы для работы с Kodik API
 // Портированы из Python anime_parsers_ru
 
+import { SubtitleSource } from './subtitles';
+
 export interface KodikTranslation {
   id: string;
   title: string;
@@ -186,8 +188,88 @@ export interface KodikVideoLinks {
   }>;
 }
 
+// Внешние субтитры в ответе Kodik (у субтитровых переводов), src может быть зашифрован как ссылки видео
+export interface KodikSubtitleLink {
+  src: string;
+  lang?: string;
+  label?: string;
+}
+
 export interface KodikVideoResponse {
   links: KodikVideoLinks;
+  subtitles?: KodikSubtitleLink[];
+}
+
+// Сезон из селектора .serial-seasons-box на странице плеера
+export interface KodikSeasonOption {
+  number: number;
+  title: string;
+}
+
+// Типы для резолвера потоков Kodik
+export type KodikUrlParams = KodikPageData['urlParams'];
+
+export interface KodikVideoParams {
+  type: string;
+  hash: string;
+  id: string;
+}
+
+export type KodikExtractionStage = 'urlParams' | 'videoParams' | 'scriptUrl' | 'postLink';
+
+export interface KodikExtractionStrategy<T> {
+  name: string;
+  extract(source: string): T | null;
+}
+
+export interface KodikExtractionStrategies {
+  urlParams: KodikExtractionStrategy<KodikUrlParams>[];
+  videoParams: KodikExtractionStrategy<KodikVideoParams>[];
+  scriptUrl: KodikExtractionStrategy<string>[];
+  postLink: KodikExtractionStrategy<string>[];
+}
+
+export interface KodikExtractionAttempt {
+  stage: KodikExtractionStage;
+  strategy: string;
+  matched: boolean;
+  error?: string;
+}
+
+export interface KodikStreamDiagnostics {
+  embedUrl: string;
+  matched: Partial<Record<KodikExtractionStage, string>>;
+  attempts: KodikExtractionAttempt[];
+  scriptUrl?: string;
+  postUrl?: string;
+  decryptedQualities: number[];
+  failedQualities: number[];
+  durationMs: number;
+}
+
+export interface KodikStreamMap {
+  [quality: number]: string;
+}
+
+// Тип материала Kodik: сериал (/serial/) или фильм (/video/)
+export type KodikMediaType = 'serial' | 'video';
+
+// Серия, для которой background резолвит потоки (RESOLVE_STREAM); у фильма серия 0
+export interface KodikStreamTarget {
+  mediaType: KodikMediaType;
+  mediaId: string;
+  mediaHash: string;
+  translationId: string;
+  season: number;
+  episode: number;
+}
+
+export interface KodikStreamResolution {
+  streams: KodikStreamMap;
+  qualities: number[];
+  maxQuality: number;
+  subtitles: SubtitleSource[];
+  diagnostics: KodikStreamDiagnostics;
 }
 
 // Типы для HLS манифестов
@@ -248,12 +330,3 @@ export interface CacheEntry<T> {
   timestamp: number;
   expires_at: number;
 }
-
-// Конфигурация расширения
-export interface ExtensionConfig {
-  default_quality: string;
-  auto_play: boolean;
-  show_controls: boolean;
-  cache_duration: number;
-  debug_mode: boolean;
-}
@@ -0,0 +1,83 @@
+// Сообщения между popup/options и content script
+import type { CacheLayer, CacheStats } from '../utils/cache';
+import type { KodikAPIOptimized } from '../api/kodik-client';
+import type { KodikStreamDiagnostics, KodikStreamResolution, KodikStreamTarget } from './kodik';
+import type { KodikStreamResolveError } from '../api/stream-resolver';
+import type { KodikTokenState } from '../utils/kodik-token';
+
+export type StreamState = 'idle' | 'loading' | 'buffering' | 'playing' | 'paused' | 'error';
+
+export interface StreamHealth {
+  state: StreamState;
+  bufferedAhead: number; // seconds
+  currentTime: number;
+  duration: number;
+  hls: boolean;
+  lastError: string | null;
+}
+
+export interface PlayersInfo {
+  enabled: boolean;
+  detected: number;
+  replaced: number;
+  anime: {
+    id: string;
+    title: string;
+    season: number;
+    episode: number;
+    totalEpisodes?: number;
+  } | null;
+  translation: {
+    id: string;
+    title: string;
+  } | null;
+  quality: {
+    selected: number | 'auto' | null;
+    current: number | null;
+    available: number[];
+  };
+  stream: StreamHealth;
+}
+
+export interface ReloadPlayersResponse {
+  success: boolean;
+  error?: string;
+}
+
+// Кэши живут в контексте страницы (localStorage/IndexedDB animestars), поэтому options page запрашивает их у вкладок
+export type CacheClearTarget = CacheLayer | 'api';
+
+export interface CacheStatsResponse {
+  url: string;
+  cache: CacheStats;
+  api: ReturnType<KodikAPIOptimized['getCacheStats']>;
+}
+
+export interface ClearCacheRequest {
+  type: 'CLEAR_CACHE';
+  layer: CacheClearTarget;
+}
+
+// Получение потоков серии в background: результат общий для всех вкладок
+export interface ResolveStreamRequest extends KodikStreamTarget {
+  type: 'RESOLVE_STREAM';
+}
+
+export type ResolveStreamResponse =
+  | { success: true; resolution: KodikStreamResolution; cached: boolean }
+  | { success: false; error: string; stage?: KodikStreamResolveError['stage']; diagnostics?: KodikStreamDiagnostics };
+
+// Токен Kodik API выдает background, токен общий для всех вкладок
+export interface GetKodikTokenRequest {
+  type: 'GET_KODIK_TOKEN';
+}
+
+// Токен отвергнут API: background сбрасывает его и возвращает новый
+export interface InvalidateKodikTokenRequest {
+  type: 'INVALIDATE_KODIK_TOKEN';
+  token: string;
+}
+
+export type KodikTokenResponse =
+  | ({ success: true } & KodikTokenState & { token: string })
+  | { success: false; error: string };
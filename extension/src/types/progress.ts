@@ -1,13 +1,16 @@
 // Типы для системы отслеживания прогресса просмотра
 
+// Сводка по последней просмотренной серии аниме (строится из AnimeHistory)
 export interface WatchProgress {
   animeId: string;
+  season?: number;
   episode: number;
   currentTime: number;
   duration: number;
   lastWatched: number; // timestamp
   title?: string;
   translationId?: string;
+  translationTitle?: string;
   url?: string;
 }
 
@@ -15,12 +18,43 @@ export interface ProgressStorage {
   [animeId: string]: WatchProgress;
 }
 
+export type EpisodeWatchState = 'watched' | 'partial' | 'unwatched';
+
+export interface EpisodeProgress {
+  season: number;
+  episode: number;
+  state: EpisodeWatchState;
+  currentTime: number; // последняя позиция
+  duration: number;
+  lastWatched: number; // timestamp
+  completedAt?: number; // timestamp первого досмотра
+  translationId?: string;
+}
+
+// История просмотра аниме по сериям, ключ серии `${season}:${episode}`
+export interface AnimeHistory {
+  animeId: string;
+  title?: string;
+  url?: string;
+  translationId?: string;
+  translationTitle?: string;
+  lastWatched: number;
+  lastEpisode: string;
+  episodes: { [episodeKey: string]: EpisodeProgress };
+}
+
+export interface HistoryStorage {
+  [animeId: string]: AnimeHistory;
+}
+
 export interface AnimeInfo {
   id: string;
   title: string;
+  currentSeason?: number;
   currentEpisode: number;
   totalEpisodes?: number;
   translationId?: string;
+  translationTitle?: string;
   url?: string;
 }
 
@@ -34,7 +68,42 @@ export interface ProgressSettings {
 
 export interface ResumeOptions {
   resumeTime: number;
+  season?: number;
   episode: number;
   translation?: string;
   askBeforeResume: boolean;
 }
+
+// Отметки опенинга и эндинга
+export type SkipSegmentType = 'opening' | 'ending';
+
+export type SkipMarkerScope = 'series' | 'episode';
+
+export interface SkipRange {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// null в переопределении серии означает, что в этой серии сегмента нет
+export interface SkipMarkers {
+  opening?: SkipRange | null;
+  ending?: SkipRange | null;
+}
+
+// Отметки одной озвучки: общие для сериала и переопределения по сериям (ключ `${season}:${episode}`)
+export interface TranslationSkipMarkers {
+  series: SkipMarkers;
+  episodes: { [episodeKey: string]: SkipMarkers };
+  updatedAt: number;
+}
+
+export interface SkipMarkersStorage {
+  [animeId: string]: { [translationId: string]: TranslationSkipMarkers };
+}
+
+// Итоговые отметки серии с источником каждой из них
+export interface ResolvedSkipMarkers {
+  opening: SkipRange | null;
+  ending: SkipRange | null;
+  sources: Record<SkipSegmentType, SkipMarkerScope | null>;
+}
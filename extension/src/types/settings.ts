@@ -0,0 +1,18 @@
+// Типы пользовательских настроек расширения (chrome.storage.sync)
+
+export type DefaultQualitySetting = 'auto' | '1080' | '720' | '480' | '360';
+
+export interface ExtensionSettings {
+  enablePlayer: boolean;
+  defaultQuality: DefaultQualitySetting;
+  autoplay: boolean;
+  autoSkip: boolean; // автоматически пропускать отмеченные опенинги и эндинги
+  autoNext: boolean; // автопереход к следующей серии
+  nextEpisodeCountdown: number; // seconds
+  stillWatchingAfter: number; // спрашивать «Вы ещё смотрите?» после N автопереходов подряд, 0 — не спрашивать
+  preloadNext: boolean; // заранее получать поток следующей серии
+  showNotifications: boolean;
+  bufferSize: number; // seconds
+  playbackRate: number; // общая скорость, если для аниме скорость не выбрана
+  preservePitch: boolean;
+}
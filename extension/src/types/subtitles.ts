@@ -0,0 +1,38 @@
+// Типы субтитров: внешние файлы из ответа Kodik и настройки отображения (chrome.storage.sync)
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ass';
+
+// Файл субтитров, найденный в ответе Kodik
+export interface SubtitleSource {
+  url: string;
+  label: string;
+  language?: string;
+}
+
+export type SubtitleBackground = 'none' | 'semi' | 'solid';
+
+export interface SubtitleSettings {
+  enabled: boolean; // включать субтитры автоматически, если они есть
+  language: string | null; // последняя выбранная дорожка
+  fontSize: number; // percent
+  color: string;
+  background: SubtitleBackground;
+  offset: number; // отступ снизу, percent of video height
+}
+
+// Реплика субтитров после разбора WebVTT, settings — строка настроек после времени (line:5% ...)
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  settings: string;
+}
+
+// Свой файл субтитров, загруженный пользователем для серии (IndexedDB)
+export interface LocalSubtitleRecord {
+  key: string; // `${animeId}:${season}:${episode}`
+  fileName: string;
+  cues: SubtitleCue[];
+  offset: number; // seconds, положительный — субтитры позже
+  savedAt: number;
+}
@@ -1,5 +1,12 @@
 // Парсер для извлечения информации об аниме с сайтов animestars.org и asstars.tv
 import { AnimeInfo } from '../types/progress';
+import { IDType } from '../types/kodik';
+
+// ID в каталогах, по которым Kodik API ищет материал
+export interface ExternalAnimeId {
+  id: string;
+  idType: IDType;
+}
 
 export class AnimeParser {
   /**
@@ -49,7 +56,7 @@ export class AnimeParser {
   /**
    * Извлекает ID аниме из URL или страницы
    */
-  private static extractAnimeId(url: string): string | null {
+  static extractAnimeId(url: string): string | null {
     console.log('🔍 Extracting anime ID from URL:', url);
     
     // Паттерны для разных форматов URL на animestars и asstars
@@ -175,10 +182,55 @@ export class AnimeParser {
     return null;
   }
 
+  /**
+   * Ищет на странице ссылки на Shikimori, Кинопоиск и IMDb для поиска в Kodik API
+   */
+  static extractExternalIds(): ExternalAnimeId[] {
+    const ids: ExternalAnimeId[] = [];
+    const links = document.querySelectorAll('a[href*="shikimori"], a[href*="kinopoisk"], a[href*="imdb.com"]');
+
+    for (let i = 0; i < links.length; i++) {
+      const externalId = this.parseExternalId(links[i].getAttribute('href') || '');
+      if (externalId && !ids.some(known => known.idType === externalId.idType && known.id === externalId.id)) {
+        ids.push(externalId);
+      }
+    }
+
+    // Shikimori точнее всего сопоставляется с материалами Kodik
+    const order: IDType[] = ['shikimori', 'kinopoisk', 'imdb'];
+    ids.sort((a, b) => order.indexOf(a.idType) - order.indexOf(b.idType));
+
+    console.log('🔗 External anime ids:', ids);
+    return ids;
+  }
+
+  /**
+   * Извлекает ID из ссылки на каталог
+   * Пример: https://shikimori.one/animes/z5114-fullmetal-alchemist → { id: '5114', idType: 'shikimori' }
+   */
+  static parseExternalId(url: string): ExternalAnimeId | null {
+    const shikimori = url.match(/shikimori\.(?:one|me|org)\/animes\/[a-z]?(\d+)/i);
+    if (shikimori) {
+      return { id: shikimori[1], idType: 'shikimori' };
+    }
+
+    const kinopoisk = url.match(/kinopoisk\.ru\/(?:film|series)\/(\d+)/i);
+    if (kinopoisk) {
+      return { id: kinopoisk[1], idType: 'kinopoisk' };
+    }
+
+    const imdb = url.match(/imdb\.com\/title\/(tt\d+)/i);
+    if (imdb) {
+      return { id: imdb[1], idType: 'imdb' };
+    }
+
+    return null;
+  }
+
   /**
    * Извлекает название аниме
    */
-  private static extractTitle(): string | null {
+  static extractTitle(): string | null {
     console.log('🔍 Extracting anime title');
     
     // Селекторы для названия аниме
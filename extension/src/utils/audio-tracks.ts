@@ -0,0 +1,70 @@
+// Аудиодорожки HLS: выбор дорожки по запомненному языку и хранение языка для каждого аниме
+
+// Дорожка в том виде, в каком её отдают HLS.js (audioTracks) и парсер манифеста
+export interface AudioTrackInfo {
+  name: string;
+  language?: string;
+  isDefault?: boolean;
+}
+
+export class AudioTrackManager {
+  private static readonly STORAGE_KEY = 'animeAudioLanguages';
+
+  /**
+   * Запомненный язык аудио для аниме
+   */
+  static async getLanguage(animeId: string | undefined): Promise<string | null> {
+    if (!animeId) return null;
+
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      const language = result[this.STORAGE_KEY]?.[animeId];
+      return typeof language === 'string' ? language : null;
+    } catch (error) {
+      console.error('Failed to get audio language:', error);
+      return null;
+    }
+  }
+
+  static async saveLanguage(animeId: string, language: string): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      const languages: Record<string, string> = result[this.STORAGE_KEY] || {};
+      languages[animeId] = language;
+      await chrome.storage.local.set({ [this.STORAGE_KEY]: languages });
+    } catch (error) {
+      console.error('Failed to save audio language:', error);
+    }
+  }
+
+  /**
+   * Ключ для запоминания: код языка, а если его нет — название дорожки
+   */
+  static trackKey(track: AudioTrackInfo): string {
+    return (track.language || track.name).toLowerCase();
+  }
+
+  /**
+   * Индекс дорожки для запомненного языка, иначе дорожка по умолчанию из манифеста
+   */
+  static pickTrack(tracks: AudioTrackInfo[], language: string | null): number {
+    if (tracks.length === 0) return -1;
+
+    if (language) {
+      const preferred = tracks.findIndex(track => this.trackKey(track) === language.toLowerCase());
+      if (preferred !== -1) return preferred;
+    }
+
+    const byDefault = tracks.findIndex(track => track.isDefault);
+    return byDefault === -1 ? 0 : byDefault;
+  }
+
+  /**
+   * Подпись в меню: название и код языка, если они различаются
+   */
+  static formatLabel(track: AudioTrackInfo): string {
+    const language = track.language?.toUpperCase();
+    if (!language || track.name.toUpperCase() === language) return track.name;
+    return `${track.name} (${language})`;
+  }
+}
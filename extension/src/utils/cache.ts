@@ -20,7 +20,7 @@ interface CacheEntry {
   lastAccess: number;
 }
 
-interface CacheStats {
+export interface CacheStats {
   memoryEntries: number;
   memorySize: number;
   indexedDBEntries: number;
@@ -31,6 +31,8 @@ interface CacheStats {
   totalHits: number;
 }
 
+export type CacheLayer = 'memory' | 'indexedDB' | 'session' | 'local';
+
 export class OptimizedCache {
   private static instance: OptimizedCache | null = null;
   
@@ -500,29 +502,46 @@ export class OptimizedCache {
    * Очищает весь кэш
    */
   async clear(): Promise<void> {
-    // Memory cache
-    this.memoryCache.clear();
-    
-    // IndexedDB
-    if (this.db) {
-      try {
-        const transaction = this.db.transaction(['cache'], 'readwrite');
-        const store = transaction.objectStore('cache');
-        store.clear();
-      } catch (error) {
-        console.warn('IndexedDB clear error:', error);
-      }
+    for (const layer of ['memory', 'indexedDB', 'session', 'local'] as CacheLayer[]) {
+      await this.clearLayer(layer);
     }
     
-    // Session storage
-    this.cleanupSessionStorage(true);
-    
-    // Local storage
-    this.cleanupLocalStorage(true);
-    
     console.log('🗑️ All caches cleared');
   }
 
+  /**
+   * Очищает один уровень кэша
+   */
+  async clearLayer(layer: CacheLayer): Promise<void> {
+    switch (layer) {
+      case 'memory':
+        this.memoryCache.clear();
+        break;
+        
+      case 'indexedDB':
+        if (this.db) {
+          try {
+            const transaction = this.db.transaction(['cache'], 'readwrite');
+            const store = transaction.objectStore('cache');
+            store.clear();
+          } catch (error) {
+            console.warn('IndexedDB clear error:', error);
+          }
+        }
+        break;
+        
+      case 'session':
+        this.cleanupSessionStorage(true);
+        break;
+        
+      case 'local':
+        this.cleanupLocalStorage(true);
+        break;
+    }
+    
+    console.log(`🗑️ Cache layer cleared: ${layer}`);
+  }
+
   /**
    * Очищает устаревшие записи
    */
@@ -684,7 +703,7 @@ export class OptimizedCache {
     return {
       memoryEntries: this.memoryCache.size,
       memorySize: Math.round(memorySize / 1024), // в KB
-      indexedDBEntries: 0, // TODO: подсчитать асинхронно
+      indexedDBEntries: 0, // Считается асинхронно в getFullStats()
       sessionEntries: this.countStorageEntries(sessionStorage),
       localEntries: this.countStorageEntries(localStorage),
       hitRate: Math.round(hitRate * 100) / 100,
@@ -693,6 +712,34 @@ export class OptimizedCache {
     };
   }
 
+  /**
+   * Получает статистику кэша вместе с количеством записей в IndexedDB
+   */
+  async getFullStats(): Promise<CacheStats> {
+    return {
+      ...this.getStats(),
+      indexedDBEntries: await this.countIndexedDBEntries()
+    };
+  }
+
+  /**
+   * Подсчитывает записи в IndexedDB
+   */
+  private countIndexedDBEntries(): Promise<number> {
+    if (!this.db) return Promise.resolve(0);
+    
+    return new Promise((resolve) => {
+      try {
+        const request = this.db!.transaction(['cache'], 'readonly').objectStore('cache').count();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(0);
+      } catch (error) {
+        console.warn('IndexedDB count error:', error);
+        resolve(0);
+      }
+    });
+  }
+
   /**
    * Подсчитывает записи в storage
    */
@@ -719,16 +766,3 @@ export const cache = {
   clear: () => globalCache.clear(),
   stats: () => globalCache.getStats()
 };
-
-// Специальные функции для Kodik токена (для совместимости)
-export async function getKodikToken(): Promise<string | null> {
-  return await globalCache.get<string>('kodik_token');
-}
-
-export async function cacheKodikToken(token: string): Promise<void> {
-  await globalCache.set('kodik_token', token, {
-    ttl: 60 * 60 * 1000, // 1 час
-    persistent: true,
-    priority: 'high'
-  });
-}
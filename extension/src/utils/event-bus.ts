@@ -0,0 +1,57 @@
+// Типизированная шина событий: подписчики получают данные события по его имени
+// Ошибка одного подписчика не мешает остальным
+
+import { PlayerEventMap } from '../types/events';
+
+export type EventHandler<T> = (data: T) => void;
+
+export class EventBus<Events extends object> {
+  private handlers = new Map<keyof Events, Set<EventHandler<any>>>();
+
+  /**
+   * Подписка на событие, возвращает функцию отписки
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Подписка на первое срабатывание события
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    const unsubscribe = this.on(event, data => {
+      unsubscribe();
+      handler(data);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  emit<K extends keyof Events>(event: K, data: Events[K]) {
+    // Копия списка: подписчик может отписаться прямо в обработчике
+    for (const handler of [...(this.handlers.get(event) || [])]) {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`❌ Event "${String(event)}" handler failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Снимает все подписки
+   */
+  clear() {
+    this.handlers.clear();
+  }
+}
+
+// Общая шина событий плеера на странице
+export const playerEvents = new EventBus<PlayerEventMap>();
@@ -0,0 +1,146 @@
+// Правила declarativeNetRequest для заголовков запросов к Kodik
+// Referer и Origin запрещено задавать через fetch (браузер молча их отбрасывает), поэтому их подставляют правила:
+// статический набор из rules/kodik-headers.json и динамические правила, которые background обновляет при установке.
+// Оба вида действуют только на запросы самого расширения, запросы страниц сайта правила не меняют
+
+import { KODIK_BASE_URL, KODIK_ORIGIN } from '../config/endpoints';
+
+type Rule = chrome.declarativeNetRequest.Rule;
+
+// Правило с источником для страницы настроек
+export interface HeaderRuleEntry {
+  source: 'static' | 'dynamic';
+  enabled: boolean;
+  rule: Rule;
+}
+
+interface HeaderRuleTarget {
+  domains: string[];
+  origin: boolean; // CDN достаточно Referer, Origin нужен страницам плеера и API
+}
+
+export class HeaderRulesManager {
+  static readonly STATIC_RULESET_ID = 'kodik_headers';
+  static readonly STATIC_RULESET_PATH = 'rules/kodik-headers.json';
+  // Инициатор в rules/kodik-headers.json, сборка заменяет его на id расширения (--env extensionId=...)
+  static readonly STATIC_INITIATOR_PLACEHOLDER = 'extension-id';
+
+  // Динамические правила расширения занимают диапазон id, чужие правила sync() не трогает
+  static readonly FIRST_DYNAMIC_ID = 100;
+  static readonly LAST_DYNAMIC_ID = 199;
+
+  private static readonly TARGETS: HeaderRuleTarget[] = [
+    { domains: ['kodik.info'], origin: true },
+    { domains: ['kodikapi.com'], origin: true },
+    { domains: ['cloud.kodik-storage.com'], origin: false }
+  ];
+
+  /**
+   * Правила для запросов, которые делает само расширение (background, popup, страница настроек)
+   * @param extensionId id расширения: запросы из его страниц и service worker идут с инициатором chrome-extension://<id>
+   */
+  static buildDynamicRules(extensionId: string, baseUrl: string = KODIK_BASE_URL): Rule[] {
+    // В тестовых сборках kodik.info подменяется локальным сервером, ему нужны те же заголовки
+    const kodikHost = new URL(baseUrl).hostname;
+
+    return this.TARGETS.map((target, index) => {
+      const domains = target.domains.includes('kodik.info') && kodikHost !== 'kodik.info'
+        ? [...target.domains, kodikHost]
+        : target.domains;
+
+      const requestHeaders: chrome.declarativeNetRequest.ModifyHeaderInfo[] = [
+        { header: 'Referer', operation: 'set' as chrome.declarativeNetRequest.HeaderOperation, value: `${KODIK_ORIGIN}/` }
+      ];
+      if (target.origin) {
+        requestHeaders.push({ header: 'Origin', operation: 'set' as chrome.declarativeNetRequest.HeaderOperation, value: KODIK_ORIGIN });
+      }
+
+      return {
+        id: this.FIRST_DYNAMIC_ID + index,
+        priority: 1,
+        action: {
+          type: 'modifyHeaders' as chrome.declarativeNetRequest.RuleActionType,
+          requestHeaders
+        },
+        condition: {
+          requestDomains: domains,
+          initiatorDomains: [extensionId],
+          resourceTypes: ['xmlhttprequest', 'other'] as chrome.declarativeNetRequest.ResourceType[]
+        }
+      };
+    });
+  }
+
+  /**
+   * Заменяет динамические правила расширения актуальными и включает статический набор,
+   * если он собран для этого id расширения
+   */
+  static async sync(): Promise<Rule[]> {
+    const rules = this.buildDynamicRules(chrome.runtime.id);
+    const existing = await chrome.declarativeNetRequest.getDynamicRules();
+
+    await chrome.declarativeNetRequest.updateDynamicRules({
+      removeRuleIds: existing.map(rule => rule.id).filter(id => this.isOwnRule(id)),
+      addRules: rules
+    });
+
+    const staticEnabled = this.isScopedToExtension(await this.readStaticRules(), chrome.runtime.id);
+    await chrome.declarativeNetRequest.updateEnabledRulesets(staticEnabled
+      ? { enableRulesetIds: [this.STATIC_RULESET_ID] }
+      : { disableRulesetIds: [this.STATIC_RULESET_ID] });
+
+    console.log(`🛡️ Header rules updated: ${rules.length} dynamic rules, static ruleset ${staticEnabled ? 'enabled' : 'disabled'}`);
+    return rules;
+  }
+
+  /**
+   * Правила расширения для страницы настроек: статический набор и динамические правила
+   */
+  static async getRules(): Promise<HeaderRuleEntry[]> {
+    const [enabledRulesets, staticRules, dynamicRules] = await Promise.all([
+      chrome.declarativeNetRequest.getEnabledRulesets(),
+      this.readStaticRules(),
+      chrome.declarativeNetRequest.getDynamicRules()
+    ]);
+    const staticEnabled = enabledRulesets.includes(this.STATIC_RULESET_ID);
+
+    return [
+      ...staticRules.map(rule => ({ source: 'static' as const, enabled: staticEnabled, rule })),
+      ...dynamicRules
+        .filter(rule => this.isOwnRule(rule.id))
+        .map(rule => ({ source: 'dynamic' as const, enabled: true, rule }))
+    ];
+  }
+
+  /**
+   * Статический набор действует только на запросы расширения: каждое правило ограничено его id
+   * В сборке без --env extensionId остается заглушка, и набор не включается
+   */
+  static isScopedToExtension(rules: Rule[], extensionId: string): boolean {
+    return rules.length > 0 && rules.every(rule =>
+      rule.condition.initiatorDomains?.length === 1 && rule.condition.initiatorDomains[0] === extensionId);
+  }
+
+  /**
+   * Краткое описание заголовков правила: «Referer: https://kodik.info/, Origin: ...»
+   */
+  static formatHeaders(rule: Rule): string {
+    return (rule.action.requestHeaders || [])
+      .map(header => header.operation === 'remove' ? `−${header.header}` : `${header.header}: ${header.value}`)
+      .join(', ');
+  }
+
+  private static async readStaticRules(): Promise<Rule[]> {
+    try {
+      const response = await fetch(chrome.runtime.getURL(this.STATIC_RULESET_PATH));
+      return await response.json();
+    } catch (error) {
+      console.warn('⚠️ Failed to read static header rules:', error);
+      return [];
+    }
+  }
+
+  private static isOwnRule(id: number): boolean {
+    return id >= this.FIRST_DYNAMIC_ID && id <= this.LAST_DYNAMIC_ID;
+  }
+}
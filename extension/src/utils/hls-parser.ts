@@ -6,6 +6,18 @@ export interface HLSQuality {
   bandwidth: number;
   url: string;
   codecs?: string;
+  audioGroup?: string; // GROUP-ID аудиодорожек из атрибута AUDIO
+}
+
+// Аудиодорожка из #EXT-X-MEDIA:TYPE=AUDIO мастер плейлиста
+export interface HLSAudioRendition {
+  groupId: string;
+  name: string;
+  language?: string;
+  isDefault: boolean;
+  autoselect: boolean;
+  channels?: string;
+  url?: string; // без URI дорожка вшита в видеопоток
 }
 
 export interface HLSSegment {
@@ -58,6 +70,7 @@ export class OptimizedHLSParser {
    */
   async parseManifest(manifestUrl: string): Promise<{
     qualities: HLSQuality[];
+    audioTracks: HLSAudioRendition[];
     segments: HLSSegment[];
     bestQuality: HLSQuality;
     duration: number;
@@ -73,6 +86,7 @@ export class OptimizedHLSParser {
       
       // Парсим качества
       const qualities = this.parseQualities(manifestContent, optimizedUrl);
+      const audioTracks = OptimizedHLSParser.parseAudioRenditions(manifestContent, optimizedUrl);
       
       // Выбираем лучшее качество на основе сети и настроек
       const bestQuality = this.selectBestQuality(qualities);
@@ -95,6 +109,7 @@ export class OptimizedHLSParser {
       
       return {
         qualities,
+        audioTracks,
         segments,
         bestQuality,
         duration
@@ -190,7 +205,7 @@ export class OptimizedHLSParser {
         if (!nextLine || nextLine.startsWith('#')) continue;
         
         // Парсим атрибуты
-        const attributes = this.parseAttributes(line);
+        const attributes = OptimizedHLSParser.parseAttributes(line);
         
         const bandwidth = parseInt(attributes.BANDWIDTH) || 0;
         const resolution = attributes.RESOLUTION;
@@ -213,7 +228,8 @@ export class OptimizedHLSParser {
           height,
           bandwidth,
           url: qualityUrl,
-          codecs
+          codecs,
+          audioGroup: attributes.AUDIO?.replace(/"/g, '')
         });
       }
     }
@@ -226,10 +242,39 @@ export class OptimizedHLSParser {
     return qualities;
   }
 
+  /**
+   * Парсит аудиодорожки #EXT-X-MEDIA:TYPE=AUDIO из главного манифеста
+   */
+  static parseAudioRenditions(manifestContent: string, baseUrl: string): HLSAudioRendition[] {
+    const renditions: HLSAudioRendition[] = [];
+
+    for (const rawLine of manifestContent.split('\n')) {
+      const line = rawLine.trim();
+      if (!line.startsWith('#EXT-X-MEDIA:')) continue;
+
+      const attributes = OptimizedHLSParser.parseAttributes(line);
+      const unquote = (value?: string) => value?.replace(/"/g, '');
+      if (attributes.TYPE !== 'AUDIO') continue;
+
+      const uri = unquote(attributes.URI);
+      renditions.push({
+        groupId: unquote(attributes['GROUP-ID']) || '',
+        name: unquote(attributes.NAME) || unquote(attributes.LANGUAGE) || `Дорожка ${renditions.length + 1}`,
+        language: unquote(attributes.LANGUAGE),
+        isDefault: attributes.DEFAULT === 'YES',
+        autoselect: attributes.AUTOSELECT === 'YES',
+        channels: unquote(attributes.CHANNELS),
+        url: uri ? new URL(uri, baseUrl).toString() : undefined
+      });
+    }
+
+    return renditions;
+  }
+
   /**
    * Парсит атрибуты из строки манифеста
    */
-  private parseAttributes(line: string): Record<string, string> {
+  private static parseAttributes(line: string): Record<string, string> {
     const attributes: Record<string, string> = {};
     const attrRegex = /([A-Z-]+)=("[^"]*"|[^,]*)/g;
     
@@ -475,6 +520,14 @@ export class OptimizedHLSParser {
 
 // Утилитарные функции для работы с HLS
 export class HLSUtils {
+  // Примерный битрейт потоков Kodik для стартовой оценки ABR
+  private static readonly ESTIMATED_BANDWIDTH: { [quality: number]: number } = {
+    360: 800000,
+    480: 1400000,
+    720: 2800000,
+    1080: 5000000
+  };
+
   /**
    * Проверяет поддержку HLS в браузере
    */
@@ -482,6 +535,13 @@ export class HLSUtils {
     return !!(window as any).Hls?.isSupported();
   }
 
+  /**
+   * Мастер плейлист (список уровней), а не медиа плейлист с сегментами
+   */
+  static isMasterPlaylist(manifestContent: string): boolean {
+    return manifestContent.includes('#EXT-X-STREAM-INF');
+  }
+
   /**
    * Проверяет нативную поддержку HLS
    */
@@ -498,6 +558,31 @@ export class HLSUtils {
     return match ? parseInt(match[1]) : 480;
   }
 
+  /**
+   * Собирает мастер плейлист из отдельных манифестов Kodik, чтобы HLS.js мог переключать уровни
+   */
+  static createMasterPlaylist(streams: { [quality: number]: string }): string {
+    const lines = ['#EXTM3U'];
+    const qualities = Object.keys(streams).map(Number).sort((a, b) => a - b);
+
+    for (const quality of qualities) {
+      const width = Math.round(quality * 16 / 9 / 2) * 2;
+      const bandwidth = HLSUtils.ESTIMATED_BANDWIDTH[quality] || quality * 4000;
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${quality},NAME="${quality}p"`);
+      lines.push(streams[quality]);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Выбирает доступное качество, ближайшее к предпочитаемому (не выше него, если возможно)
+   */
+  static pickQuality(available: number[], preferred: number): number {
+    const sorted = [...available].sort((a, b) => b - a);
+    return sorted.find(quality => quality <= preferred) ?? sorted[sorted.length - 1];
+  }
+
   /**
    * Форматирует размер файла
    */
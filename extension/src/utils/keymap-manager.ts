@@ -0,0 +1,230 @@
+// Менеджер горячих клавиш плеера: раскладка по умолчанию, хранение, поиск конфликтов и подписи клавиш
+import { KeyAction, KeyBinding, KeymapConflict, KeymapSettings } from '../types/keymap';
+
+export class KeymapManager {
+  private static readonly STORAGE_KEY = 'keymap';
+
+  static readonly DEFAULTS: KeymapSettings = {
+    bindings: {
+      togglePlay: ['Space', 'KeyK'],
+      seekBackward: ['ArrowLeft'],
+      seekForward: ['ArrowRight'],
+      seekBackwardLong: ['KeyJ', 'Shift+ArrowLeft'],
+      seekForwardLong: ['KeyL', 'Shift+ArrowRight'],
+      frameBackward: ['Comma'],
+      frameForward: ['Period'],
+      volumeUp: ['ArrowUp'],
+      volumeDown: ['ArrowDown'],
+      toggleMute: ['KeyM'],
+      toggleFullscreen: ['KeyF'],
+      speedUp: ['Shift+Period'],
+      speedDown: ['Shift+Comma'],
+      previousEpisode: ['KeyP', 'PageUp'],
+      nextEpisode: ['KeyN', 'PageDown'],
+      skipSegment: ['KeyS'],
+      subtitleEarlier: ['KeyZ'],
+      subtitleLater: ['KeyX'],
+      showHelp: ['Shift+Slash']
+    },
+    seekStep: 10,
+    longSeekStep: 30,
+    volumeStep: 10,
+    digitSeek: true
+  };
+
+  static readonly ACTION_LABELS: Record<KeyAction, string> = {
+    togglePlay: 'Пауза / воспроизведение',
+    seekBackward: 'Назад',
+    seekForward: 'Вперёд',
+    seekBackwardLong: 'Далеко назад',
+    seekForwardLong: 'Далеко вперёд',
+    frameBackward: 'Кадр назад (на паузе)',
+    frameForward: 'Кадр вперёд (на паузе)',
+    volumeUp: 'Громче',
+    volumeDown: 'Тише',
+    toggleMute: 'Выключить / включить звук',
+    toggleFullscreen: 'Полноэкранный режим',
+    speedUp: 'Быстрее',
+    speedDown: 'Медленнее',
+    previousEpisode: 'Предыдущая серия',
+    nextEpisode: 'Следующая серия',
+    skipSegment: 'Пропустить опенинг / эндинг',
+    subtitleEarlier: 'Свои субтитры раньше',
+    subtitleLater: 'Свои субтитры позже',
+    showHelp: 'Список горячих клавиш'
+  };
+
+  private static readonly MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+  // Буквы русской раскладки ЙЦУКЕН на тех же физических клавишах
+  private static readonly CYRILLIC: Record<string, string> = {
+    KeyQ: 'Й', KeyW: 'Ц', KeyE: 'У', KeyR: 'К', KeyT: 'Е', KeyY: 'Н', KeyU: 'Г', KeyI: 'Ш', KeyO: 'Щ', KeyP: 'З',
+    KeyA: 'Ф', KeyS: 'Ы', KeyD: 'В', KeyF: 'А', KeyG: 'П', KeyH: 'Р', KeyJ: 'О', KeyK: 'Л', KeyL: 'Д',
+    KeyZ: 'Я', KeyX: 'Ч', KeyC: 'С', KeyV: 'М', KeyB: 'И', KeyN: 'Т', KeyM: 'Ь',
+    BracketLeft: 'Х', BracketRight: 'Ъ', Semicolon: 'Ж', Quote: 'Э', Comma: 'Б', Period: 'Ю', Backquote: 'Ё'
+  };
+
+  private static readonly KEY_LABELS: Record<string, string> = {
+    Space: 'Пробел',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Escape: 'Esc',
+    Comma: ',',
+    Period: '.',
+    Slash: '/',
+    Backslash: '\\',
+    Semicolon: ';',
+    Quote: "'",
+    BracketLeft: '[',
+    BracketRight: ']',
+    Backquote: '`',
+    Minus: '-',
+    Equal: '='
+  };
+
+  private static readonly SHIFTED_LABELS: Record<string, string> = {
+    'Shift+Slash': '?',
+    'Shift+Comma': '<',
+    'Shift+Period': '>'
+  };
+
+  /**
+   * Получает раскладку с подстановкой значений по умолчанию
+   */
+  static async getKeymap(): Promise<KeymapSettings> {
+    try {
+      const stored = await chrome.storage.sync.get([this.STORAGE_KEY]);
+      return this.normalize(stored[this.STORAGE_KEY]);
+    } catch (error) {
+      console.error('Failed to get keymap:', error);
+      return this.normalize(undefined);
+    }
+  }
+
+  /**
+   * Сохраняет раскладку
+   */
+  static async saveKeymap(keymap: KeymapSettings): Promise<void> {
+    await chrome.storage.sync.set({ [this.STORAGE_KEY]: keymap });
+  }
+
+  /**
+   * Возвращает раскладку по умолчанию
+   */
+  static async resetKeymap(): Promise<KeymapSettings> {
+    await chrome.storage.sync.remove(this.STORAGE_KEY);
+    return this.normalize(undefined);
+  }
+
+  /**
+   * Подписывается на изменения раскладки из страницы настроек
+   */
+  static onChange(listener: (keymap: KeymapSettings) => void): () => void {
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'sync' && changes[this.STORAGE_KEY]) {
+        listener(this.normalize(changes[this.STORAGE_KEY].newValue));
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }
+
+  /**
+   * Приводит сохраненную раскладку к полному виду: новые действия получают клавиши по умолчанию
+   */
+  static normalize(raw: unknown): KeymapSettings {
+    const defaults = this.DEFAULTS;
+    const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof KeymapSettings, unknown>>;
+    const storedBindings = (stored.bindings && typeof stored.bindings === 'object' ? stored.bindings : {}) as Record<string, unknown>;
+
+    const bindings = {} as Record<KeyAction, KeyBinding[]>;
+    for (const action of Object.keys(defaults.bindings) as KeyAction[]) {
+      const keys = storedBindings[action];
+      bindings[action] = Array.isArray(keys)
+        ? keys.filter((key): key is KeyBinding => typeof key === 'string' && key.length > 0)
+        : [...defaults.bindings[action]];
+    }
+
+    const seekStep = Number(stored.seekStep);
+    const longSeekStep = Number(stored.longSeekStep);
+    const volumeStep = Number(stored.volumeStep);
+
+    return {
+      bindings,
+      seekStep: seekStep > 0 ? seekStep : defaults.seekStep,
+      longSeekStep: longSeekStep > 0 ? longSeekStep : defaults.longSeekStep,
+      volumeStep: volumeStep > 0 && volumeStep <= 100 ? volumeStep : defaults.volumeStep,
+      digitSeek: typeof stored.digitSeek === 'boolean' ? stored.digitSeek : defaults.digitSeek
+    };
+  }
+
+  /**
+   * Клавиши, назначенные сразу на несколько действий
+   */
+  static findConflicts(bindings: Record<KeyAction, KeyBinding[]>): KeymapConflict[] {
+    const usage = new Map<KeyBinding, KeyAction[]>();
+    for (const [action, keys] of Object.entries(bindings) as Array<[KeyAction, KeyBinding[]]>) {
+      for (const key of new Set(keys)) {
+        usage.set(key, [...(usage.get(key) || []), action]);
+      }
+    }
+
+    return [...usage.entries()]
+      .filter(([, actions]) => actions.length > 1)
+      .map(([key, actions]) => ({ key, actions }));
+  }
+
+  /**
+   * Действие, назначенное на клавишу
+   */
+  static findAction(bindings: Record<KeyAction, KeyBinding[]>, key: KeyBinding): KeyAction | null {
+    const entry = (Object.entries(bindings) as Array<[KeyAction, KeyBinding[]]>).find(([, keys]) => keys.includes(key));
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * Клавиша из события клавиатуры; null для одиночных модификаторов
+   */
+  static eventToKey(event: KeyboardEvent): KeyBinding | null {
+    if (/^(Control|Alt|Shift|Meta)(Left|Right)$/.test(event.code) || !event.code) return null;
+
+    const modifiers = [
+      event.ctrlKey && 'Ctrl',
+      event.altKey && 'Alt',
+      event.shiftKey && 'Shift',
+      event.metaKey && 'Meta'
+    ].filter(Boolean);
+
+    return [...modifiers, event.code].join('+');
+  }
+
+  /**
+   * Подпись клавиши для пользователя: буквы показываются в обеих раскладках, например «F (А)»
+   */
+  static formatKey(key: KeyBinding): string {
+    if (this.SHIFTED_LABELS[key]) return this.SHIFTED_LABELS[key];
+
+    const parts = key.split('+');
+    const code = parts.pop() || '';
+    const modifiers = parts.filter(part => (this.MODIFIERS as readonly string[]).includes(part));
+
+    let label = this.KEY_LABELS[code] || code;
+    if (/^Key[A-Z]$/.test(code)) {
+      label = code.slice(3);
+    } else if (/^Digit\d$/.test(code)) {
+      label = code.slice(5);
+    } else if (/^Numpad\d$/.test(code)) {
+      label = `Num ${code.slice(6)}`;
+    }
+
+    const cyrillic = this.CYRILLIC[code];
+    if (cyrillic) {
+      label += ` (${cyrillic})`;
+    }
+
+    return [...modifiers, label].join(' + ');
+  }
+}
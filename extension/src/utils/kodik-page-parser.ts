@@ -0,0 +1,125 @@
+// Парсеры HTML страниц Kodik: количество серий и список сезонов
+// Чистые функции без DOM, чтобы работать со строкой ответа background script'а
+
+import { KodikSeasonOption } from '../types/kodik';
+
+/**
+ * Парсит количество эпизодов из HTML
+ */
+export function parseEpisodeCount(html: string): number {
+  let maxEpisode = 0;
+
+  // Паттерн 1: Ищем option элементы с data-id и data-hash (точный формат Kodik)
+  const kodikOptionPattern = /<option[^>]*value="(\d+)"[^>]*data-id="[^"]*"[^>]*data-hash="[^"]*"[^>]*data-title="(\d+)\s*серия"[^>]*>/gi;
+  const kodikOptionMatches = [...html.matchAll(kodikOptionPattern)];
+  if (kodikOptionMatches.length > 0) {
+    const episodeNumbers = kodikOptionMatches.map(match => parseInt(match[1]));
+    maxEpisode = Math.max(...episodeNumbers);
+    console.log('📺 Found episodes from Kodik option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
+    return maxEpisode;
+  }
+
+  // Паттерн 2: Альтернативный поиск option элементов с любым форматом серии
+  const optionPattern = /<option[^>]*value="(\d+)"[^>]*>[\s\S]*?(\d+)\s*серия[\s\S]*?<\/option>/gi;
+  const optionMatches = [...html.matchAll(optionPattern)];
+  if (optionMatches.length > 0) {
+    const episodeNumbers = optionMatches.map(match => parseInt(match[1]));
+    maxEpisode = Math.max(...episodeNumbers);
+    console.log('📺 Found episodes from generic option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
+    return maxEpisode;
+  }
+
+  // Паттерн 3: Ищем любые option элементы с числовыми значениями
+  const allOptionPattern = /<option[^>]*value="(\d+)"[^>]*>/gi;
+  const allOptionMatches = [...html.matchAll(allOptionPattern)];
+  if (allOptionMatches.length > 1) { // больше 1, чтобы исключить единичные селекторы
+    const episodeNumbers = allOptionMatches.map(match => parseInt(match[1]));
+    maxEpisode = Math.max(...episodeNumbers);
+    console.log('📺 Found episodes from all option tags:', episodeNumbers.length, 'episodes, max:', maxEpisode);
+    return maxEpisode;
+  }
+
+  // Паттерн 4: Ищем в переменных JavaScript
+  const jsPatterns = [
+    /episodes?\s*[=:]\s*(\d+)/i,
+    /episodeCount\s*[=:]\s*(\d+)/i,
+    /totalEpisodes?\s*[=:]\s*(\d+)/i,
+    /var\s+episodes\s*=\s*(\d+)/i
+  ];
+
+  for (const pattern of jsPatterns) {
+    const match = html.match(pattern);
+    if (match) {
+      maxEpisode = parseInt(match[1]);
+      console.log('📺 Found episodes from JS variables:', maxEpisode);
+      return maxEpisode;
+    }
+  }
+
+  // Паттерн 5: Ищем кнопки переключения эпизодов
+  const buttonPattern = /data-episode[^=]*=["'](\d+)["']/gi;
+  const buttonMatches = [...html.matchAll(buttonPattern)];
+  if (buttonMatches.length > 0) {
+    const episodeNumbers = buttonMatches.map(match => parseInt(match[1]));
+    maxEpisode = Math.max(...episodeNumbers);
+    console.log('📺 Found episodes from button data attributes:', episodeNumbers.length, 'episodes, max:', maxEpisode);
+    return maxEpisode;
+  }
+
+  // Паттерн 6: Ищем информацию о сериях в DOM (для случаев когда HTML содержит полную страницу)
+  const seriesInfoPatterns = [
+    /Серий:\s*\d+-(\d+)/i,
+    /Episodes:\s*\d+-(\d+)/i,
+    /Серий:\s*(\d+)/i,
+    /Episodes:\s*(\d+)/i,
+    /1-(\d+)\s*из/i,
+    /(\d+)\s*серий/i,
+    /class="page__ser"[^>]*>[\s\S]*?(\d+)[\s\S]*?серий/i
+  ];
+
+  for (const pattern of seriesInfoPatterns) {
+    const match = html.match(pattern);
+    if (match) {
+      const foundEpisodes = parseInt(match[1]);
+      if (foundEpisodes > 0) {
+        maxEpisode = foundEpisodes;
+        console.log('📺 Found episodes from series info pattern:', maxEpisode);
+        return maxEpisode;
+      }
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Парсит список сезонов из HTML страницы сериала Kodik
+ */
+export function parseSeasons(html: string): { seasons: KodikSeasonOption[]; selected: number | null } {
+  const seasons: KodikSeasonOption[] = [];
+  let selected: number | null = null;
+
+  // Kodik рендерит сезоны в блоке .serial-seasons-box > select
+  const boxMatch = html.match(/class="[^"]*serial-seasons-box[^"]*"[\s\S]*?<\/select>/i);
+  if (!boxMatch) {
+    return { seasons, selected };
+  }
+
+  const optionPattern = /<option([^>]*)value="(\d+)"([^>]*)>([\s\S]*?)<\/option>/gi;
+  for (const match of boxMatch[0].matchAll(optionPattern)) {
+    const number = parseInt(match[2]);
+    if (!number || seasons.some(season => season.number === number)) continue;
+
+    const attributes = match[1] + match[3];
+    const title = match[4].replace(/<[^>]+>/g, '').trim() || `Сезон ${number}`;
+    seasons.push({ number, title });
+
+    if (/\sselected/i.test(attributes)) {
+      selected = number;
+    }
+  }
+
+  seasons.sort((a, b) => a.number - b.number);
+  console.log('📚 Found seasons from Kodik page:', seasons.map(s => s.number), 'selected:', selected);
+  return { seasons, selected };
+}
@@ -0,0 +1,198 @@
+// Токен Kodik API: один на расширение, хранится в chrome.storage.local и обновляется background'ом
+// Свой токен со страницы настроек имеет приоритет над полученным из add-players.min.js
+
+import { isValidKodikToken } from './url-parser';
+
+interface StoredToken {
+  token: string;
+  fetchedAt: number;
+}
+
+export type KodikTokenSource = 'user' | 'scraped';
+
+// Состояние для страницы настроек и ответа на GET_KODIK_TOKEN
+export interface KodikTokenState {
+  token: string | null;
+  source: KodikTokenSource | null;
+  expiresAt: number | null; // null — свой токен без срока
+}
+
+export class KodikTokenManager {
+  private static readonly STORAGE_KEY = 'kodikToken';
+  private static readonly USER_TOKEN_KEY = 'kodikUserToken';
+  private static readonly SCRIPT_URL = 'https://kodik-add.com/add-players.min.js?v=2';
+  static readonly TOKEN_TTL = 60 * 60 * 1000; // 1 час
+  static readonly REFRESH_MARGIN = 10 * 60 * 1000; // обновляем заранее, за 10 минут до истечения
+
+  private static pending: Promise<KodikTokenState> | null = null;
+
+  /**
+   * Действующий токен: свой, сохраненный или новый; незадолго до истечения обновляется в фоне
+   */
+  static async getToken(fetchToken: () => Promise<string> = () => this.fetchToken()): Promise<KodikTokenState> {
+    const userToken = await this.getUserToken();
+    if (userToken) {
+      return { token: userToken, source: 'user', expiresAt: null };
+    }
+
+    const stored = await this.getStoredToken();
+    if (!stored || this.isExpired(stored)) {
+      return this.refresh(fetchToken);
+    }
+
+    if (this.needsRefresh(stored)) {
+      this.refresh(fetchToken).catch(error => {
+        console.warn('⚠️ Background token refresh failed:', error);
+      });
+    }
+    return this.toState(stored);
+  }
+
+  /**
+   * Получает новый токен; одновременные вызовы делят один запрос
+   */
+  static refresh(fetchToken: () => Promise<string> = () => this.fetchToken()): Promise<KodikTokenState> {
+    if (!this.pending) {
+      this.pending = fetchToken()
+        .then(async token => {
+          const stored: StoredToken = { token, fetchedAt: Date.now() };
+          await chrome.storage.local.set({ [this.STORAGE_KEY]: stored });
+          console.log('🔑 Kodik token refreshed');
+          return this.toState(stored);
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Обновляет токен по расписанию, если он уже использовался и скоро истечет
+   */
+  static async refreshIfNeeded(fetchToken: () => Promise<string> = () => this.fetchToken()): Promise<void> {
+    const stored = await this.getStoredToken();
+    if (!stored || !this.needsRefresh(stored) || await this.getUserToken()) return;
+    await this.refresh(fetchToken);
+  }
+
+  /**
+   * Сбрасывает токен, отвергнутый API («Отсутствует или неверный токен»)
+   * Свой токен не удаляется: его меняет только пользователь
+   */
+  static async invalidate(token: string): Promise<void> {
+    const stored = await this.getStoredToken();
+    if (stored?.token === token) {
+      await chrome.storage.local.remove(this.STORAGE_KEY);
+      console.log('🗑️ Rejected Kodik token dropped');
+    }
+  }
+
+  /**
+   * Текущее состояние без сетевых запросов
+   */
+  static async getState(): Promise<KodikTokenState> {
+    const userToken = await this.getUserToken();
+    if (userToken) {
+      return { token: userToken, source: 'user', expiresAt: null };
+    }
+
+    const stored = await this.getStoredToken();
+    return stored && !this.isExpired(stored)
+      ? this.toState(stored)
+      : { token: null, source: null, expiresAt: null };
+  }
+
+  static async getUserToken(): Promise<string | null> {
+    try {
+      const result = await chrome.storage.local.get([this.USER_TOKEN_KEY]);
+      const token = result[this.USER_TOKEN_KEY];
+      return typeof token === 'string' && isValidKodikToken(token) ? token : null;
+    } catch (error) {
+      console.error('Failed to get user token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Сохраняет свой токен; null или пустая строка возвращают автоматическое получение
+   * @returns false, если токен некорректный
+   */
+  static async saveUserToken(token: string | null): Promise<boolean> {
+    const trimmed = token?.trim() || '';
+    if (!trimmed) {
+      await chrome.storage.local.remove(this.USER_TOKEN_KEY);
+      return true;
+    }
+    if (!isValidKodikToken(trimmed)) return false;
+
+    await chrome.storage.local.set({ [this.USER_TOKEN_KEY]: trimmed });
+    return true;
+  }
+
+  /**
+   * Извлекает токен из скрипта add-players.min.js с повторными попытками
+   */
+  static async fetchToken(retries: number = 3, timeout: number = 10000): Promise<string> {
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        console.log(`🔑 Fetching new token (attempt ${attempt}/${retries})`);
+        const response = await fetch(this.SCRIPT_URL, {
+          signal: controller.signal,
+          headers: {
+            'Cache-Control': 'no-cache',
+            'Accept': 'application/javascript, */*;q=0.1'
+          }
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const match = (await response.text()).match(/token["\s]*[:=]["\s]*([a-f0-9]{32})/i);
+        if (!match || !isValidKodikToken(match[1])) {
+          throw new Error('Token pattern not found in script');
+        }
+        return match[1];
+      } catch (error) {
+        console.warn(`❌ Token fetch attempt ${attempt} failed:`, error);
+        if (attempt === retries) {
+          throw new Error(`Failed to fetch token after ${retries} attempts: ${error}`);
+        }
+
+        // Exponential backoff
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    throw new Error('Unexpected error in token fetch retry loop');
+  }
+
+  private static async getStoredToken(): Promise<StoredToken | null> {
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      const stored = result[this.STORAGE_KEY];
+      return stored && typeof stored.token === 'string' && typeof stored.fetchedAt === 'number' ? stored : null;
+    } catch (error) {
+      console.error('Failed to get stored token:', error);
+      return null;
+    }
+  }
+
+  private static isExpired(stored: StoredToken): boolean {
+    return Date.now() >= stored.fetchedAt + this.TOKEN_TTL;
+  }
+
+  private static needsRefresh(stored: StoredToken): boolean {
+    return Date.now() >= stored.fetchedAt + this.TOKEN_TTL - this.REFRESH_MARGIN;
+  }
+
+  private static toState(stored: StoredToken): KodikTokenState {
+    return { token: stored.token, source: 'scraped', expiresAt: stored.fetchedAt + this.TOKEN_TTL };
+  }
+}
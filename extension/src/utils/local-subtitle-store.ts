@@ -0,0 +1,85 @@
+// Хранилище своих файлов субтитров в IndexedDB: файл и сдвиг по времени для каждой серии
+// Реплики хранятся уже разобранными, чтобы не конвертировать ASS при каждом открытии серии
+
+import { LocalSubtitleRecord } from '../types/subtitles';
+
+export class LocalSubtitleStore {
+  private static readonly DB_NAME = 'AnimeStarsSubtitles';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'files';
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static readonly EXTENSIONS = ['srt', 'ass', 'ssa', 'vtt'];
+
+  /**
+   * Ключ записи для серии
+   */
+  static key(animeId: string, season: number, episode: number): string {
+    return `${animeId}:${season}:${episode}`;
+  }
+
+  static isSupportedFile(fileName: string): boolean {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return this.EXTENSIONS.includes(extension);
+  }
+
+  static async get(key: string): Promise<LocalSubtitleRecord | null> {
+    try {
+      const db = await this.open();
+      const record = await this.request(db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME).get(key));
+      return record || null;
+    } catch (error) {
+      console.warn('Failed to read local subtitles:', error);
+      return null;
+    }
+  }
+
+  static async save(record: LocalSubtitleRecord): Promise<void> {
+    try {
+      const db = await this.open();
+      await this.request(db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME).put(record));
+    } catch (error) {
+      console.warn('Failed to save local subtitles:', error);
+    }
+  }
+
+  static async remove(key: string): Promise<void> {
+    try {
+      const db = await this.open();
+      await this.request(db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME).delete(key));
+    } catch (error) {
+      console.warn('Failed to remove local subtitles:', error);
+    }
+  }
+
+  /**
+   * Открывает базу один раз на страницу
+   */
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            db.createObjectStore(this.STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,61 @@
+// Скорость воспроизведения: список скоростей и запомненная скорость для каждого аниме
+// Общая скорость по умолчанию хранится в настройках (ExtensionSettings.playbackRate)
+
+export class PlaybackSpeedManager {
+  private static readonly STORAGE_KEY = 'animePlaybackRates';
+  static readonly RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+  static readonly MIN_RATE = 0.25;
+  static readonly MAX_RATE = 3;
+
+  /**
+   * Скорость, выбранная для аниме, или общая скорость
+   */
+  static async getRate(animeId: string | undefined, fallback: number): Promise<number> {
+    if (!animeId) return fallback;
+
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      const rate = result[this.STORAGE_KEY]?.[animeId];
+      return this.isValidRate(rate) ? rate : fallback;
+    } catch (error) {
+      console.error('Failed to get playback rate:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Запоминает скорость для аниме
+   */
+  static async saveRate(animeId: string, rate: number): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      const rates: Record<string, number> = result[this.STORAGE_KEY] || {};
+      rates[animeId] = this.clamp(rate);
+      await chrome.storage.local.set({ [this.STORAGE_KEY]: rates });
+    } catch (error) {
+      console.error('Failed to save playback rate:', error);
+    }
+  }
+
+  /**
+   * Соседняя скорость из списка (горячие клавиши быстрее/медленнее)
+   */
+  static step(rate: number, direction: -1 | 1): number {
+    const next = direction > 0
+      ? this.RATES.find(candidate => candidate > rate)
+      : [...this.RATES].reverse().find(candidate => candidate < rate);
+    return next ?? rate;
+  }
+
+  static clamp(rate: number): number {
+    return Math.max(this.MIN_RATE, Math.min(this.MAX_RATE, rate));
+  }
+
+  static isValidRate(rate: unknown): rate is number {
+    return typeof rate === 'number' && rate >= this.MIN_RATE && rate <= this.MAX_RATE;
+  }
+
+  static formatRate(rate: number): string {
+    return `${rate}×`;
+  }
+}
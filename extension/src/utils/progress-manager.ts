@@ -1,14 +1,23 @@
 // Менеджер прогресса просмотра для AnimStars расширения
-import { WatchProgress, ProgressStorage, AnimeInfo, ProgressSettings, ResumeOptions } from '../types/progress';
+import {
+  WatchProgress, ProgressStorage, AnimeInfo, ProgressSettings, ResumeOptions,
+  AnimeHistory, HistoryStorage, EpisodeProgress, EpisodeWatchState
+} from '../types/progress';
+import { SettingsManager } from './settings-manager';
+import { playerEvents } from './event-bus';
 
 export class ProgressManager {
-  private static readonly STORAGE_KEY = 'animeWatchProgress';
+  private static readonly STORAGE_KEY = 'animeWatchHistory';
+  private static readonly LEGACY_STORAGE_KEY = 'animeWatchProgress'; // одна запись на аниме, до истории по сериям
   private static readonly SETTINGS_KEY = 'progressSettings';
+  private static readonly PENDING_RESUME_KEY = 'pendingResume';
+  private static readonly PENDING_RESUME_TTL = 5 * 60 * 1000; // запрос из popup действует 5 минут
   private static readonly MIN_WATCH_TIME = 30; // минимум 30 секунд для сохранения
   private static readonly MAX_PROGRESS_ENTRIES = 500; // максимум записей
+  private static readonly WATCHED_THRESHOLD = 0.9; // серия считается просмотренной с 90%
+  static readonly MOVIE_EPISODE = 0; // прогресс фильма хранится как серия 0 первого сезона
   
   private static saveTimer: number | null = null;
-  private static currentProgress: WatchProgress | null = null;
 
   /**
    * Получает настройки прогресса
@@ -55,28 +64,7 @@ export class ProgressManager {
     if (!settings.autoSave || currentTime < settings.minWatchTime) return;
 
     try {
-      const storage = await this.getProgressStorage();
-      
-      // Проверяем лимит записей
-      if (Object.keys(storage).length >= this.MAX_PROGRESS_ENTRIES) {
-        await this.cleanupOldProgress(50); // Удаляем 50 самых старых записей
-      }
-      
-      const progress: WatchProgress = {
-        animeId: animeInfo.id,
-        episode: animeInfo.currentEpisode,
-        currentTime,
-        duration,
-        lastWatched: Date.now(),
-        title: animeInfo.title,
-        translationId: animeInfo.translationId,
-        url: animeInfo.url
-      };
-
-      storage[animeInfo.id] = progress;
-      this.currentProgress = progress;
-
-      await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+      await this.updateEpisode(animeInfo, currentTime, duration, false);
       
       if (settings.showProgressNotifications) {
         console.log(`📺 Progress saved: ${animeInfo.title} - Episode ${animeInfo.currentEpisode} at ${this.formatTime(currentTime)}`);
@@ -86,6 +74,94 @@ export class ProgressManager {
     }
   }
 
+  /**
+   * Отмечает серию просмотренной (видео доиграло до конца)
+   */
+  static async markEpisodeWatched(animeInfo: AnimeInfo, duration: number): Promise<void> {
+    const settings = await this.getSettings();
+    if (!settings.autoSave) return;
+
+    try {
+      await this.updateEpisode(animeInfo, duration, duration, true);
+      console.log(`✅ Episode marked as watched: ${animeInfo.title} - Episode ${animeInfo.currentEpisode}`);
+    } catch (error) {
+      console.error('Failed to mark episode as watched:', error);
+    }
+  }
+
+  /**
+   * Обновляет запись серии в истории аниме
+   */
+  private static async updateEpisode(animeInfo: AnimeInfo, currentTime: number, duration: number, completed: boolean): Promise<void> {
+    const storage = await this.getHistoryStorage();
+    
+    // Проверяем лимит записей
+    if (!storage[animeInfo.id] && Object.keys(storage).length >= this.MAX_PROGRESS_ENTRIES) {
+      await this.cleanupOldProgress(50); // Удаляем 50 самых старых записей
+      Object.assign(storage, await this.getHistoryStorage());
+    }
+    
+    const now = Date.now();
+    const season = animeInfo.currentSeason ?? 1;
+    const key = this.episodeKey(season, animeInfo.currentEpisode);
+    const history: AnimeHistory = storage[animeInfo.id] || {
+      animeId: animeInfo.id,
+      lastWatched: now,
+      lastEpisode: key,
+      episodes: {}
+    };
+    
+    const previous = history.episodes[key];
+    const state = completed ? 'watched' : this.getEpisodeState(currentTime, duration);
+    // Досмотренная серия остается просмотренной и при повторном частичном просмотре
+    const watched = state === 'watched' || previous?.state === 'watched';
+    
+    history.episodes[key] = {
+      season,
+      episode: animeInfo.currentEpisode,
+      state: watched ? 'watched' : state,
+      currentTime,
+      duration,
+      lastWatched: now,
+      completedAt: previous?.completedAt ?? (watched ? now : undefined),
+      translationId: animeInfo.translationId
+    };
+    
+    storage[animeInfo.id] = {
+      ...history,
+      title: animeInfo.title,
+      url: animeInfo.url,
+      translationId: animeInfo.translationId,
+      translationTitle: animeInfo.translationTitle,
+      lastWatched: now,
+      lastEpisode: key
+    };
+    
+    await this.saveHistoryStorage(storage);
+
+    const saved = history.episodes[key];
+    playerEvents.emit('progressSaved', {
+      animeId: animeInfo.id,
+      season,
+      episode: saved.episode,
+      currentTime: saved.currentTime,
+      duration: saved.duration,
+      state: saved.state
+    });
+  }
+
+  /**
+   * Останавливает автосохранение при смене серии или озвучки:
+   * таймер сохраняет прогресс в запись предыдущей серии
+   */
+  static watchPlayerEvents(): () => void {
+    const unsubscribers = [
+      playerEvents.on('episodeChanged', () => this.stopAutoSave()),
+      playerEvents.on('translationChanged', () => this.stopAutoSave())
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
   /**
    * Автоматическое сохранение прогресса с интервалом
    */
@@ -118,8 +194,8 @@ export class ProgressManager {
    */
   static async getProgress(animeId: string): Promise<WatchProgress | null> {
     try {
-      const storage = await this.getProgressStorage();
-      return storage[animeId] || null;
+      const storage = await this.getHistoryStorage();
+      return storage[animeId] ? this.toWatchProgress(storage[animeId]) : null;
     } catch (error) {
       console.error('Failed to get progress:', error);
       return null;
@@ -127,10 +203,35 @@ export class ProgressManager {
   }
 
   /**
-   * Получает все сохраненные прогрессы
+   * Получает все сохраненные прогрессы (последняя серия каждого аниме)
    */
   static async getAllProgress(): Promise<ProgressStorage> {
-    return await this.getProgressStorage();
+    const storage = await this.getHistoryStorage();
+    return Object.fromEntries(
+      Object.entries(storage).map(([animeId, history]) => [animeId, this.toWatchProgress(history)])
+    );
+  }
+
+  /**
+   * Получает историю просмотра аниме по сериям
+   */
+  static async getAnimeHistory(animeId: string): Promise<AnimeHistory | null> {
+    const storage = await this.getHistoryStorage();
+    return storage[animeId] || null;
+  }
+
+  /**
+   * Подписывается на изменения истории просмотра (в том числе из других вкладок)
+   */
+  static onHistoryChange(listener: (storage: HistoryStorage) => void): () => void {
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes[this.STORAGE_KEY]) {
+        listener(changes[this.STORAGE_KEY].newValue || {});
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
   }
 
   /**
@@ -138,9 +239,9 @@ export class ProgressManager {
    */
   static async removeProgress(animeId: string): Promise<void> {
     try {
-      const storage = await this.getProgressStorage();
+      const storage = await this.getHistoryStorage();
       delete storage[animeId];
-      await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+      await this.saveHistoryStorage(storage);
       console.log(`🗑️ Progress removed for anime ID: ${animeId}`);
     } catch (error) {
       console.error('Failed to remove progress:', error);
@@ -152,7 +253,7 @@ export class ProgressManager {
    */
   static async cleanupOldProgress(count?: number): Promise<number> {
     try {
-      const storage = await this.getProgressStorage();
+      const storage = await this.getHistoryStorage();
       const entries = Object.entries(storage);
       
       if (entries.length === 0) return 0;
@@ -167,7 +268,7 @@ export class ProgressManager {
         delete storage[animeId];
       }
       
-      await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+      await this.saveHistoryStorage(storage);
       console.log(`🧹 Cleaned up ${toRemove.length} old progress entries`);
       
       return toRemove.length;
@@ -182,7 +283,7 @@ export class ProgressManager {
    */
   static async clearOldProgress(daysOld: number = 30): Promise<number> {
     try {
-      const storage = await this.getProgressStorage();
+      const storage = await this.getHistoryStorage();
       const cutoffTime = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
       let removedCount = 0;
       
@@ -193,7 +294,7 @@ export class ProgressManager {
         }
       });
 
-      await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+      await this.saveHistoryStorage(storage);
       console.log(`🧹 Removed ${removedCount} progress entries older than ${daysOld} days`);
       
       return removedCount;
@@ -207,12 +308,17 @@ export class ProgressManager {
    * Проверяет нужно ли предложить продолжить просмотр
    */
   static async checkForResume(animeInfo: AnimeInfo): Promise<ResumeOptions | null> {
-    const settings = await this.getSettings();
-    if (!settings.autoResume) return null;
-    
     const progress = await this.getProgress(animeInfo.id);
     if (!progress) return null;
     
+    // Явный запрос из "Продолжить просмотр" восстанавливает позицию без проверок ниже
+    if (await this.consumeResumeRequest(animeInfo.id)) {
+      return this.toResumeOptions(progress);
+    }
+    
+    const settings = await this.getSettings();
+    if (!settings.autoResume) return null;
+    
     // Проверяем что прогресс актуален (не старше 7 дней)
     const weekAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
     if (progress.lastWatched < weekAgo) return null;
@@ -221,8 +327,46 @@ export class ProgressManager {
     const progressPercent = (progress.currentTime / progress.duration) * 100;
     if (progressPercent < 5 || progressPercent > 90) return null;
     
+    return this.toResumeOptions(progress);
+  }
+
+  /**
+   * Просит content script восстановить позицию при следующем открытии страницы аниме
+   */
+  static async requestResume(animeId: string): Promise<void> {
+    try {
+      await chrome.storage.local.set({
+        [this.PENDING_RESUME_KEY]: { animeId, requestedAt: Date.now() }
+      });
+    } catch (error) {
+      console.error('Failed to request resume:', error);
+    }
+  }
+
+  /**
+   * Забирает запрос на восстановление, если он относится к этому аниме и не устарел
+   */
+  private static async consumeResumeRequest(animeId: string): Promise<boolean> {
+    try {
+      const result = await chrome.storage.local.get(this.PENDING_RESUME_KEY);
+      const request = result[this.PENDING_RESUME_KEY] as { animeId: string; requestedAt: number } | undefined;
+      if (!request || request.animeId !== animeId) return false;
+      
+      await chrome.storage.local.remove(this.PENDING_RESUME_KEY);
+      return Date.now() - request.requestedAt < this.PENDING_RESUME_TTL;
+    } catch (error) {
+      console.error('Failed to read resume request:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Параметры восстановления из сохраненного прогресса
+   */
+  private static toResumeOptions(progress: WatchProgress): ResumeOptions {
     return {
       resumeTime: progress.currentTime,
+      season: progress.season,
       episode: progress.episode,
       translation: progress.translationId,
       askBeforeResume: true
@@ -233,8 +377,8 @@ export class ProgressManager {
    * Показывает уведомление о продолжении просмотра (теперь только информационное)
    */
   static async showResumeNotification(animeInfo: AnimeInfo, resumeOptions: ResumeOptions): Promise<boolean> {
-    const settings = await this.getSettings();
-    if (!settings.showProgressNotifications) return true;
+    const [settings, extensionSettings] = await Promise.all([this.getSettings(), SettingsManager.getSettings()]);
+    if (!settings.showProgressNotifications || !extensionSettings.showNotifications) return true;
     
     // Показываем только информационное уведомление
     const notification = this.createInfoNotification(animeInfo, resumeOptions);
@@ -311,7 +455,7 @@ export class ProgressManager {
       </div>
       
       <div style="font-size: 11px; opacity: 0.7;">
-        Серия ${resumeOptions.episode} • ${this.formatTime(resumeOptions.resumeTime)}
+        ${this.formatEpisodeLabel(resumeOptions.episode, resumeOptions.season)} • ${this.formatTime(resumeOptions.resumeTime)}
       </div>
     `;
     
@@ -383,7 +527,7 @@ export class ProgressManager {
       
       <div style="margin-bottom: 16px;">
         <div style="font-size: 14px; margin-bottom: 8px;">
-          Серия ${resumeOptions.episode} • ${this.formatTime(resumeOptions.resumeTime)}
+          ${this.formatEpisodeLabel(resumeOptions.episode, resumeOptions.season)} • ${this.formatTime(resumeOptions.resumeTime)}
         </div>
         <div style="width: 100%; height: 4px; background: rgba(255,255,255,0.2); border-radius: 2px; overflow: hidden;">
           <div style="width: ${(resumeOptions.resumeTime / (animeInfo.totalEpisodes || 1500)) * 100}%; height: 100%; background: linear-gradient(90deg, #00d4ff, #007bff);"></div>
@@ -450,11 +594,14 @@ export class ProgressManager {
     averageProgress: number;
   }> {
     try {
-      const storage = await this.getProgressStorage();
-      const entries = Object.values(storage);
+      const storage = await this.getHistoryStorage();
+      const entries = Object.values(storage).map(history => this.toWatchProgress(history));
       
       const totalAnimes = entries.length;
-      const totalWatchTime = entries.reduce((sum, entry) => sum + entry.currentTime, 0);
+      // Время по всем сериям: досмотренные засчитываются целиком
+      const totalWatchTime = Object.values(storage)
+        .flatMap(history => Object.values(history.episodes))
+        .reduce((sum, episode) => sum + (episode.state === 'watched' ? episode.duration : episode.currentTime), 0);
       
       // Последние 10 просмотренных
       const recentlyWatched = entries
@@ -492,14 +639,14 @@ export class ProgressManager {
    */
   static async exportProgress(): Promise<string> {
     try {
-      const storage = await this.getProgressStorage();
+      const storage = await this.getHistoryStorage();
       const settings = await this.getSettings();
       
       const exportData = {
-        version: '1.0',
+        version: '2.0',
         timestamp: Date.now(),
         settings,
-        progress: storage
+        history: storage
       };
       
       return JSON.stringify(exportData, null, 2);
@@ -516,8 +663,11 @@ export class ProgressManager {
     try {
       const data = JSON.parse(jsonData);
       
-      if (data.progress) {
-        await chrome.storage.local.set({ [this.STORAGE_KEY]: data.progress });
+      if (data.history) {
+        await this.saveHistoryStorage(data.history);
+      } else if (data.progress) {
+        // Файлы версии 1.0 содержат одну запись на аниме
+        await this.saveHistoryStorage(this.migrateLegacyProgress(data.progress));
       }
       
       if (data.settings) {
@@ -533,18 +683,112 @@ export class ProgressManager {
   }
 
   /**
-   * Получает хранилище прогресса
+   * Получает хранилище истории, при первом обращении переносит данные из старого формата
    */
-  private static async getProgressStorage(): Promise<ProgressStorage> {
+  private static async getHistoryStorage(): Promise<HistoryStorage> {
     try {
-      const result = await chrome.storage.local.get(this.STORAGE_KEY);
-      return result[this.STORAGE_KEY] || {};
+      const result = await chrome.storage.local.get([this.STORAGE_KEY, this.LEGACY_STORAGE_KEY]);
+      if (result[this.STORAGE_KEY]) {
+        return result[this.STORAGE_KEY];
+      }
+      
+      const legacy: ProgressStorage | undefined = result[this.LEGACY_STORAGE_KEY];
+      if (!legacy) return {};
+      
+      const storage = this.migrateLegacyProgress(legacy);
+      await this.saveHistoryStorage(storage);
+      await chrome.storage.local.remove(this.LEGACY_STORAGE_KEY);
+      console.log(`📦 Migrated ${Object.keys(storage).length} progress entries to per-episode history`);
+      
+      return storage;
     } catch (error) {
       console.error('Failed to get progress storage:', error);
       return {};
     }
   }
 
+  /**
+   * Сохраняет хранилище истории
+   */
+  private static async saveHistoryStorage(storage: HistoryStorage): Promise<void> {
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+  }
+
+  /**
+   * Переводит записи "одна на аниме" в историю по сериям
+   */
+  static migrateLegacyProgress(legacy: ProgressStorage): HistoryStorage {
+    const storage: HistoryStorage = {};
+    
+    for (const [animeId, progress] of Object.entries(legacy)) {
+      if (!progress || typeof progress.episode !== 'number') continue;
+      
+      const season = progress.season ?? 1;
+      const key = this.episodeKey(season, progress.episode);
+      const state = this.getEpisodeState(progress.currentTime, progress.duration);
+      
+      storage[animeId] = {
+        animeId,
+        title: progress.title,
+        url: progress.url,
+        translationId: progress.translationId,
+        translationTitle: progress.translationTitle,
+        lastWatched: progress.lastWatched,
+        lastEpisode: key,
+        episodes: {
+          [key]: {
+            season,
+            episode: progress.episode,
+            state,
+            currentTime: progress.currentTime,
+            duration: progress.duration,
+            lastWatched: progress.lastWatched,
+            completedAt: state === 'watched' ? progress.lastWatched : undefined,
+            translationId: progress.translationId
+          }
+        }
+      };
+    }
+    
+    return storage;
+  }
+
+  /**
+   * Сводка по последней просмотренной серии
+   */
+  private static toWatchProgress(history: AnimeHistory): WatchProgress {
+    const last: EpisodeProgress | undefined = history.episodes[history.lastEpisode]
+      || Object.values(history.episodes).sort((a, b) => b.lastWatched - a.lastWatched)[0];
+    
+    return {
+      animeId: history.animeId,
+      season: last?.season,
+      episode: last?.episode ?? 1,
+      currentTime: last?.currentTime ?? 0,
+      duration: last?.duration ?? 0,
+      lastWatched: history.lastWatched,
+      title: history.title,
+      translationId: history.translationId,
+      translationTitle: history.translationTitle,
+      url: history.url
+    };
+  }
+
+  /**
+   * Ключ серии в истории аниме
+   */
+  static episodeKey(season: number, episode: number): string {
+    return `${season}:${episode}`;
+  }
+
+  /**
+   * Состояние серии по позиции просмотра
+   */
+  static getEpisodeState(currentTime: number, duration: number): EpisodeWatchState {
+    if (duration > 0 && currentTime / duration >= this.WATCHED_THRESHOLD) return 'watched';
+    return currentTime > 0 ? 'partial' : 'unwatched';
+  }
+
   /**
    * Форматирует время в читаемый формат
    */
@@ -561,6 +805,19 @@ export class ProgressManager {
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   }
 
+  /**
+   * Форматирует подпись серии с учетом сезона (первый сезон не указывается)
+   */
+  static formatEpisodeLabel(episode: number, season?: number): string {
+    if (episode === this.MOVIE_EPISODE) {
+      return 'Фильм';
+    }
+    if (season && season > 1) {
+      return `Сезон ${season} • Серия ${episode}`;
+    }
+    return `Серия ${episode}`;
+  }
+
   /**
    * Форматирует продолжительность в человекочитаемый формат
    */
@@ -0,0 +1,105 @@
+// Менеджер пользовательских настроек: общий для popup, background и content script
+import { DefaultQualitySetting, ExtensionSettings } from '../types/settings';
+import { PlaybackSpeedManager } from './playback-speed';
+
+export type SettingsChangeListener = (settings: ExtensionSettings, changed: Array<keyof ExtensionSettings>) => void;
+
+export class SettingsManager {
+  static readonly DEFAULTS: ExtensionSettings = {
+    enablePlayer: true,
+    defaultQuality: '720',
+    autoplay: true,
+    autoSkip: false,
+    autoNext: true,
+    nextEpisodeCountdown: 10,
+    stillWatchingAfter: 3,
+    preloadNext: true,
+    showNotifications: true,
+    bufferSize: 10,
+    playbackRate: 1,
+    preservePitch: true
+  };
+
+  private static readonly QUALITIES: DefaultQualitySetting[] = ['auto', '1080', '720', '480', '360'];
+
+  /**
+   * Получает настройки с подстановкой значений по умолчанию
+   */
+  static async getSettings(): Promise<ExtensionSettings> {
+    try {
+      const stored = await chrome.storage.sync.get(Object.keys(this.DEFAULTS));
+      return this.normalize(stored);
+    } catch (error) {
+      console.error('Failed to get extension settings:', error);
+      return { ...this.DEFAULTS };
+    }
+  }
+
+  /**
+   * Сохраняет изменённые настройки
+   */
+  static async saveSettings(settings: Partial<ExtensionSettings>): Promise<void> {
+    try {
+      await chrome.storage.sync.set(settings);
+    } catch (error) {
+      console.error('Failed to save extension settings:', error);
+    }
+  }
+
+  /**
+   * Записывает значения по умолчанию для отсутствующих ключей
+   */
+  static async ensureDefaults(): Promise<void> {
+    const stored = await chrome.storage.sync.get(Object.keys(this.DEFAULTS));
+    const missing = Object.fromEntries(
+      Object.entries(this.DEFAULTS).filter(([key]) => stored[key] === undefined)
+    );
+    if (Object.keys(missing).length > 0) {
+      await this.saveSettings(missing);
+    }
+  }
+
+  /**
+   * Подписывается на изменения настроек из любого контекста расширения
+   */
+  static onChange(listener: SettingsChangeListener): () => void {
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'sync') return;
+
+      const changed = (Object.keys(changes) as Array<keyof ExtensionSettings>)
+        .filter(key => key in this.DEFAULTS);
+      if (changed.length === 0) return;
+
+      this.getSettings().then(settings => listener(settings, changed));
+    };
+
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }
+
+  /**
+   * Приводит сырые значения хранилища к типам настроек (старый popup хранил bufferSize строкой)
+   */
+  static normalize(raw: Record<string, unknown>): ExtensionSettings {
+    const defaults = this.DEFAULTS;
+    const quality = String(raw.defaultQuality ?? defaults.defaultQuality) as DefaultQualitySetting;
+    const bufferSize = Number(raw.bufferSize);
+    const countdown = Number(raw.nextEpisodeCountdown);
+    const stillWatchingAfter = Number(raw.stillWatchingAfter);
+
+    return {
+      enablePlayer: typeof raw.enablePlayer === 'boolean' ? raw.enablePlayer : defaults.enablePlayer,
+      defaultQuality: this.QUALITIES.includes(quality) ? quality : defaults.defaultQuality,
+      autoplay: typeof raw.autoplay === 'boolean' ? raw.autoplay : defaults.autoplay,
+      autoSkip: typeof raw.autoSkip === 'boolean' ? raw.autoSkip : defaults.autoSkip,
+      autoNext: typeof raw.autoNext === 'boolean' ? raw.autoNext : defaults.autoNext,
+      nextEpisodeCountdown: countdown >= 0 && countdown <= 60 ? countdown : defaults.nextEpisodeCountdown,
+      stillWatchingAfter: Number.isInteger(stillWatchingAfter) && stillWatchingAfter >= 0 ? stillWatchingAfter : defaults.stillWatchingAfter,
+      preloadNext: typeof raw.preloadNext === 'boolean' ? raw.preloadNext : defaults.preloadNext,
+      showNotifications: typeof raw.showNotifications === 'boolean' ? raw.showNotifications : defaults.showNotifications,
+      bufferSize: bufferSize > 0 ? bufferSize : defaults.bufferSize,
+      playbackRate: PlaybackSpeedManager.isValidRate(raw.playbackRate) ? raw.playbackRate : defaults.playbackRate,
+      preservePitch: typeof raw.preservePitch === 'boolean' ? raw.preservePitch : defaults.preservePitch
+    };
+  }
+}
@@ -0,0 +1,148 @@
+// Отметки опенинга и эндинга: общие для сериала и озвучки, с переопределением по сериям
+import {
+  AnimeInfo, ResolvedSkipMarkers, SkipMarkerScope, SkipMarkers, SkipMarkersStorage,
+  SkipRange, SkipSegmentType, TranslationSkipMarkers
+} from '../types/progress';
+import { ProgressManager } from './progress-manager';
+
+export class SkipMarkersManager {
+  private static readonly STORAGE_KEY = 'animeSkipMarkers';
+  private static readonly DEFAULT_TRANSLATION = 'default'; // озвучка не определена
+  static readonly SEGMENT_TYPES: SkipSegmentType[] = ['opening', 'ending'];
+
+  /**
+   * Отметки для текущей серии: переопределение серии важнее общих отметок сериала
+   */
+  static async getMarkers(animeInfo: AnimeInfo): Promise<ResolvedSkipMarkers> {
+    const storage = await this.getStorage();
+    const entry = storage[animeInfo.id]?.[this.translationKey(animeInfo)];
+    return this.resolve(entry, this.episodeKey(animeInfo));
+  }
+
+  /**
+   * Сохраняет отметку сегмента для всего сериала или только для текущей серии
+   */
+  static async setMarker(animeInfo: AnimeInfo, type: SkipSegmentType, range: SkipRange | null, scope: SkipMarkerScope): Promise<void> {
+    if (range && !(range.end > range.start && range.start >= 0)) {
+      throw new Error(`Invalid skip range: ${range.start}-${range.end}`);
+    }
+
+    await this.updateMarkers(animeInfo, scope, markers => {
+      markers[type] = range;
+    });
+    console.log(`⏭️ Skip marker saved: ${type} (${scope})`, range);
+  }
+
+  /**
+   * Удаляет отметку: для серии возвращает общую отметку сериала
+   */
+  static async clearMarker(animeInfo: AnimeInfo, type: SkipSegmentType, scope: SkipMarkerScope): Promise<void> {
+    await this.updateMarkers(animeInfo, scope, markers => {
+      delete markers[type];
+    });
+  }
+
+  /**
+   * Сегмент, в который попадает позиция воспроизведения
+   */
+  static findActiveSegment(markers: ResolvedSkipMarkers, time: number): SkipSegmentType | null {
+    return this.SEGMENT_TYPES.find(type => {
+      const range = markers[type];
+      return !!range && time >= range.start && time < range.end;
+    }) ?? null;
+  }
+
+  /**
+   * Подписывается на изменения отметок (в том числе из других вкладок)
+   */
+  static onChange(listener: () => void): () => void {
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes[this.STORAGE_KEY]) {
+        listener();
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }
+
+  /**
+   * Пустые отметки серии
+   */
+  static empty(): ResolvedSkipMarkers {
+    return {
+      opening: null,
+      ending: null,
+      sources: { opening: null, ending: null }
+    };
+  }
+
+  /**
+   * Собирает итоговые отметки серии
+   */
+  static resolve(entry: TranslationSkipMarkers | undefined, episodeKey: string): ResolvedSkipMarkers {
+    const resolved = this.empty();
+    if (!entry) return resolved;
+
+    const override = entry.episodes[episodeKey] || {};
+    for (const type of this.SEGMENT_TYPES) {
+      if (type in override) {
+        resolved[type] = override[type] ?? null;
+        resolved.sources[type] = 'episode';
+      } else if (entry.series[type]) {
+        resolved[type] = entry.series[type] ?? null;
+        resolved.sources[type] = 'series';
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Изменяет отметки сериала или серии и сохраняет хранилище
+   */
+  private static async updateMarkers(animeInfo: AnimeInfo, scope: SkipMarkerScope, update: (markers: SkipMarkers) => void): Promise<void> {
+    const storage = await this.getStorage();
+    const translations = storage[animeInfo.id] || {};
+    const translationKey = this.translationKey(animeInfo);
+    const entry: TranslationSkipMarkers = translations[translationKey] || { series: {}, episodes: {}, updatedAt: 0 };
+
+    if (scope === 'series') {
+      update(entry.series);
+    } else {
+      const episodeKey = this.episodeKey(animeInfo);
+      const markers = entry.episodes[episodeKey] || {};
+      update(markers);
+
+      if (Object.keys(markers).length > 0) {
+        entry.episodes[episodeKey] = markers;
+      } else {
+        delete entry.episodes[episodeKey];
+      }
+    }
+
+    entry.updatedAt = Date.now();
+    translations[translationKey] = entry;
+    storage[animeInfo.id] = translations;
+
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: storage });
+  }
+
+  private static async getStorage(): Promise<SkipMarkersStorage> {
+    try {
+      const result = await chrome.storage.local.get([this.STORAGE_KEY]);
+      return result[this.STORAGE_KEY] || {};
+    } catch (error) {
+      console.error('Failed to get skip markers:', error);
+      return {};
+    }
+  }
+
+  private static translationKey(animeInfo: AnimeInfo): string {
+    return animeInfo.translationId || this.DEFAULT_TRANSLATION;
+  }
+
+  private static episodeKey(animeInfo: AnimeInfo): string {
+    return ProgressManager.episodeKey(animeInfo.currentSeason ?? 1, animeInfo.currentEpisode);
+  }
+}
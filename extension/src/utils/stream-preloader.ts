@@ -0,0 +1,122 @@
+// Предзагрузка потока следующей серии: заранее получаем ссылки Kodik и прогреваем первые сегменты HLS
+
+import { KodikStreamResolution, KodikStreamTarget } from '../types/kodik';
+import { HLSUtils } from './hls-parser';
+import { kodikStreamKey } from './url-parser';
+
+interface PreloadEntry {
+  key: string;
+  controller: AbortController;
+  resolution: Promise<KodikStreamResolution | null>;
+  createdAt: number;
+}
+
+export class StreamPreloader {
+  static readonly THRESHOLD = 0.7; // доля просмотренной серии, после которой начинается предзагрузка
+  static readonly WARM_SEGMENTS = 2;
+  private static readonly TTL = 30 * 60 * 1000; // подписанные ссылки Kodik со временем устаревают
+
+  private entry: PreloadEntry | null = null;
+
+  constructor(
+    private readonly resolve: (target: KodikStreamTarget) => Promise<KodikStreamResolution>,
+    private readonly fetchFn: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  /**
+   * Начинает предзагрузку серии; повторный вызов для той же серии ничего не делает
+   * @param preferredQuality качество для прогрева сегментов, null — максимальное
+   */
+  preload(target: KodikStreamTarget, preferredQuality: number | null): void {
+    const key = kodikStreamKey(target);
+    if (this.entry?.key === key && !this.isExpired(this.entry)) return;
+
+    this.cancel();
+
+    const controller = new AbortController();
+    const resolution = this.resolve(target)
+      .then(result => {
+        if (controller.signal.aborted) return null;
+        console.log('⏩ Next episode stream preloaded:', key);
+
+        // Прогрев идет в фоне, ссылки доступны сразу
+        const quality = preferredQuality === null
+          ? result.maxQuality
+          : HLSUtils.pickQuality(result.qualities, preferredQuality);
+        void this.warm(result.streams[quality], controller.signal);
+        return result;
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          console.warn('⚠️ Next episode preload failed:', error);
+        }
+        return null;
+      });
+
+    this.entry = { key, controller, resolution, createdAt: Date.now() };
+  }
+
+  /**
+   * Забирает предзагруженный поток; null — если серия не предзагружалась или загрузка не удалась
+   * Предзагрузка другой серии при этом отменяется
+   */
+  async take(target: KodikStreamTarget): Promise<KodikStreamResolution | null> {
+    const entry = this.entry;
+    if (!entry || entry.key !== kodikStreamKey(target) || this.isExpired(entry)) {
+      this.cancel();
+      return null;
+    }
+
+    this.entry = null;
+    return entry.resolution;
+  }
+
+  /**
+   * Отменяет текущую предзагрузку (смена озвучки, отключение плеера)
+   */
+  cancel(): void {
+    if (!this.entry) return;
+    this.entry.controller.abort();
+    this.entry = null;
+  }
+
+  private isExpired(entry: PreloadEntry): boolean {
+    return Date.now() - entry.createdAt > StreamPreloader.TTL;
+  }
+
+  /**
+   * Загружает манифест и первые сегменты, чтобы они попали в HTTP кэш браузера
+   */
+  private async warm(manifestUrl: string | undefined, signal: AbortSignal): Promise<void> {
+    if (!manifestUrl) return;
+
+    try {
+      const response = await this.fetchFn(manifestUrl, { signal });
+      if (!response.ok) return;
+
+      const segments = StreamPreloader.parseSegmentUrls(await response.text(), manifestUrl)
+        .slice(0, StreamPreloader.WARM_SEGMENTS);
+      for (const segment of segments) {
+        if (signal.aborted) return;
+        const segmentResponse = await this.fetchFn(segment, { signal });
+        await segmentResponse.arrayBuffer();
+      }
+      console.log(`🔥 Warmed ${segments.length} segments of next episode`);
+    } catch (error) {
+      if (!signal.aborted) {
+        console.warn('⚠️ Failed to warm next episode segments:', error);
+      }
+    }
+  }
+
+  /**
+   * Абсолютные URL сегментов медиа плейлиста
+   */
+  static parseSegmentUrls(playlist: string, baseUrl: string): string[] {
+    return playlist
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => new URL(line, baseUrl).href);
+  }
+}
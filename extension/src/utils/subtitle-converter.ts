@@ -0,0 +1,276 @@
+// Конвертер субтитров в WebVTT для TextTrack: SRT и ASS/SSA (фансабы)
+// Из ASS переносятся курсив, жирный, подчеркивание, перенос строк и позиция сверху;
+// шрифты и цвета заменяются настройками субтитров плеера
+
+import { SubtitleCue, SubtitleFormat } from '../types/subtitles';
+
+interface AssEvent {
+  start: number;
+  end: number;
+  style: string;
+  text: string;
+}
+
+interface AssStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  top: boolean;
+}
+
+// Выравнивание \an7–\an9 (и устаревшее \a5–\a7) — верх кадра
+const TOP_ALIGNMENTS_AN = ['7', '8', '9'];
+const TOP_ALIGNMENTS_LEGACY = ['5', '6', '7'];
+
+export class SubtitleConverter {
+  /**
+   * Определяет формат по расширению файла или содержимому
+   */
+  static detectFormat(text: string, url: string = ''): SubtitleFormat {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    if (extension === 'ass' || extension === 'ssa') return 'ass';
+    if (extension === 'srt') return 'srt';
+    if (extension === 'vtt') return 'vtt';
+
+    const head = text.replace(/^\uFEFF/, '').trimStart();
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (head.startsWith('[Script Info]') || /^\[Events\]/m.test(head)) return 'ass';
+    return 'srt';
+  }
+
+  /**
+   * Приводит субтитры любого поддерживаемого формата к WebVTT
+   */
+  static toVtt(text: string, format: SubtitleFormat = this.detectFormat(text)): string {
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    switch (format) {
+      case 'vtt':
+        return normalized;
+      case 'ass':
+        return this.assToVtt(normalized);
+      default:
+        return this.srtToVtt(normalized);
+    }
+  }
+
+  /**
+   * Разбирает файл любого поддерживаемого формата в список реплик
+   */
+  static parseCues(text: string, fileName: string = ''): SubtitleCue[] {
+    return this.parseVtt(this.toVtt(text, this.detectFormat(text, fileName)));
+  }
+
+  /**
+   * Разбирает WebVTT в реплики; блоки NOTE, STYLE и REGION пропускаются
+   */
+  static parseVtt(vtt: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+
+    for (const block of vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+      const lines = block.split('\n').filter(line => line.trim() !== '');
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1 || timingIndex > 1) continue;
+
+      const match = lines[timingIndex].match(/^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)\s*(.*)$/);
+      if (!match) continue;
+
+      const start = this.parseVttTime(match[1]);
+      const end = this.parseVttTime(match[2]);
+      const text = lines.slice(timingIndex + 1).join('\n');
+      if (start === null || end === null || end <= start || !text) continue;
+
+      cues.push({ start, end, text, settings: match[3].trim() });
+    }
+
+    return cues.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * SRT отличается от WebVTT заголовком и запятой в миллисекундах
+   */
+  static srtToVtt(srt: string): string {
+    const body = srt
+      .replace(/\r\n?/g, '\n')
+      .trim()
+      .replace(/(\d{1,2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+    return `WEBVTT\n\n${body}\n`;
+  }
+
+  /**
+   * Переводит события [Events] ASS/SSA в реплики WebVTT
+   */
+  static assToVtt(ass: string): string {
+    const styles = new Map<string, AssStyle>();
+    const events: AssEvent[] = [];
+    let section = '';
+    let styleFormat: string[] = [];
+    let eventFormat: string[] = [];
+
+    for (const rawLine of ass.replace(/\r\n?/g, '\n').split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith(';')) continue;
+
+      const sectionMatch = line.match(/^\[(.+)\]$/);
+      if (sectionMatch) {
+        section = sectionMatch[1].toLowerCase();
+        continue;
+      }
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (section.includes('styles')) {
+        if (key === 'format') {
+          styleFormat = value.split(',').map(field => field.trim().toLowerCase());
+        } else if (key === 'style') {
+          const fields = this.splitFields(value, styleFormat.length);
+          const get = (name: string) => fields[styleFormat.indexOf(name)] ?? '';
+          const alignment = get('alignment');
+          styles.set(get('name'), {
+            bold: get('bold') === '-1' || get('bold') === '1',
+            italic: get('italic') === '-1' || get('italic') === '1',
+            underline: get('underline') === '-1' || get('underline') === '1',
+            top: styleFormat.length > 0 && (section.includes('v4+') ? TOP_ALIGNMENTS_AN : TOP_ALIGNMENTS_LEGACY).includes(alignment)
+          });
+        }
+      } else if (section === 'events') {
+        if (key === 'format') {
+          eventFormat = value.split(',').map(field => field.trim().toLowerCase());
+        } else if (key === 'dialogue' && eventFormat.length > 0) {
+          const fields = this.splitFields(value, eventFormat.length);
+          const get = (name: string) => fields[eventFormat.indexOf(name)] ?? '';
+          const start = this.parseAssTime(get('start'));
+          const end = this.parseAssTime(get('end'));
+          if (start === null || end === null || end <= start) continue;
+          events.push({ start, end, style: get('style').replace(/^\*/, ''), text: get('text') });
+        }
+      }
+    }
+
+    const cues: string[] = [];
+    events
+      .sort((a, b) => a.start - b.start)
+      .forEach(event => {
+        const style = styles.get(event.style) ?? { bold: false, italic: false, underline: false, top: false };
+        const cue = this.convertAssText(event.text, style);
+        if (!cue.text) return;
+
+        const settings = cue.top ? ' line:5% position:50% align:center' : '';
+        cues.push(`${this.formatVttTime(event.start)} --> ${this.formatVttTime(event.end)}${settings}\n${cue.text}`);
+      });
+
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+
+  /**
+   * Заменяет теги переопределения ASS на разметку WebVTT
+   * Рисунки (\p1) пропускаются целиком — в WebVTT их не отобразить
+   */
+  private static convertAssText(text: string, style: AssStyle): { text: string; top: boolean } {
+    let top = style.top;
+    let drawing = false;
+    const open = { b: style.bold, i: style.italic, u: style.underline };
+    let result = '';
+
+    const setTag = (tag: 'b' | 'i' | 'u', enabled: boolean) => {
+      if (open[tag] === enabled) return;
+      result += enabled ? `<${tag}>` : `</${tag}>`;
+      open[tag] = enabled;
+    };
+
+    // Стиль строки открывается заранее
+    for (const tag of ['b', 'i', 'u'] as const) {
+      if (open[tag]) result += `<${tag}>`;
+    }
+
+    for (const part of text.split(/(\{[^}]*\})/)) {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        // Остальные теги (\pos, \fad, \bord, \k, цвета...) отбрасываются
+        for (const tag of part.slice(1, -1).split('\\')) {
+          if (/^r([A-Z]|$)/.test(tag)) {
+            setTag('b', style.bold);
+            setTag('i', style.italic);
+            setTag('u', style.underline);
+            continue;
+          }
+
+          const match = tag.match(/^(an|a|b|i|u|p)(\d+)$/);
+          if (!match) continue;
+          const [, name, arg] = match;
+          if (name === 'an') top = TOP_ALIGNMENTS_AN.includes(arg);
+          else if (name === 'a') top = TOP_ALIGNMENTS_LEGACY.includes(arg);
+          else if (name === 'p') drawing = arg !== '0';
+          // \b700 — вес шрифта, считаем жирным всё, что не 0
+          else setTag(name as 'b' | 'i' | 'u', arg !== '0');
+        }
+        continue;
+      }
+
+      if (drawing) continue;
+      result += part
+        .replace(/\\N/g, '\n')
+        .replace(/\\n/g, '\n')
+        .replace(/\\h/g, ' ')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    }
+
+    for (const tag of ['u', 'i', 'b'] as const) {
+      if (open[tag]) result += `</${tag}>`;
+    }
+
+    // Пустые теги от рисунков и переключений стиля не нужны
+    const cleaned = result
+      .replace(/<(b|i|u)><\/\1>/g, '')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    return { text: cleaned, top };
+  }
+
+  /**
+   * Делит строку на count полей: последнее поле (текст) может содержать запятые
+   */
+  private static splitFields(value: string, count: number): string[] {
+    const parts = value.split(',');
+    if (count <= 0 || parts.length <= count) return parts.map(part => part.trim());
+    return [
+      ...parts.slice(0, count - 1).map(part => part.trim()),
+      parts.slice(count - 1).join(',')
+    ];
+  }
+
+  /**
+   * Время ASS h:mm:ss.cc в секундах
+   */
+  private static parseAssTime(time: string): number | null {
+    const match = time.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+    if (!match) return null;
+    const fraction = match[4] ? Number(match[4]) / Math.pow(10, match[4].length) : 0;
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + fraction;
+  }
+
+  /**
+   * Время WebVTT/SRT [hh:]mm:ss.mmm в секундах
+   */
+  private static parseVttTime(time: string): number | null {
+    const match = time.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+    if (!match) return null;
+    return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]) + Number(match[4].padEnd(3, '0')) / 1000;
+  }
+
+  private static formatVttTime(seconds: number): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+  }
+}
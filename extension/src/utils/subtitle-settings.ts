@@ -0,0 +1,93 @@
+// Настройки отображения субтитров: хранятся отдельно от ExtensionSettings, меняются из меню плеера
+
+import { SubtitleBackground, SubtitleSettings } from '../types/subtitles';
+
+export class SubtitleSettingsManager {
+  private static readonly STORAGE_KEY = 'subtitleSettings';
+
+  static readonly DEFAULTS: SubtitleSettings = {
+    enabled: true,
+    language: null,
+    fontSize: 100,
+    color: '#ffffff',
+    background: 'semi',
+    offset: 8
+  };
+
+  static readonly FONT_SIZES = [75, 100, 125, 150, 200];
+  static readonly COLORS = ['#ffffff', '#ffeb3b', '#00d4ff', '#8bc34a'];
+  static readonly BACKGROUNDS: SubtitleBackground[] = ['none', 'semi', 'solid'];
+  static readonly MAX_OFFSET = 40;
+
+  /**
+   * Получает настройки субтитров с подстановкой значений по умолчанию
+   */
+  static async getSettings(): Promise<SubtitleSettings> {
+    try {
+      const stored = await chrome.storage.sync.get([this.STORAGE_KEY]);
+      return this.normalize(stored[this.STORAGE_KEY]);
+    } catch (error) {
+      console.error('Failed to get subtitle settings:', error);
+      return { ...this.DEFAULTS };
+    }
+  }
+
+  static async saveSettings(settings: SubtitleSettings): Promise<void> {
+    try {
+      await chrome.storage.sync.set({ [this.STORAGE_KEY]: settings });
+    } catch (error) {
+      console.error('Failed to save subtitle settings:', error);
+    }
+  }
+
+  /**
+   * Подписывается на изменения настроек из других вкладок
+   */
+  static onChange(listener: (settings: SubtitleSettings) => void): () => void {
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'sync' && changes[this.STORAGE_KEY]) {
+        listener(this.normalize(changes[this.STORAGE_KEY].newValue));
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }
+
+  static normalize(raw: unknown): SubtitleSettings {
+    const defaults = this.DEFAULTS;
+    const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof SubtitleSettings, unknown>>;
+    const offset = Number(stored.offset);
+
+    return {
+      enabled: typeof stored.enabled === 'boolean' ? stored.enabled : defaults.enabled,
+      language: typeof stored.language === 'string' ? stored.language : defaults.language,
+      fontSize: this.FONT_SIZES.includes(stored.fontSize as number) ? stored.fontSize as number : defaults.fontSize,
+      color: typeof stored.color === 'string' && /^#[0-9a-f]{6}$/i.test(stored.color) ? stored.color : defaults.color,
+      background: this.BACKGROUNDS.includes(stored.background as SubtitleBackground)
+        ? stored.background as SubtitleBackground
+        : defaults.background,
+      offset: offset >= 0 && offset <= this.MAX_OFFSET ? offset : defaults.offset
+    };
+  }
+
+  /**
+   * CSS для ::cue по настройкам
+   */
+  static toCueCss(selector: string, settings: SubtitleSettings): string {
+    const background = {
+      none: 'transparent',
+      semi: 'rgba(0,0,0,0.6)',
+      solid: 'rgba(0,0,0,1)'
+    }[settings.background];
+    // Без фона текст читается только с обводкой
+    const shadow = settings.background === 'none' ? '0 0 4px #000, 0 0 2px #000' : 'none';
+
+    return `${selector}::cue {
+  font-size: ${settings.fontSize}%;
+  color: ${settings.color};
+  background-color: ${background};
+  text-shadow: ${shadow};
+}`;
+  }
+}
@@ -1,7 +1,7 @@
 // Утилитарные функции для работы с Kodik URLs и данными
 // Портированы из Python parser_kodik.py
 
-import { ParsedKodikUrl } from '../types/kodik';
+import { KodikStreamTarget, ParsedKodikUrl } from '../types/kodik';
 
 /**
  * Парсит Kodik URL и извлекает данные
@@ -38,6 +38,17 @@ export function parseKodikUrl(url: string): ParsedKodikUrl | null {
       result.translation_id = translationId;
     }
     
+    // Сезон и серия присутствуют в ссылках на конкретную серию
+    const season = parseInt(params.get('season') || '');
+    if (!isNaN(season)) {
+      result.season = season;
+    }
+    
+    const episode = parseInt(params.get('episode') || '');
+    if (!isNaN(episode)) {
+      result.episode = episode;
+    }
+    
     return result;
   } catch (error) {
     console.error('Error parsing Kodik URL:', error);
@@ -86,6 +97,20 @@ export function generateKodikEmbedUrl(
   return `${url}?${params.toString()}`;
 }
 
+/**
+ * URL embed страницы серии или фильма, с которого резолвер начинает получение потоков
+ */
+export function buildKodikEpisodeUrl(target: KodikStreamTarget): string {
+  return `https://kodik.info/${target.mediaType}/${target.mediaId}/${target.mediaHash}/720p?min_age=16&first_url=false&season=${target.season}&episode=${target.episode}`;
+}
+
+/**
+ * Ключ серии для кэша и дедупликации запросов потоков
+ */
+export function kodikStreamKey(target: KodikStreamTarget): string {
+  return [target.mediaId, target.mediaHash, target.translationId, target.season, target.episode].join(':');
+}
+
 /**
  * Проверяет качество изображения (есть ли preview в URL)
  */
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { AnimeParser } from '../src/utils/anime-parser';
+
+describe('AnimeParser.parseExternalId', () => {
+  it('reads catalog ids used by Kodik API search', () => {
+    expect(AnimeParser.parseExternalId('https://shikimori.one/animes/z5114-fullmetal-alchemist-brotherhood')).toEqual({ id: '5114', idType: 'shikimori' });
+    expect(AnimeParser.parseExternalId('https://www.kinopoisk.ru/series/507724/')).toEqual({ id: '507724', idType: 'kinopoisk' });
+    expect(AnimeParser.parseExternalId('https://www.imdb.com/title/tt1355642/')).toEqual({ id: 'tt1355642', idType: 'imdb' });
+  });
+
+  it('ignores unrelated links', () => {
+    expect(AnimeParser.parseExternalId('https://animestars.org/aniserials/video/action/3612.html')).toBeNull();
+  });
+});
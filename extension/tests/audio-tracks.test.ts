@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioTrackManager } from '../src/utils/audio-tracks';
+import { OptimizedHLSParser } from '../src/utils/hls-parser';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+const MASTER = [
+  '#EXTM3U',
+  '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Русский",LANGUAGE="ru",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="audio/ru.m3u8"',
+  '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="日本語",LANGUAGE="ja",DEFAULT=NO,AUTOSELECT=YES,URI="audio/ja.m3u8"',
+  '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Русские",LANGUAGE="ru",URI="subs/ru.m3u8"',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,AUDIO="aud"',
+  '720.mp4:hls:manifest.m3u8'
+].join('\n');
+
+describe('audio renditions', () => {
+  it('parses only audio EXT-X-MEDIA entries with absolute urls', () => {
+    const tracks = OptimizedHLSParser.parseAudioRenditions(MASTER, 'https://cloud.kodik-storage.com/useruploads/abc/720.mp4:hls:manifest.m3u8');
+
+    expect(tracks).toEqual([
+      {
+        groupId: 'aud',
+        name: 'Русский',
+        language: 'ru',
+        isDefault: true,
+        autoselect: true,
+        channels: '2',
+        url: 'https://cloud.kodik-storage.com/useruploads/abc/audio/ru.m3u8'
+      },
+      {
+        groupId: 'aud',
+        name: '日本語',
+        language: 'ja',
+        isDefault: false,
+        autoselect: true,
+        channels: undefined,
+        url: 'https://cloud.kodik-storage.com/useruploads/abc/audio/ja.m3u8'
+      }
+    ]);
+  });
+});
+
+describe('AudioTrackManager', () => {
+  const tracks = [
+    { name: 'Русский', language: 'ru', isDefault: true },
+    { name: 'Japanese', language: 'ja' },
+    { name: 'Commentary' }
+  ];
+
+  beforeEach(() => {
+    installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('picks the remembered language, then the default track', () => {
+    expect(AudioTrackManager.pickTrack(tracks, 'JA')).toBe(1);
+    expect(AudioTrackManager.pickTrack(tracks, 'commentary')).toBe(2);
+    expect(AudioTrackManager.pickTrack(tracks, 'en')).toBe(0);
+    expect(AudioTrackManager.pickTrack(tracks.slice(1), null)).toBe(0);
+    expect(AudioTrackManager.pickTrack([], 'ru')).toBe(-1);
+  });
+
+  it('remembers the language per anime', async () => {
+    await AudioTrackManager.saveLanguage('3612', AudioTrackManager.trackKey(tracks[1]));
+
+    expect(await AudioTrackManager.getLanguage('3612')).toBe('ja');
+    expect(await AudioTrackManager.getLanguage('5821')).toBeNull();
+    expect(await AudioTrackManager.getLanguage(undefined)).toBeNull();
+  });
+
+  it('formats menu labels without repeating the language code', () => {
+    expect(AudioTrackManager.formatLabel(tracks[0])).toBe('Русский (RU)');
+    expect(AudioTrackManager.formatLabel({ name: 'ja', language: 'ja' })).toBe('ja');
+    expect(AudioTrackManager.formatLabel(tracks[2])).toBe('Commentary');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { decryptKodikUrl } from '../src/utils/decryption';
+
+/**
+ * Шифрует URL так же, как Kodik: base64 без padding + сдвиг латиницы
+ */
+function encrypt(url: string, rot: number): string {
+  return Buffer.from(url).toString('base64')
+    .replace(/=+$/, '')
+    .replace(/[a-zA-Z]/g, char => {
+      const base = char <= 'Z' ? 65 : 97;
+      return String.fromCharCode((char.charCodeAt(0) - base - rot + 26) % 26 + base);
+    });
+}
+
+describe('decryptKodikUrl', () => {
+  const url = '//cloud.kodik-storage.com/useruploads/0c1d/720.mp4:hls:manifest.m3u8';
+
+  it.each([0, 1, 13, 18, 25])('decrypts links shifted by ROT%i', rot => {
+    expect(decryptKodikUrl(encrypt(url, rot))).toBe(url);
+  });
+
+  it('returns null when no shift yields an HLS manifest', () => {
+    expect(decryptKodikUrl(encrypt('//example.com/video.mp4', 18))).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { AnimeStarsDetector } from '../src/content/dom-detector';
+
+describe('AnimeStarsDetector', () => {
+  let detector: AnimeStarsDetector;
+
+  afterEach(() => {
+    detector.destroy();
+    document.body.innerHTML = '';
+  });
+
+  it('tracks every Kodik iframe on the page separately', () => {
+    document.body.innerHTML = `
+      <div class="player-wrap"><iframe src="https://kodik.info/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?only_translations=609"></iframe></div>
+      <div class="player-wrap"><iframe src="https://kodik.info/serial/49249/0b7f4c1e9d2a83b56e4f1a2c3d4e5f60/720p?only_translations=610"></iframe></div>
+    `;
+
+    detector = new AnimeStarsDetector();
+    detector.init();
+
+    expect(detector.getDetectedPlayers().size).toBe(2);
+  });
+});
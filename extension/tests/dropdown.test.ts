@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { closeOnOutsideClick } from '../src/content/dropdown';
+
+describe('closeOnOutsideClick', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('closes on outside clicks until the player is destroyed', () => {
+    const menu = document.createElement('div');
+    const item = document.createElement('button');
+    menu.appendChild(item);
+    document.body.appendChild(menu);
+
+    const close = vi.fn();
+    const listeners = new AbortController();
+    closeOnOutsideClick(menu, close, listeners.signal);
+
+    item.click();
+    expect(close).not.toHaveBeenCalled();
+
+    document.body.click();
+    expect(close).toHaveBeenCalledTimes(1);
+
+    listeners.abort();
+    document.body.click();
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventBus, playerEvents } from '../src/utils/event-bus';
+import { ProgressManager } from '../src/utils/progress-manager';
+import { PlayerEventMap, ProgressSavedEvent } from '../src/types/events';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+describe('EventBus', () => {
+  it('delivers typed payloads until the handler unsubscribes', () => {
+    const bus = new EventBus<PlayerEventMap>();
+    const episodes: number[] = [];
+
+    const unsubscribe = bus.on('episodeChanged', ({ episode }) => episodes.push(episode));
+    bus.emit('episodeChanged', { season: 1, episode: 3 });
+    unsubscribe();
+    bus.emit('episodeChanged', { season: 1, episode: 4 });
+
+    expect(episodes).toEqual([3]);
+  });
+
+  it('runs once handlers a single time and isolates failing handlers', () => {
+    const bus = new EventBus<PlayerEventMap>();
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const once = vi.fn();
+    const next = vi.fn();
+
+    bus.on('streamError', () => {
+      throw new Error('broken subscriber');
+    });
+    bus.once('streamError', once);
+    bus.on('streamError', next);
+
+    bus.emit('streamError', { message: 'networkError: manifestLoadError', stage: 'playback' });
+    bus.emit('streamError', { message: 'Request timeout', stage: 'resolve' });
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(errors).toHaveBeenCalledTimes(2);
+    errors.mockRestore();
+  });
+});
+
+describe('ProgressManager events', () => {
+  beforeEach(() => {
+    installChromeStorage();
+  });
+
+  afterEach(() => {
+    playerEvents.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('emits progressSaved with the stored episode state', async () => {
+    const saved: ProgressSavedEvent[] = [];
+    playerEvents.on('progressSaved', event => saved.push(event));
+
+    await ProgressManager.saveProgress({ id: '3612', title: 'Test Anime', currentSeason: 2, currentEpisode: 5 }, 600, 1440);
+    await ProgressManager.markEpisodeWatched({ id: '3612', title: 'Test Anime', currentSeason: 2, currentEpisode: 5 }, 1440);
+
+    expect(saved).toEqual([
+      { animeId: '3612', season: 2, episode: 5, currentTime: 600, duration: 1440, state: 'partial' },
+      { animeId: '3612', season: 2, episode: 5, currentTime: 1440, duration: 1440, state: 'watched' }
+    ]);
+  });
+
+  it('stops auto-save when the episode changes', () => {
+    const stop = vi.spyOn(ProgressManager, 'stopAutoSave');
+    const unsubscribe = ProgressManager.watchPlayerEvents();
+
+    playerEvents.emit('episodeChanged', { animeId: '3612', season: 1, episode: 2 });
+    unsubscribe();
+    playerEvents.emit('translationChanged', { translationId: '610', title: 'AniLibria' });
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    stop.mockRestore();
+  });
+});
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FastVideoPlayer } from '../src/content/fast-player';
+
+describe('FastVideoPlayer', () => {
+  const textTracks = Object.getOwnPropertyDescriptor(HTMLMediaElement.prototype, 'textTracks')!;
+
+  beforeEach(() => {
+    // В jsdom TextTrackList не EventTarget: подставляем пустой список дорожек
+    Object.defineProperty(HTMLMediaElement.prototype, 'textTracks', {
+      configurable: true,
+      get: () => Object.assign(new EventTarget(), { length: 0 })
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(HTMLMediaElement.prototype, 'textTracks', textTracks);
+    document.body.innerHTML = '';
+  });
+
+  it('shows episode navigation on request and reports clicks as events', () => {
+    const player = new FastVideoPlayer({ bufferSize: 30 });
+    const previous = player.element.querySelector<HTMLElement>('.control-btn-prev-episode')!;
+    const next = player.element.querySelector<HTMLElement>('.control-btn-next-episode')!;
+    expect(previous.style.display).toBe('none');
+    expect(next.style.display).toBe('none');
+
+    player.setEpisodeNavigation(false, true);
+    expect(previous.style.display).toBe('none');
+    expect(next.style.display).toBe('flex');
+
+    const onNext = vi.fn();
+    player.on('nextepisode', onNext);
+    next.click();
+    expect(onNext).toHaveBeenCalledTimes(1);
+  });
+
+  it('owns the skip button overlay', () => {
+    const player = new FastVideoPlayer({ bufferSize: 30 });
+    const button = player.element.querySelector<HTMLElement>('.skip-segment-btn')!;
+
+    player.showSkipButton('Пропустить опенинг');
+    expect(button.style.display).toBe('block');
+    expect(button.textContent).toBe('Пропустить опенинг');
+
+    const onSkip = vi.fn();
+    player.on('skipsegment', onSkip);
+    button.click();
+    expect(onSkip).toHaveBeenCalledTimes(1);
+
+    player.hideSkipButton();
+    expect(button.style.display).toBe('none');
+  });
+
+  it('draws timeline marks once the duration is known', () => {
+    const player = new FastVideoPlayer({ bufferSize: 30 });
+    const layer = player.element.querySelector<HTMLElement>('.skip-markers-layer')!;
+
+    player.setTimelineMarks([{ start: 0, end: 90 }]);
+    expect(layer.children).toHaveLength(0);
+
+    Object.defineProperty(player.video, 'duration', { configurable: true, value: 1440 });
+    player.video.dispatchEvent(new Event('durationchange'));
+    expect(layer.children).toHaveLength(1);
+    expect((layer.children[0] as HTMLElement).style.width).toBe('6.25%');
+  });
+});
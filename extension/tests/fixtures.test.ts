@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+// Прогон парсеров по всем сохранённым снимкам из tests/fixtures
+
+import { describe, expect, it } from 'vitest';
+import { extractPostLink, extractVideoDataFromPage, getDefaultStrategies } from '../src/api/stream-resolver';
+import { parseEpisodeCount, parseSeasons } from '../src/utils/kodik-page-parser';
+import { AnimeParser } from '../src/utils/anime-parser';
+import { KodikExtractionStrategy } from '../src/types/kodik';
+import { loadFixtures } from './helpers/fixtures';
+
+/**
+ * Имя первой сработавшей стратегии
+ */
+function firstMatchingStrategy<T>(strategies: KodikExtractionStrategy<T>[], source: string): string | null {
+  for (const strategy of strategies) {
+    try {
+      if (strategy.extract(source) !== null) return strategy.name;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+describe('kodik-embed fixtures', () => {
+  for (const fixture of loadFixtures('kodik-embed')) {
+    const { expected, content } = fixture;
+
+    describe(fixture.name, () => {
+      it('extracts video data', () => {
+        const data = extractVideoDataFromPage(content);
+        expect(data).not.toBeNull();
+
+        if (expected.videoType !== undefined) expect(data!.videoType).toBe(expected.videoType);
+        if (expected.videoHash !== undefined) expect(data!.videoHash).toBe(expected.videoHash);
+        if (expected.videoId !== undefined) expect(data!.videoId).toBe(expected.videoId);
+        if (expected.scriptUrl !== undefined) expect(data!.scriptUrl).toBe(expected.scriptUrl);
+        if (expected.urlParams !== undefined) expect(data!.urlParams).toMatchObject(expected.urlParams);
+
+        expect(data!.urlParams.d_sign).toBeTruthy();
+        expect(data!.urlParams.pd_sign).toBeTruthy();
+        expect(data!.urlParams.ref_sign).toBeTruthy();
+      });
+
+      if (expected.strategies) {
+        it('matches the expected extraction strategies', () => {
+          const strategies = getDefaultStrategies();
+          const matched = {
+            urlParams: firstMatchingStrategy(strategies.urlParams, content),
+            videoParams: firstMatchingStrategy(strategies.videoParams, content),
+            scriptUrl: firstMatchingStrategy(strategies.scriptUrl, content)
+          };
+          expect(matched).toMatchObject(expected.strategies!);
+        });
+      }
+
+      if (expected.episodeCount !== undefined) {
+        it('parses episode count', () => {
+          expect(parseEpisodeCount(content)).toBe(expected.episodeCount);
+        });
+      }
+
+      if (expected.seasons !== undefined) {
+        it('parses seasons', () => {
+          const { seasons, selected } = parseSeasons(content);
+          expect(seasons.map(season => season.number)).toEqual(expected.seasons);
+          expect(selected).toBe(expected.selectedSeason ?? null);
+        });
+      }
+    });
+  }
+});
+
+describe('kodik-script fixtures', () => {
+  for (const fixture of loadFixtures('kodik-script')) {
+    it(`${fixture.name}: decodes post link`, () => {
+      expect(extractPostLink(fixture.content)).toBe(fixture.expected.postLink);
+
+      if (fixture.expected.strategy) {
+        expect(firstMatchingStrategy(getDefaultStrategies().postLink, fixture.content)).toBe(fixture.expected.strategy);
+      }
+    });
+  }
+});
+
+describe('anime-page fixtures', () => {
+  for (const fixture of loadFixtures('anime-page')) {
+    describe(fixture.name, () => {
+      if (fixture.expected.animeId !== undefined) {
+        it('extracts anime id', () => {
+          document.documentElement.innerHTML = fixture.content;
+          expect(AnimeParser.extractAnimeId(fixture.url)).toBe(fixture.expected.animeId);
+        });
+      }
+
+      if (fixture.expected.episodeCount !== undefined) {
+        it('parses episode count', () => {
+          expect(parseEpisodeCount(fixture.content)).toBe(fixture.expected.episodeCount);
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,2 @@
+/*! kodik player app.serial (reordered ajax options) */
+function loadLinks(e){$.ajax({url:atob("L2tvci9mdG9y"),type:"POST",dataType:"json",cache:!1,data:e,success:function(t){onLinks(t.links)}})}
@@ -0,0 +1,5 @@
+/*! kodik player app.serial */
+!function(e){var t={};function n(r){if(t[r])return t[r].exports;var o=t[r]={i:r,l:!1,exports:{}};return e[r].call(o.exports,o,o.exports,n),o.l=!0,o.exports}n.m=e,n.c=t}([function(e,t){
+function r(e){var t=$.extend({},urlParams,{hash:videoInfo.hash,id:videoInfo.id,type:videoInfo.type,bad_user:!0,cdn_is_working:!0});$.ajax({type:"POST",url:atob("L2Z0b3I="),cache:!1,data:t,dataType:"json",success:function(t){e(t.links)},error:function(){showError("Ошибка загрузки")}})}
+function o(e,t){return e.replace(/[a-zA-Z]/g,function(e){return String.fromCharCode((e<="Z"?90:122)>=(e=e.charCodeAt(0)+18)?e:e-26)})}
+e.exports={getLinks:r,decode:o}}]);
@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HeaderRulesManager } from '../src/utils/header-rules';
+
+const EXTENSION_ID = 'abcdefghijklmnopabcdefghijklmnop';
+
+describe('HeaderRulesManager', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('scopes dynamic rules to requests made by the extension', () => {
+    const rules = HeaderRulesManager.buildDynamicRules(EXTENSION_ID, 'https://kodik.info');
+
+    expect(rules.map(rule => rule.condition.requestDomains)).toEqual([
+      ['kodik.info'],
+      ['kodikapi.com'],
+      ['cloud.kodik-storage.com']
+    ]);
+    for (const rule of rules) {
+      expect(rule.condition.initiatorDomains).toEqual([EXTENSION_ID]);
+      expect(rule.id).toBeGreaterThanOrEqual(HeaderRulesManager.FIRST_DYNAMIC_ID);
+      expect(rule.id).toBeLessThanOrEqual(HeaderRulesManager.LAST_DYNAMIC_ID);
+    }
+    expect(HeaderRulesManager.formatHeaders(rules[1])).toBe('Referer: https://kodik.info/, Origin: https://kodik.info');
+    expect(HeaderRulesManager.formatHeaders(rules[2])).toBe('Referer: https://kodik.info/');
+  });
+
+  it('adds the local Kodik server of test builds to the kodik.info rule', () => {
+    const [kodikRule] = HeaderRulesManager.buildDynamicRules(EXTENSION_ID, 'http://localhost:8787');
+    expect(kodikRule.condition.requestDomains).toEqual(['kodik.info', 'localhost']);
+  });
+
+  it('replaces only its own dynamic rules and keeps an unscoped static ruleset off', async () => {
+    const updateDynamicRules = vi.fn(async () => {});
+    const updateEnabledRulesets = vi.fn(async () => {});
+    vi.stubGlobal('chrome', {
+      runtime: { id: EXTENSION_ID, getURL: (path: string) => path },
+      declarativeNetRequest: {
+        getDynamicRules: async () => [{ id: 5 }, { id: HeaderRulesManager.FIRST_DYNAMIC_ID }, { id: 150 }],
+        updateDynamicRules,
+        updateEnabledRulesets
+      }
+    });
+    vi.stubGlobal('fetch', async () => ({ json: async () => readStaticRules() }));
+
+    const rules = await HeaderRulesManager.sync();
+
+    expect(updateDynamicRules).toHaveBeenCalledWith({
+      removeRuleIds: [HeaderRulesManager.FIRST_DYNAMIC_ID, 150],
+      addRules: rules
+    });
+    expect(updateEnabledRulesets).toHaveBeenCalledWith({ disableRulesetIds: [HeaderRulesManager.STATIC_RULESET_ID] });
+  });
+
+  it('lists static and own dynamic rules', async () => {
+    vi.stubGlobal('chrome', {
+      runtime: { id: EXTENSION_ID, getURL: (path: string) => path },
+      declarativeNetRequest: {
+        getEnabledRulesets: async () => [],
+        getDynamicRules: async () => [{ id: 5 }, { id: HeaderRulesManager.FIRST_DYNAMIC_ID }]
+      }
+    });
+    vi.stubGlobal('fetch', async () => ({ json: async () => readStaticRules() }));
+
+    const entries = await HeaderRulesManager.getRules();
+
+    expect(entries.map(({ source, enabled, rule }) => [source, enabled, rule.id])).toEqual([
+      ['static', false, 1],
+      ['static', false, 2],
+      ['static', false, 3],
+      ['dynamic', true, HeaderRulesManager.FIRST_DYNAMIC_ID]
+    ]);
+  });
+
+  it('ships a static ruleset with the same scope as the dynamic rules', () => {
+    const manifest = JSON.parse(readFileSync(join(__dirname, '..', 'manifest.json'), 'utf8'));
+    expect(manifest.declarative_net_request.rule_resources).toContainEqual({
+      id: HeaderRulesManager.STATIC_RULESET_ID,
+      enabled: false,
+      path: HeaderRulesManager.STATIC_RULESET_PATH
+    });
+
+    const placeholder = HeaderRulesManager.STATIC_INITIATOR_PLACEHOLDER;
+    const staticRules = readStaticRules();
+    const dynamicRules = HeaderRulesManager.buildDynamicRules(placeholder, 'https://kodik.info');
+
+    expect(staticRules.map(rule => ({ ...rule, id: 0 }))).toEqual(dynamicRules.map(rule => ({ ...rule, id: 0 })));
+    expect(HeaderRulesManager.isScopedToExtension(staticRules, EXTENSION_ID)).toBe(false);
+
+    const built = JSON.parse(JSON.stringify(staticRules).split(`"${placeholder}"`).join(`"${EXTENSION_ID}"`));
+    expect(HeaderRulesManager.isScopedToExtension(built, EXTENSION_ID)).toBe(true);
+  });
+});
+
+function readStaticRules(): chrome.declarativeNetRequest.Rule[] {
+  return JSON.parse(readFileSync(join(__dirname, '..', 'assets', HeaderRulesManager.STATIC_RULESET_PATH), 'utf8'));
+}
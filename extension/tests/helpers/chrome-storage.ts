@@ -0,0 +1,56 @@
+// Заглушка chrome.storage в памяти для тестов модулей, работающих с настройками и прогрессом
+import { vi } from 'vitest';
+
+type StorageChanges = { [key: string]: chrome.storage.StorageChange };
+type ChangeListener = (changes: StorageChanges, areaName: string) => void;
+
+function createArea(areaName: string, listeners: Set<ChangeListener>) {
+  const data: Record<string, unknown> = {};
+
+  return {
+    data,
+    async get(keys?: string | string[] | Record<string, unknown> | null) {
+      if (keys === null || keys === undefined) return { ...data };
+      if (typeof keys === 'string') keys = [keys];
+      if (Array.isArray(keys)) {
+        return Object.fromEntries(keys.filter(key => key in data).map(key => [key, data[key]]));
+      }
+      return Object.fromEntries(Object.entries(keys).map(([key, fallback]) => [key, key in data ? data[key] : fallback]));
+    },
+    async set(items: Record<string, unknown>) {
+      const changes: StorageChanges = {};
+      for (const [key, value] of Object.entries(items)) {
+        changes[key] = { oldValue: data[key], newValue: value };
+        data[key] = value;
+      }
+      listeners.forEach(listener => listener(changes, areaName));
+    },
+    async remove(keys: string | string[]) {
+      const changes: StorageChanges = {};
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        changes[key] = { oldValue: data[key] };
+        delete data[key];
+      }
+      listeners.forEach(listener => listener(changes, areaName));
+    }
+  };
+}
+
+/**
+ * Подменяет глобальный chrome объектом с хранилищами sync, local и session
+ */
+export function installChromeStorage() {
+  const listeners = new Set<ChangeListener>();
+  const storage = {
+    sync: createArea('sync', listeners),
+    local: createArea('local', listeners),
+    session: createArea('session', listeners),
+    onChanged: {
+      addListener: (listener: ChangeListener) => listeners.add(listener),
+      removeListener: (listener: ChangeListener) => listeners.delete(listener)
+    }
+  };
+
+  vi.stubGlobal('chrome', { storage });
+  return { storage, listeners };
+}
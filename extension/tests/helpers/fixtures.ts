@@ -0,0 +1,101 @@
+// Загрузка сохранённых снимков страниц Kodik и AnimeStars для офлайн тестов
+// Каждый снимок — файл с содержимым и соседний <name>.meta.json с URL и ожидаемыми значениями
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { KodikExtractionStage } from '../../src/types/kodik';
+
+export const FIXTURES_DIR = join(__dirname, '..', 'fixtures');
+
+export type FixtureKind = 'kodik-embed' | 'kodik-script' | 'kodik-links' | 'anime-page';
+
+export interface EmbedExpectation {
+  strategies?: Partial<Record<KodikExtractionStage, string>>;
+  videoType?: string;
+  videoHash?: string;
+  videoId?: string;
+  urlParams?: Record<string, string>;
+  scriptUrl?: string;
+  episodeCount?: number;
+  seasons?: number[];
+  selectedSeason?: number | null;
+}
+
+export interface ScriptExpectation {
+  strategy?: string;
+  postLink: string;
+}
+
+export interface LinksExpectation {
+  qualities: number[];
+  maxQuality: number;
+  decryptedQualities?: number[];
+  streams: Record<string, string>;
+}
+
+export interface AnimePageExpectation {
+  animeId?: string | null;
+  episodeCount?: number;
+}
+
+interface ExpectationByKind {
+  'kodik-embed': EmbedExpectation;
+  'kodik-script': ScriptExpectation;
+  'kodik-links': LinksExpectation;
+  'anime-page': AnimePageExpectation;
+}
+
+export interface FixtureMeta<K extends FixtureKind = FixtureKind> {
+  kind: K;
+  file: string;
+  url: string;
+  recordedAt: string;
+  note?: string;
+  expected: ExpectationByKind[K];
+}
+
+export interface Fixture<K extends FixtureKind = FixtureKind> extends FixtureMeta<K> {
+  name: string;
+  path: string;
+  content: string;
+}
+
+/**
+ * Рекурсивно собирает пути к *.meta.json
+ */
+function findMetaFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return findMetaFiles(fullPath);
+    return entry.name.endsWith('.meta.json') ? [fullPath] : [];
+  });
+}
+
+/**
+ * Загружает все снимки указанного типа
+ */
+export function loadFixtures<K extends FixtureKind>(kind: K, dir: string = FIXTURES_DIR): Fixture<K>[] {
+  return findMetaFiles(dir)
+    .map(metaPath => {
+      const meta = JSON.parse(readFileSync(metaPath, 'utf8')) as FixtureMeta;
+      const path = join(metaPath, '..', meta.file);
+      return {
+        ...meta,
+        name: metaPath.slice(dir.length + 1).replace(/\.meta\.json$/, ''),
+        path,
+        content: readFileSync(path, 'utf8')
+      } as Fixture;
+    })
+    .filter((fixture): fixture is Fixture<K> => fixture.kind === kind)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Ищет снимок по исходному URL
+ */
+export function findFixtureByUrl(url: string): Fixture | undefined {
+  const kinds: FixtureKind[] = ['kodik-embed', 'kodik-script', 'kodik-links', 'anime-page'];
+  return kinds.flatMap(kind => loadFixtures(kind)).find(fixture => fixture.url === url);
+}
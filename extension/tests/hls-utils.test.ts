@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { HLSUtils } from '../src/utils/hls-parser';
+
+describe('HLSUtils.createMasterPlaylist', () => {
+  it('lists every Kodik quality as a level ordered by height', () => {
+    const playlist = HLSUtils.createMasterPlaylist({
+      720: 'https://cloud.kodik-storage.com/a/720.mp4:hls:manifest.m3u8',
+      360: 'https://cloud.kodik-storage.com/a/360.mp4:hls:manifest.m3u8'
+    });
+
+    expect(playlist.split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,NAME="360p"',
+      'https://cloud.kodik-storage.com/a/360.mp4:hls:manifest.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,NAME="720p"',
+      'https://cloud.kodik-storage.com/a/720.mp4:hls:manifest.m3u8',
+      ''
+    ]);
+  });
+});
+
+describe('HLSUtils.pickQuality', () => {
+  it('prefers the exact or nearest lower quality', () => {
+    expect(HLSUtils.pickQuality([360, 480, 720], 720)).toBe(720);
+    expect(HLSUtils.pickQuality([360, 480, 720], 1080)).toBe(720);
+    expect(HLSUtils.pickQuality([360, 720], 480)).toBe(360);
+  });
+
+  it('falls back to the lowest quality when all are higher', () => {
+    expect(HLSUtils.pickQuality([480, 720], 360)).toBe(480);
+  });
+});
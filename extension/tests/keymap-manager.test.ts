@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { KeymapManager } from '../src/utils/keymap-manager';
+
+const keydown = (code: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ code, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers }) as KeyboardEvent;
+
+describe('KeymapManager.normalize', () => {
+  it('keeps custom bindings and fills defaults for new actions', () => {
+    const keymap = KeymapManager.normalize({
+      bindings: { togglePlay: ['KeyK'], nextEpisode: [] },
+      seekStep: 5,
+      volumeStep: 500
+    });
+
+    expect(keymap.bindings.togglePlay).toEqual(['KeyK']);
+    expect(keymap.bindings.nextEpisode).toEqual([]);
+    expect(keymap.bindings.showHelp).toEqual(KeymapManager.DEFAULTS.bindings.showHelp);
+    expect(keymap).toMatchObject({ seekStep: 5, longSeekStep: 30, volumeStep: 10, digitSeek: true });
+  });
+
+  it('has no conflicts in the default keymap', () => {
+    expect(KeymapManager.findConflicts(KeymapManager.DEFAULTS.bindings)).toEqual([]);
+  });
+});
+
+describe('KeymapManager key handling', () => {
+  it('reports keys bound to several actions', () => {
+    const bindings = { ...KeymapManager.DEFAULTS.bindings, skipSegment: ['KeyS', 'KeyN'] };
+
+    expect(KeymapManager.findConflicts(bindings)).toEqual([{ key: 'KeyN', actions: ['nextEpisode', 'skipSegment'] }]);
+  });
+
+  it('builds keys from events with modifiers and ignores bare modifiers', () => {
+    expect(KeymapManager.eventToKey(keydown('ArrowRight', { shiftKey: true }))).toBe('Shift+ArrowRight');
+    expect(KeymapManager.eventToKey(keydown('ShiftLeft', { shiftKey: true }))).toBeNull();
+    expect(KeymapManager.findAction(KeymapManager.DEFAULTS.bindings, 'Shift+Slash')).toBe('showHelp');
+    expect(KeymapManager.findAction(KeymapManager.DEFAULTS.bindings, 'Ctrl+KeyF')).toBeNull();
+  });
+
+  it('labels letters in both layouts', () => {
+    expect(KeymapManager.formatKey('KeyF')).toBe('F (А)');
+    expect(KeymapManager.formatKey('Ctrl+Comma')).toBe('Ctrl + , (Б)');
+    expect(KeymapManager.formatKey('Shift+Slash')).toBe('?');
+    expect(KeymapManager.formatKey('Digit5')).toBe('5');
+  });
+});
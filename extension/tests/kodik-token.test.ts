@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KodikTokenManager } from '../src/utils/kodik-token';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+const TOKEN = 'a'.repeat(32);
+const NEXT_TOKEN = 'b'.repeat(32);
+const USER_TOKEN = 'c'.repeat(32);
+
+describe('KodikTokenManager', () => {
+  beforeEach(() => {
+    installChromeStorage();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches the token once for concurrent requests and keeps it until it nears expiry', async () => {
+    const fetchToken = vi.fn(async () => TOKEN);
+
+    const states = await Promise.all([KodikTokenManager.getToken(fetchToken), KodikTokenManager.getToken(fetchToken)]);
+    expect(states.map(state => state.token)).toEqual([TOKEN, TOKEN]);
+    expect(states[0]).toMatchObject({ source: 'scraped', expiresAt: Date.now() + KodikTokenManager.TOKEN_TTL });
+
+    vi.advanceTimersByTime(KodikTokenManager.TOKEN_TTL - KodikTokenManager.REFRESH_MARGIN - 1);
+    await KodikTokenManager.getToken(fetchToken);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes ahead of expiry while still serving the current token', async () => {
+    const fetchToken = vi.fn().mockResolvedValueOnce(TOKEN).mockResolvedValueOnce(NEXT_TOKEN);
+    await KodikTokenManager.getToken(fetchToken);
+
+    vi.advanceTimersByTime(KodikTokenManager.TOKEN_TTL - KodikTokenManager.REFRESH_MARGIN);
+    await expect(KodikTokenManager.getToken(fetchToken)).resolves.toMatchObject({ token: TOKEN });
+    await vi.waitFor(async () => expect((await KodikTokenManager.getState()).token).toBe(NEXT_TOKEN));
+
+    // Плановое обновление ничего не делает, пока токен свежий
+    await KodikTokenManager.refreshIfNeeded(fetchToken);
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops only the rejected token', async () => {
+    const fetchToken = vi.fn().mockResolvedValueOnce(TOKEN).mockResolvedValueOnce(NEXT_TOKEN);
+    await KodikTokenManager.getToken(fetchToken);
+
+    await KodikTokenManager.invalidate(NEXT_TOKEN);
+    expect((await KodikTokenManager.getState()).token).toBe(TOKEN);
+
+    await KodikTokenManager.invalidate(TOKEN);
+    await expect(KodikTokenManager.getToken(fetchToken)).resolves.toMatchObject({ token: NEXT_TOKEN });
+  });
+
+  it('prefers a valid user token over the scraped one', async () => {
+    const fetchToken = vi.fn(async () => TOKEN);
+
+    await expect(KodikTokenManager.saveUserToken('not a token!')).resolves.toBe(false);
+    await expect(KodikTokenManager.saveUserToken(` ${USER_TOKEN} `)).resolves.toBe(true);
+    await expect(KodikTokenManager.getToken(fetchToken)).resolves.toEqual({ token: USER_TOKEN, source: 'user', expiresAt: null });
+
+    await KodikTokenManager.invalidate(USER_TOKEN);
+    expect((await KodikTokenManager.getState()).source).toBe('user');
+
+    await KodikTokenManager.saveUserToken(null);
+    await expect(KodikTokenManager.getToken(fetchToken)).resolves.toMatchObject({ token: TOKEN, source: 'scraped' });
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,74 @@
+// Сквозной прогон резолвера против локального мок сервера Kodik
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { KodikStreamResolver, fetchTransport } from '../src/api/stream-resolver';
+import { parseEpisodeCount, parseSeasons } from '../src/utils/kodik-page-parser';
+import { resolveKodikEndpoint } from '../src/config/endpoints';
+import { MockKodikServer, startMockKodikServer } from './mock-kodik/server';
+
+describe('mock Kodik server', () => {
+  let server: MockKodikServer;
+
+  beforeAll(async () => {
+    server = await startMockKodikServer({ seasons: 3, episodesPerSeason: 10 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const episodeUrl = (season: number, episode: number) =>
+    `//kodik.info/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?min_age=16&first_url=false&season=${season}&episode=${episode}`;
+
+  it('serves a serial page the page parsers understand', async () => {
+    const html = await fetchTransport.getText(resolveKodikEndpoint(episodeUrl(2, 4), server.url));
+
+    expect(parseEpisodeCount(html)).toBe(10);
+    expect(parseSeasons(html)).toMatchObject({ selected: 2 });
+    expect(parseSeasons(html).seasons).toHaveLength(3);
+  });
+
+  it('resolves decrypted streams through the redirected transport', async () => {
+    const resolver = new KodikStreamResolver({
+      getText: url => fetchTransport.getText(resolveKodikEndpoint(url, server.url)),
+      postForm: (url, data) => fetchTransport.postForm(resolveKodikEndpoint(url, server.url), data)
+    });
+
+    const resolution = await resolver.resolve(`https:${episodeUrl(1, 3)}`);
+
+    expect(resolution.qualities).toEqual([720, 480, 360]);
+    expect(resolution.streams[720]).toBe(`${server.url}/hls/49249-1-3/720.mp4:hls:manifest.m3u8`);
+    expect(resolution.diagnostics.decryptedQualities).toEqual([360, 480, 720]);
+
+    const post = server.requests.find(request => request.method === 'POST');
+    expect(post?.body).toMatchObject({ id: '49249-1-3', d_sign: 'mock-d-sign', bad_user: 'true' });
+  });
+
+  it('serves playable HLS playlists and AAC segments', async () => {
+    const playlist = await fetchTransport.getText(`${server.url}/hls/49249-1-3/720.mp4:hls:manifest.m3u8`);
+    const segments = playlist.split('\n').filter(line => line.startsWith('/hls/'));
+    expect(playlist).toContain('#EXT-X-ENDLIST');
+    expect(segments).toHaveLength(6);
+
+    const master = await fetchTransport.getText(`${server.url}/hls/49249-1-3/master.m3u8`);
+    expect(master.match(/#EXT-X-STREAM-INF/g)).toHaveLength(3);
+
+    const response = await fetch(server.url + segments[0]);
+    const segment = new Uint8Array(await response.arrayBuffer());
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect([segment[0], segment[1] & 0xf6]).toEqual([0xff, 0xf0]);
+  });
+});
+
+describe('resolveKodikEndpoint', () => {
+  it('keeps kodik.info when no override is configured', () => {
+    expect(resolveKodikEndpoint('https://kodik.info/ftor')).toBe('https://kodik.info/ftor');
+  });
+
+  it('redirects absolute and protocol-relative kodik.info urls', () => {
+    expect(resolveKodikEndpoint('//kodik.info/serial/1/ab/720p?season=1', 'http://127.0.0.1:8787/'))
+      .toBe('http://127.0.0.1:8787/serial/1/ab/720p?season=1');
+    expect(resolveKodikEndpoint('https://kodik.info.evil.com/x', 'http://127.0.0.1:8787'))
+      .toBe('https://kodik.info.evil.com/x');
+  });
+});
@@ -0,0 +1,24 @@
+// Запуск мок сервера Kodik для ручной проверки тестовой сборки
+// npm run mock:kodik [-- --port 8787]
+// Сборка, направленная на этот сервер: npm run build:mock
+
+import { startMockKodikServer } from './server';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const port = portIndex !== -1 ? parseInt(args[portIndex + 1]) : 8787;
+
+  const server = await startMockKodikServer({ port });
+  console.log(`🧪 Mock Kodik server listening on ${server.url}`);
+  console.log(`📺 Sample episode: ${server.url}/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?season=1&episode=1`);
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,271 @@
+// Локальный заменитель kodik.info для сквозных тестов воспроизведения
+// Отдаёт страницу сериала, скрипт плеера, POST /ftor с зашифрованными ссылками и HLS плейлисты с сегментами
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockKodikOptions {
+  port?: number;
+  host?: string;
+  seasons?: number;
+  episodesPerSeason?: number;
+  qualities?: number[];
+  segmentCount?: number;
+  segmentDuration?: number;
+  rot?: number;
+}
+
+export interface MockKodikRequest {
+  method: string;
+  path: string;
+  body?: Record<string, string>;
+}
+
+export interface MockKodikServer {
+  url: string;
+  requests: MockKodikRequest[];
+  close(): Promise<void>;
+}
+
+const SCRIPT_PATH = '/assets/js/app.serial.mock.js';
+const POST_PATH = '/ftor';
+
+// Один кадр тишины AAC-LC 44.1kHz стерео с ADTS заголовком (длина кадра 16 байт)
+const ADTS_SILENT_FRAME = Buffer.from([0xff, 0xf1, 0x50, 0x80, 0x02, 0x1f, 0xfc, 0x21, 0x00, 0x49, 0x90, 0x02, 0x19, 0x00, 0x23, 0x80]);
+const AAC_FRAME_DURATION = 1024 / 44100;
+
+/**
+ * Шифрует ссылку как Kodik: base64 без padding + сдвиг латиницы, расшифровывается ROT<rot>
+ */
+export function encryptKodikLink(url: string, rot: number): string {
+  return Buffer.from(url).toString('base64')
+    .replace(/=+$/, '')
+    .replace(/[a-zA-Z]/g, char => {
+      const base = char <= 'Z' ? 65 : 97;
+      return String.fromCharCode((char.charCodeAt(0) - base - rot + 26) % 26 + base);
+    });
+}
+
+/**
+ * Страница сериала с urlParams, селекторами сезонов/серий и videoInfo
+ */
+function renderSerialPage(mediaId: string, mediaHash: string, season: number, episode: number, options: Required<MockKodikOptions>): string {
+  const urlParams = JSON.stringify({
+    d: 'animestars.org',
+    d_sign: 'mock-d-sign',
+    pd: 'kodik.info',
+    pd_sign: 'mock-pd-sign',
+    ref: '',
+    ref_sign: 'mock-ref-sign',
+    advert_debug: false,
+    min_age: 16,
+    first_url: false
+  });
+
+  const seasonOptions = Array.from({ length: options.seasons }, (_, i) => i + 1)
+    .map(n => `<option value="${n}" data-title="${n} сезон"${n === season ? ' selected' : ''}>${n} сезон</option>`)
+    .join('\n          ');
+
+  const seriesOptions = Array.from({ length: options.episodesPerSeason }, (_, i) => i + 1)
+    .map(n => `<option value="${n}" data-id="${mediaId}${season}${n}" data-hash="${mediaHash}" data-title="${n} серия"${n === episode ? ' selected' : ''}>${n} серия</option>`)
+    .join('\n          ');
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+  <meta charset="utf-8">
+  <title>Mock Kodik Player</title>
+  <script src="${SCRIPT_PATH}"></script>
+</head>
+<body>
+  <script>
+    var urlParams = '${urlParams}';
+  </script>
+  <div class="serial-panel">
+    <div class="serial-seasons-box">
+      <select name="season">
+          ${seasonOptions}
+      </select>
+    </div>
+    <div class="serial-series-box">
+      <select name="series">
+          ${seriesOptions}
+      </select>
+    </div>
+  </div>
+  <script>
+    var videoInfo = {};
+    videoInfo.type = 'seria';
+    videoInfo.hash = '${mediaHash}';
+    videoInfo.id = '${mediaId}-${season}-${episode}';
+  </script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Скрипт плеера с закодированной POST ссылкой в формате Kodik
+ */
+function renderPlayerScript(): string {
+  const encoded = Buffer.from(POST_PATH).toString('base64');
+  return `!function(){function r(e){var t=$.extend({},urlParams,videoInfo);$.ajax({type:"POST",url:atob("${encoded}"),cache:!1,data:t,dataType:"json",success:function(t){e(t.links)}})}window.getLinks=r}();\n`;
+}
+
+/**
+ * Медиа плейлист одного качества
+ */
+function renderMediaPlaylist(videoId: string, quality: number, options: Required<MockKodikOptions>): string {
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.ceil(options.segmentDuration)}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD'
+  ];
+  for (let i = 0; i < options.segmentCount; i++) {
+    lines.push(`#EXTINF:${options.segmentDuration.toFixed(3)},`, `/hls/${videoId}/${quality}/seg-${i}.aac`);
+  }
+  lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Мастер плейлист со всеми качествами
+ */
+function renderMasterPlaylist(videoId: string, options: Required<MockKodikOptions>): string {
+  const lines = ['#EXTM3U'];
+  for (const quality of options.qualities) {
+    const width = Math.round(quality * 16 / 9);
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${quality * 2000},RESOLUTION=${width}x${quality},CODECS="mp4a.40.2"`,
+      `/hls/${videoId}/${quality}.mp4:hls:manifest.m3u8`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Сегмент: поток кадров тишины AAC длительностью segmentDuration
+ */
+function renderSegment(options: Required<MockKodikOptions>): Buffer {
+  const frames = Math.ceil(options.segmentDuration / AAC_FRAME_DURATION);
+  return Buffer.concat(Array.from({ length: frames }, () => ADTS_SILENT_FRAME));
+}
+
+/**
+ * Читает тело x-www-form-urlencoded запроса
+ */
+function readForm(req: IncomingMessage): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(Object.fromEntries(new URLSearchParams(body))));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string | Buffer) {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    // HLS.js в content script загружает плейлисты и сегменты со страницы animestars
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(body);
+}
+
+/**
+ * Запускает мок сервер Kodik
+ */
+export function startMockKodikServer(userOptions: MockKodikOptions = {}): Promise<MockKodikServer> {
+  const options: Required<MockKodikOptions> = {
+    port: 0,
+    host: '127.0.0.1',
+    seasons: 2,
+    episodesPerSeason: 12,
+    qualities: [360, 480, 720],
+    segmentCount: 6,
+    segmentDuration: 2,
+    rot: 18,
+    ...userOptions
+  };
+  const requests: MockKodikRequest[] = [];
+  let baseUrl = '';
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', baseUrl);
+    const request: MockKodikRequest = { method: req.method || 'GET', path: url.pathname };
+    requests.push(request);
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' });
+        res.end();
+        return;
+      }
+
+      const serialMatch = url.pathname.match(/^\/serial\/(\d+)\/([a-f0-9]+)\/\d+p$/);
+      if (req.method === 'GET' && serialMatch) {
+        const season = parseInt(url.searchParams.get('season') || '1');
+        const episode = parseInt(url.searchParams.get('episode') || '1');
+        send(res, 200, 'text/html; charset=utf-8', renderSerialPage(serialMatch[1], serialMatch[2], season, episode, options));
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SCRIPT_PATH) {
+        send(res, 200, 'application/javascript', renderPlayerScript());
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === POST_PATH) {
+        request.body = await readForm(req);
+        if (!request.body.hash || !request.body.id || !request.body.d_sign) {
+          send(res, 400, 'application/json', JSON.stringify({ error: 'Missing video parameters' }));
+          return;
+        }
+
+        const links = Object.fromEntries(options.qualities.map(quality => [
+          String(quality),
+          [{ src: encryptKodikLink(`${baseUrl}/hls/${request.body!.id}/${quality}.mp4:hls:manifest.m3u8`, options.rot), type: 'application/x-mpegURL' }]
+        ]));
+        send(res, 200, 'application/json', JSON.stringify({ advert_script: '', default: options.qualities[0], links }));
+        return;
+      }
+
+      const masterMatch = url.pathname.match(/^\/hls\/([^/]+)\/master\.m3u8$/);
+      if (masterMatch) {
+        send(res, 200, 'application/vnd.apple.mpegurl', renderMasterPlaylist(masterMatch[1], options));
+        return;
+      }
+
+      const mediaMatch = url.pathname.match(/^\/hls\/([^/]+)\/(\d+)\.mp4:hls:manifest\.m3u8$/);
+      if (mediaMatch && options.qualities.includes(parseInt(mediaMatch[2]))) {
+        send(res, 200, 'application/vnd.apple.mpegurl', renderMediaPlaylist(mediaMatch[1], parseInt(mediaMatch[2]), options));
+        return;
+      }
+
+      const segmentMatch = url.pathname.match(/^\/hls\/[^/]+\/\d+\/seg-(\d+)\.aac$/);
+      if (segmentMatch && parseInt(segmentMatch[1]) < options.segmentCount) {
+        send(res, 200, 'audio/aac', renderSegment(options));
+        return;
+      }
+
+      send(res, 404, 'text/plain', 'Not found');
+    } catch (error) {
+      send(res, 500, 'text/plain', error instanceof Error ? error.message : 'Internal error');
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      const { port } = server.address() as AddressInfo;
+      baseUrl = `http://${options.host}:${port}`;
+      resolve({
+        url: baseUrl,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
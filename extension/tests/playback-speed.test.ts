@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlaybackSpeedManager } from '../src/utils/playback-speed';
+import { SettingsManager } from '../src/utils/settings-manager';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+describe('PlaybackSpeedManager', () => {
+  beforeEach(() => {
+    installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('remembers the rate per anime and falls back to the global rate', async () => {
+    await PlaybackSpeedManager.saveRate('3612', 1.5);
+
+    expect(await PlaybackSpeedManager.getRate('3612', 1)).toBe(1.5);
+    expect(await PlaybackSpeedManager.getRate('5821', 1.25)).toBe(1.25);
+    expect(await PlaybackSpeedManager.getRate(undefined, 2)).toBe(2);
+  });
+
+  it('steps through the menu rates and stops at the limits', () => {
+    expect(PlaybackSpeedManager.step(1, 1)).toBe(1.25);
+    expect(PlaybackSpeedManager.step(2, 1)).toBe(2.5);
+    expect(PlaybackSpeedManager.step(1.1, -1)).toBe(1);
+    expect(PlaybackSpeedManager.step(3, 1)).toBe(3);
+    expect(PlaybackSpeedManager.step(0.25, -1)).toBe(0.25);
+  });
+
+  it('rejects stored global rates outside 0.25×–3×', () => {
+    expect(SettingsManager.normalize({ playbackRate: 4 }).playbackRate).toBe(1);
+    expect(SettingsManager.normalize({ playbackRate: 2.5 }).playbackRate).toBe(2.5);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProgressManager } from '../src/utils/progress-manager';
+import { AnimeInfo, WatchProgress } from '../src/types/progress';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+const anime: AnimeInfo = { id: '3612', title: 'Test Anime', currentEpisode: 1 };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function savedProgress(overrides: Partial<WatchProgress> = {}): WatchProgress {
+  return {
+    animeId: anime.id,
+    season: 2,
+    episode: 5,
+    currentTime: 600,
+    duration: 1440,
+    lastWatched: Date.now(),
+    translationId: '1234_abcdef',
+    url: 'https://animestars.org/aniserials/3612-test.html',
+    ...overrides
+  };
+}
+
+describe('ProgressManager resume requests', () => {
+  let env: ReturnType<typeof installChromeStorage>;
+
+  beforeEach(() => {
+    env = installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('skips stale progress without an explicit request', async () => {
+    await env.storage.local.set({ animeWatchProgress: { [anime.id]: savedProgress({ lastWatched: Date.now() - 30 * DAY }) } });
+
+    expect(await ProgressManager.checkForResume(anime)).toBeNull();
+  });
+
+  it('resumes stale progress once when requested from the popup', async () => {
+    await env.storage.local.set({ animeWatchProgress: { [anime.id]: savedProgress({ lastWatched: Date.now() - 30 * DAY }) } });
+    await ProgressManager.requestResume(anime.id);
+
+    expect(await ProgressManager.checkForResume(anime)).toMatchObject({
+      resumeTime: 600,
+      season: 2,
+      episode: 5,
+      translation: '1234_abcdef'
+    });
+    expect(await ProgressManager.checkForResume(anime)).toBeNull();
+  });
+
+  it('keeps a request for another anime', async () => {
+    await env.storage.local.set({ animeWatchProgress: { [anime.id]: savedProgress({ currentTime: 10 }) } });
+    await ProgressManager.requestResume('5821');
+
+    expect(await ProgressManager.checkForResume(anime)).toBeNull();
+    expect(env.storage.local.data.pendingResume).toMatchObject({ animeId: '5821' });
+  });
+});
+
+describe('ProgressManager per-episode history', () => {
+  let env: ReturnType<typeof installChromeStorage>;
+
+  beforeEach(() => {
+    env = installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('migrates legacy single-record progress on first read', async () => {
+    await env.storage.local.set({ animeWatchProgress: { [anime.id]: savedProgress() } });
+
+    const history = await ProgressManager.getAnimeHistory(anime.id);
+
+    expect(history).toMatchObject({ lastEpisode: '2:5', translationId: '1234_abcdef' });
+    expect(history?.episodes['2:5']).toMatchObject({ state: 'partial', currentTime: 600, duration: 1440 });
+    expect(env.storage.local.data.animeWatchProgress).toBeUndefined();
+    expect(await ProgressManager.getProgress(anime.id)).toMatchObject({ season: 2, episode: 5, currentTime: 600 });
+  });
+
+  it('keeps separate records for each episode', async () => {
+    await ProgressManager.saveProgress({ ...anime, currentEpisode: 1 }, 1380, 1440);
+    await ProgressManager.saveProgress({ ...anime, currentEpisode: 2 }, 300, 1440);
+
+    const history = await ProgressManager.getAnimeHistory(anime.id);
+
+    expect(history?.episodes['1:1'].state).toBe('watched');
+    expect(history?.episodes['1:2'].state).toBe('partial');
+    expect(history?.lastEpisode).toBe('1:2');
+  });
+
+  it('keeps a watched episode watched after a partial rewatch', async () => {
+    await ProgressManager.markEpisodeWatched(anime, 1440);
+    await ProgressManager.saveProgress(anime, 120, 1440);
+
+    const episode = (await ProgressManager.getAnimeHistory(anime.id))?.episodes['1:1'];
+
+    expect(episode).toMatchObject({ state: 'watched', currentTime: 120 });
+    expect(episode?.completedAt).toBeTypeOf('number');
+  });
+});
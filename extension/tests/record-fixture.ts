@@ -0,0 +1,153 @@
+// Запись новых снимков страниц для tests/fixtures
+// Использование:
+//   npm run fixtures:record -- kodik <name> <kodik embed url>
+//   npm run fixtures:record -- anime-page <name> <animestars/asstars url>
+// Ожидаемые значения в *.meta.json заполняются текущими парсерами — проверьте их вручную перед коммитом
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+import { extractPostLink, extractVideoDataFromPage, KodikStreamResolver, KodikTransport } from '../src/api/stream-resolver';
+import { parseEpisodeCount, parseSeasons } from '../src/utils/kodik-page-parser';
+import { AnimeParser } from '../src/utils/anime-parser';
+import { FIXTURES_DIR, FixtureKind, FixtureMeta } from './helpers/fixtures';
+
+const REFERER = 'https://animestars.org/';
+
+/**
+ * Записывает снимок и его метаданные
+ */
+function writeFixture<K extends FixtureKind>(dir: string, name: string, ext: string, content: string, meta: Omit<FixtureMeta<K>, 'file' | 'recordedAt'>) {
+  mkdirSync(join(FIXTURES_DIR, dir), { recursive: true });
+
+  const file = `${name}.${ext}`;
+  writeFileSync(join(FIXTURES_DIR, dir, file), content);
+  writeFileSync(
+    join(FIXTURES_DIR, dir, `${name}.meta.json`),
+    JSON.stringify({ ...meta, file, recordedAt: new Date().toISOString().slice(0, 10) }, null, 2) + '\n'
+  );
+  console.log(`💾 ${dir}/${file}`);
+}
+
+/**
+ * Записывает страницу плеера, скрипт и ответ с ссылками за один проход резолвера
+ */
+async function recordKodik(name: string, embedUrl: string) {
+  const responses = new Map<string, string>();
+  const transport: KodikTransport = {
+    async getText(url) {
+      const response = await fetch(url, { headers: { Referer: REFERER } });
+      const text = await response.text();
+      responses.set(url, text);
+      return text;
+    },
+    async postForm(url, data) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Referer: REFERER },
+        body: new URLSearchParams(data).toString()
+      });
+      const text = await response.text();
+      responses.set(url, text);
+      return JSON.parse(text);
+    }
+  };
+
+  const resolver = new KodikStreamResolver(transport);
+  const resolution = await resolver.resolve(embedUrl).catch(error => {
+    console.error('❌ Resolver failed, recording what was fetched:', error.message);
+    return null;
+  });
+
+  const html = responses.get(embedUrl);
+  if (html) {
+    const data = extractVideoDataFromPage(html);
+    const { seasons, selected } = parseSeasons(html);
+    writeFixture<'kodik-embed'>('kodik', name, 'html', html, {
+      kind: 'kodik-embed',
+      url: embedUrl,
+      expected: {
+        strategies: resolution
+          ? { urlParams: resolution.diagnostics.matched.urlParams, videoParams: resolution.diagnostics.matched.videoParams, scriptUrl: resolution.diagnostics.matched.scriptUrl }
+          : undefined,
+        videoType: data?.videoType,
+        videoHash: data?.videoHash,
+        videoId: data?.videoId,
+        scriptUrl: data?.scriptUrl,
+        episodeCount: parseEpisodeCount(html),
+        seasons: seasons.map(season => season.number),
+        selectedSeason: selected
+      }
+    });
+  }
+
+  const scriptUrl = resolution?.diagnostics.scriptUrl;
+  const script = scriptUrl ? responses.get(scriptUrl) : undefined;
+  if (scriptUrl && script) {
+    writeFixture<'kodik-script'>('kodik', `${name}-script`, 'js', script, {
+      kind: 'kodik-script',
+      url: scriptUrl,
+      expected: {
+        strategy: resolution?.diagnostics.matched.postLink,
+        postLink: extractPostLink(script) ?? ''
+      }
+    });
+  }
+
+  const postUrl = resolution?.diagnostics.postUrl;
+  const linksJson = postUrl ? responses.get(postUrl) : undefined;
+  if (resolution && postUrl && linksJson) {
+    writeFixture<'kodik-links'>('kodik', `${name}-response`, 'json', linksJson, {
+      kind: 'kodik-links',
+      url: postUrl,
+      expected: {
+        qualities: resolution.qualities,
+        maxQuality: resolution.maxQuality,
+        decryptedQualities: resolution.diagnostics.decryptedQualities,
+        streams: Object.fromEntries(Object.entries(resolution.streams))
+      }
+    });
+  }
+}
+
+/**
+ * Записывает страницу аниме с animestars/asstars
+ */
+async function recordAnimePage(name: string, url: string) {
+  const response = await fetch(url);
+  const html = await response.text();
+
+  // AnimeParser читает глобальный document, как в content script
+  const dom = new JSDOM(html, { url });
+  (globalThis as { document?: Document }).document = dom.window.document;
+
+  writeFixture<'anime-page'>('animestars', name, 'html', html, {
+    kind: 'anime-page',
+    url,
+    expected: {
+      animeId: AnimeParser.extractAnimeId(url),
+      episodeCount: parseEpisodeCount(html)
+    }
+  });
+}
+
+async function main() {
+  const [kind, name, url] = process.argv.slice(2).filter(arg => arg !== '--');
+  if (!kind || !name || !url) {
+    console.error('Usage: npm run fixtures:record -- <kodik|anime-page> <name> <url>');
+    process.exit(1);
+  }
+
+  if (kind === 'kodik') {
+    await recordKodik(name, url);
+  } else if (kind === 'anime-page') {
+    await recordAnimePage(name, url);
+  } else {
+    console.error(`Unknown fixture kind: ${kind}`);
+    process.exit(1);
+  }
+
+  console.log('✅ Done. Review expected values in the *.meta.json files before committing.');
+}
+
+main();
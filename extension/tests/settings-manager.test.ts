@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SettingsManager } from '../src/utils/settings-manager';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+describe('SettingsManager.normalize', () => {
+  it('fills defaults for missing and invalid values', () => {
+    expect(SettingsManager.normalize({ defaultQuality: '4k', autoplay: 'yes' })).toEqual(SettingsManager.DEFAULTS);
+  });
+
+  it('parses bufferSize saved as a string by the old popup', () => {
+    expect(SettingsManager.normalize({ bufferSize: '20', defaultQuality: 'auto' })).toMatchObject({
+      bufferSize: 20,
+      defaultQuality: 'auto'
+    });
+  });
+
+  it('validates auto-next countdown and still-watching limit', () => {
+    expect(SettingsManager.normalize({ nextEpisodeCountdown: 5, stillWatchingAfter: 0, autoNext: false })).toMatchObject({
+      nextEpisodeCountdown: 5,
+      stillWatchingAfter: 0,
+      autoNext: false
+    });
+    expect(SettingsManager.normalize({ nextEpisodeCountdown: 600, stillWatchingAfter: -1 })).toMatchObject({
+      nextEpisodeCountdown: SettingsManager.DEFAULTS.nextEpisodeCountdown,
+      stillWatchingAfter: SettingsManager.DEFAULTS.stillWatchingAfter
+    });
+  });
+});
+
+describe('SettingsManager storage', () => {
+  let env: ReturnType<typeof installChromeStorage>;
+
+  beforeEach(() => {
+    env = installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('writes defaults only for missing keys', async () => {
+    await env.storage.sync.set({ enablePlayer: false });
+    await SettingsManager.ensureDefaults();
+
+    expect(await SettingsManager.getSettings()).toEqual({ ...SettingsManager.DEFAULTS, enablePlayer: false });
+  });
+
+  it('notifies listeners about changed settings keys only', async () => {
+    const listener = vi.fn();
+    const unsubscribe = SettingsManager.onChange(listener);
+
+    await env.storage.local.set({ bufferSize: 30 });
+    await env.storage.sync.set({ unrelated: 1 });
+    await SettingsManager.saveSettings({ autoplay: false, bufferSize: 30 });
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+
+    expect(listener).toHaveBeenCalledWith(
+      { ...SettingsManager.DEFAULTS, autoplay: false, bufferSize: 30 },
+      ['autoplay', 'bufferSize']
+    );
+
+    unsubscribe();
+    expect(env.listeners.size).toBe(0);
+  });
+});
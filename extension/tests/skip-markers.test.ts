@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SkipMarkersManager } from '../src/utils/skip-markers';
+import { AnimeInfo } from '../src/types/progress';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+const episode = (currentEpisode: number, translationId = '610_voice'): AnimeInfo => ({
+  id: '3612',
+  title: 'Test Anime',
+  currentSeason: 1,
+  currentEpisode,
+  translationId
+});
+
+describe('SkipMarkersManager', () => {
+  beforeEach(() => {
+    installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reuses series markers across episodes of the same translation', async () => {
+    await SkipMarkersManager.setMarker(episode(1), 'opening', { start: 85, end: 175 }, 'series');
+
+    expect(await SkipMarkersManager.getMarkers(episode(7))).toMatchObject({
+      opening: { start: 85, end: 175 },
+      ending: null,
+      sources: { opening: 'series', ending: null }
+    });
+    expect((await SkipMarkersManager.getMarkers(episode(7, '1978_subs'))).opening).toBeNull();
+  });
+
+  it('applies per-episode overrides and falls back after clearing them', async () => {
+    await SkipMarkersManager.setMarker(episode(1), 'opening', { start: 85, end: 175 }, 'series');
+    await SkipMarkersManager.setMarker(episode(1), 'opening', null, 'episode');
+    await SkipMarkersManager.setMarker(episode(2), 'opening', { start: 0, end: 90 }, 'episode');
+
+    expect(await SkipMarkersManager.getMarkers(episode(1))).toMatchObject({ opening: null, sources: { opening: 'episode' } });
+    expect((await SkipMarkersManager.getMarkers(episode(2))).opening).toEqual({ start: 0, end: 90 });
+
+    await SkipMarkersManager.clearMarker(episode(1), 'opening', 'episode');
+    expect((await SkipMarkersManager.getMarkers(episode(1))).opening).toEqual({ start: 85, end: 175 });
+  });
+
+  it('finds the segment under the playback position', () => {
+    const markers = { ...SkipMarkersManager.empty(), opening: { start: 85, end: 175 }, ending: { start: 1290, end: 1380 } };
+
+    expect(SkipMarkersManager.findActiveSegment(markers, 90)).toBe('opening');
+    expect(SkipMarkersManager.findActiveSegment(markers, 175)).toBeNull();
+    expect(SkipMarkersManager.findActiveSegment(markers, 1300)).toBe('ending');
+  });
+
+  it('rejects empty ranges', async () => {
+    await expect(SkipMarkersManager.setMarker(episode(1), 'ending', { start: 100, end: 100 }, 'series')).rejects.toThrow();
+  });
+});
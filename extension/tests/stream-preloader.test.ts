@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StreamPreloader } from '../src/utils/stream-preloader';
+import { KodikStreamResolution, KodikStreamTarget } from '../src/types/kodik';
+
+const resolution = (manifest: string): KodikStreamResolution => ({
+  streams: { 720: manifest, 480: manifest.replace('720', '480') },
+  qualities: [720, 480],
+  maxQuality: 720,
+  subtitles: [],
+  diagnostics: { embedUrl: '', matched: {}, attempts: [], decryptedQualities: [], failedQualities: [], durationMs: 0 }
+});
+
+const episode = (number: number): KodikStreamTarget => ({
+  mediaType: 'serial',
+  mediaId: '49249',
+  mediaHash: 'af36468bfed522cd79e623c185b1dc8a',
+  translationId: '609',
+  season: 1,
+  episode: number
+});
+
+const playlist = '#EXTM3U\n#EXTINF:6.0,\nseg-1.ts\n#EXTINF:6.0,\nseg-2.ts\n#EXTINF:6.0,\nseg-3.ts\n#EXT-X-ENDLIST\n';
+
+const fetchStub = () => vi.fn(async (input: RequestInfo | URL) =>
+  new Response(String(input).endsWith('.m3u8') ? playlist : 'data')
+) as unknown as typeof fetch & ReturnType<typeof vi.fn>;
+
+describe('StreamPreloader', () => {
+  it('resolves the next episode once and hands it to the player', async () => {
+    const resolve = vi.fn(async () => resolution('https://cdn.test/720.mp4:hls:manifest.m3u8'));
+    const preloader = new StreamPreloader(resolve, fetchStub());
+
+    preloader.preload(episode(2), 720);
+    preloader.preload(episode(2), 720);
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+    await expect(preloader.take(episode(2))).resolves.toMatchObject({ maxQuality: 720 });
+    await expect(preloader.take(episode(2))).resolves.toBeNull();
+  });
+
+  it('warms the manifest and first segments of the preferred quality', async () => {
+    const fetchFn = fetchStub();
+    const preloader = new StreamPreloader(async () => resolution('https://cdn.test/hls/720.mp4:hls:manifest.m3u8'), fetchFn);
+
+    preloader.preload(episode(2), 480);
+    await preloader.take(episode(2));
+    await vi.waitFor(() => expect(fetchFn).toHaveBeenCalledTimes(1 + StreamPreloader.WARM_SEGMENTS));
+
+    expect(fetchFn.mock.calls.map(call => String(call[0]))).toEqual([
+      'https://cdn.test/hls/480.mp4:hls:manifest.m3u8',
+      'https://cdn.test/hls/seg-1.ts',
+      'https://cdn.test/hls/seg-2.ts'
+    ]);
+  });
+
+  it('drops cancelled and mismatched preloads', async () => {
+    const preloader = new StreamPreloader(async () => resolution('https://cdn.test/720.m3u8'), fetchStub());
+
+    preloader.preload(episode(2), null);
+    preloader.cancel();
+    await expect(preloader.take(episode(2))).resolves.toBeNull();
+
+    preloader.preload(episode(2), null);
+    await expect(preloader.take(episode(5))).resolves.toBeNull();
+    await expect(preloader.take(episode(2))).resolves.toBeNull();
+  });
+});
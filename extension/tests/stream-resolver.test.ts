@@ -0,0 +1,67 @@
+// Полный пайплайн резолвера на сохранённых снимках без сети
+
+import { describe, expect, it } from 'vitest';
+import { KodikStreamResolveError, KodikStreamResolver, KodikTransport } from '../src/api/stream-resolver';
+import { findFixtureByUrl, loadFixtures } from './helpers/fixtures';
+
+/**
+ * Транспорт, отвечающий содержимым снимков по их исходным URL
+ */
+const fixtureTransport: KodikTransport = {
+  async getText(url) {
+    const fixture = findFixtureByUrl(url);
+    if (!fixture) throw new Error(`No fixture for ${url}`);
+    return fixture.content;
+  },
+  async postForm(url) {
+    const fixture = findFixtureByUrl(url);
+    if (!fixture) throw new Error(`No fixture for ${url}`);
+    return JSON.parse(fixture.content);
+  }
+};
+
+describe('KodikStreamResolver', () => {
+  const [links] = loadFixtures('kodik-links');
+  const embed = loadFixtures('kodik-embed').find(fixture => fixture.name === 'kodik/serial-page')!;
+
+  it('resolves per-quality streams from recorded pages', async () => {
+    const resolver = new KodikStreamResolver(fixtureTransport);
+    const resolution = await resolver.resolve(embed.url);
+
+    expect(resolution.qualities).toEqual(links.expected.qualities);
+    expect(resolution.maxQuality).toBe(links.expected.maxQuality);
+    for (const [quality, url] of Object.entries(links.expected.streams)) {
+      expect(resolution.streams[Number(quality)]).toBe(url);
+    }
+
+    expect(resolution.diagnostics.matched).toEqual({
+      urlParams: 'quoted-json',
+      videoParams: 'dot-assignment',
+      scriptUrl: 'app-bundle',
+      postLink: 'ajax-atob'
+    });
+    expect(resolution.diagnostics.postUrl).toBe(links.url);
+    expect(resolution.diagnostics.decryptedQualities).toEqual(links.expected.decryptedQualities);
+  });
+
+  it('reports the failing stage with diagnostics', async () => {
+    const resolver = new KodikStreamResolver({
+      ...fixtureTransport,
+      getText: async () => '<html><body>Видео недоступно</body></html>'
+    });
+
+    const error = await resolver.resolve(embed.url).catch(e => e);
+    expect(error).toBeInstanceOf(KodikStreamResolveError);
+    expect(error.stage).toBe('urlParams');
+    expect(error.diagnostics.attempts.filter((a: { stage: string }) => a.stage === 'urlParams')).toHaveLength(3);
+  });
+
+  it('tries custom strategies before the defaults', async () => {
+    const resolver = new KodikStreamResolver(fixtureTransport);
+    resolver.addStrategy('postLink', { name: 'hardcoded', extract: () => '/ftor' });
+
+    expect(resolver.getStrategyNames('postLink')[0]).toBe('hardcoded');
+    const resolution = await resolver.resolve(embed.url);
+    expect(resolution.diagnostics.matched.postLink).toBe('hardcoded');
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StreamResolveService } from '../src/background/stream-service';
+import { KodikStreamResolution, KodikStreamTarget } from '../src/types/kodik';
+import { installChromeStorage } from './helpers/chrome-storage';
+
+const resolution: KodikStreamResolution = {
+  streams: { 720: 'https://cdn.test/720.mp4:hls:manifest.m3u8' },
+  qualities: [720],
+  maxQuality: 720,
+  subtitles: [],
+  diagnostics: { embedUrl: '', matched: {}, attempts: [], decryptedQualities: [], failedQualities: [], durationMs: 0 }
+};
+
+const target: KodikStreamTarget = {
+  mediaType: 'serial',
+  mediaId: '49249',
+  mediaHash: 'af36468bfed522cd79e623c185b1dc8a',
+  translationId: '609',
+  season: 1,
+  episode: 3
+};
+
+describe('StreamResolveService', () => {
+  let chromeStub: ReturnType<typeof installChromeStorage>;
+
+  beforeEach(() => {
+    chromeStub = installChromeStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves the episode embed URL once for concurrent requests', async () => {
+    const resolveUrl = vi.fn(async () => resolution);
+    const service = new StreamResolveService(resolveUrl);
+
+    const results = await Promise.all([service.resolve(target), service.resolve({ ...target })]);
+
+    expect(resolveUrl).toHaveBeenCalledTimes(1);
+    expect(resolveUrl).toHaveBeenCalledWith(expect.stringMatching(/\/serial\/49249\/af36468bfed522cd79e623c185b1dc8a\/720p\?.*season=1&episode=3/));
+    expect(results.map(result => result.cached)).toEqual([false, true]);
+  });
+
+  it('shares cached results through session storage', async () => {
+    await new StreamResolveService(async () => resolution).resolve(target);
+
+    // Новый экземпляр — как после перезапуска service worker
+    const resolveUrl = vi.fn(async () => resolution);
+    const result = await new StreamResolveService(resolveUrl).resolve(target);
+
+    expect(resolveUrl).not.toHaveBeenCalled();
+    expect(result).toEqual({ resolution, cached: true });
+    expect(Object.keys(chromeStub.storage.session.data)).toHaveLength(1);
+  });
+
+  it('resolves again after the cache expires or the episode changes', async () => {
+    vi.useFakeTimers();
+    const resolveUrl = vi.fn(async () => resolution);
+    const service = new StreamResolveService(resolveUrl);
+
+    await service.resolve(target);
+    await service.resolve({ ...target, episode: 4 });
+    vi.advanceTimersByTime(StreamResolveService.TTL + 1);
+    await service.resolve(target);
+
+    expect(resolveUrl).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not cache failures', async () => {
+    const resolveUrl = vi.fn()
+      .mockRejectedValueOnce(new Error('HTTP error! status: 500'))
+      .mockResolvedValueOnce(resolution);
+    const service = new StreamResolveService(resolveUrl);
+
+    await expect(service.resolve(target)).rejects.toThrow('status: 500');
+    await expect(service.resolve(target)).resolves.toEqual({ resolution, cached: false });
+    expect(resolveUrl).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleConverter } from '../src/utils/subtitle-converter';
+
+const ass = `[Script Info]
+ScriptType: v4.00+
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, Bold, Italic, Underline, Alignment, MarginV
+Style: Default,Arial,48,&H00FFFFFF,0,0,0,2,20
+Style: Sign,Arial,40,&H0000FFFF,0,0,0,8,20
+Style: Thoughts,Arial,48,&H00FFFFFF,0,-1,0,2,20
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:05.50,0:00:08.00,Thoughts,,0,0,0,,Опять, снова, всё сначала
+Dialogue: 0,0:00:01.00,0:00:03.25,Default,,0,0,0,,{\\fad(200,200)}Привет,\\Nмир! {\\i1}Курсив{\\i0} & <тег>
+Dialogue: 0,0:00:02.00,0:00:04.00,Sign,,0,0,0,,Вывеска
+Dialogue: 0,0:00:02.00,0:00:04.00,Default,,0,0,0,,{\\an8\\bord2}Сверху
+Dialogue: 0,0:00:02.00,0:00:04.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100{\\p0}
+`;
+
+describe('SubtitleConverter', () => {
+  it('detects formats by extension and content', () => {
+    expect(SubtitleConverter.detectFormat('', 'https://cdn.test/ep1.ass?token=1')).toBe('ass');
+    expect(SubtitleConverter.detectFormat('\uFEFFWEBVTT\n\n')).toBe('vtt');
+    expect(SubtitleConverter.detectFormat(ass)).toBe('ass');
+    expect(SubtitleConverter.detectFormat('1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('srt');
+  });
+
+  it('converts SRT timestamps and adds the header', () => {
+    const vtt = SubtitleConverter.toVtt('1\r\n00:00:01,000 --> 00:00:02,500\r\nПривет\r\n');
+
+    expect(vtt).toBe('WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.500\nПривет\n');
+  });
+
+  it('converts ASS dialogue with tags, styles and top alignment', () => {
+    const vtt = SubtitleConverter.toVtt(ass);
+
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt.split('\n\n').slice(1)).toEqual([
+      '00:00:01.000 --> 00:00:03.250\nПривет,\nмир! <i>Курсив</i> &amp; &lt;тег&gt;',
+      '00:00:02.000 --> 00:00:04.000 line:5% position:50% align:center\nВывеска',
+      '00:00:02.000 --> 00:00:04.000 line:5% position:50% align:center\nСверху',
+      '00:00:05.500 --> 00:00:08.000\n<i>Опять, снова, всё сначала</i>\n'
+    ]);
+  });
+
+  it('parses cues from user files in any format', () => {
+    const vtt = 'WEBVTT\n\nNOTE комментарий\n\nintro\n00:01.500 --> 00:03.000 line:5%\nПривет\n\n00:00:00.500 --> 00:00:01.000\nПервая\n';
+
+    expect(SubtitleConverter.parseCues(vtt, 'episode.vtt')).toEqual([
+      { start: 0.5, end: 1, text: 'Первая', settings: '' },
+      { start: 1.5, end: 3, text: 'Привет', settings: 'line:5%' }
+    ]);
+    expect(SubtitleConverter.parseCues(ass, 'episode.ass')[0]).toEqual({
+      start: 1,
+      end: 3.25,
+      text: 'Привет,\nмир! <i>Курсив</i> &amp; &lt;тег&gt;',
+      settings: ''
+    });
+  });
+});
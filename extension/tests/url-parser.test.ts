@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildKodikEpisodeUrl, isSerial, isVideo, parseKodikUrl } from '../src/utils/url-parser';
+
+describe('parseKodikUrl', () => {
+  it('parses translation links from the animestars translators list', () => {
+    expect(parseKodikUrl('//kodik.info/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?translations=false&only_translations=609&geoblock=RU')).toEqual({
+      media_id: '49249',
+      media_hash: 'af36468bfed522cd79e623c185b1dc8a',
+      quality: '720',
+      translation_id: '609'
+    });
+  });
+
+  it('reads season and episode from episode links', () => {
+    expect(parseKodikUrl('https://kodik.info/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?season=2&episode=5')).toMatchObject({
+      season: 2,
+      episode: 5
+    });
+  });
+
+  it('accepts video links and rejects foreign urls', () => {
+    expect(parseKodikUrl('https://kodik.info/video/88421/d41e8c7b2a9f06153e4d7c8b9a0f1e2d/720p')?.media_id).toBe('88421');
+    expect(parseKodikUrl('https://animestars.org/aniserials/video/action/3612.html')).toBeNull();
+  });
+
+  it('detects link type', () => {
+    expect(isSerial('//kodik.info/serial/1/ab/720p')).toBe(true);
+    expect(isVideo('//kodik.info/video/1/ab/720p')).toBe(true);
+  });
+});
+
+describe('buildKodikEpisodeUrl', () => {
+  it('builds serial and film embed urls', () => {
+    const target = { mediaId: '49249', mediaHash: 'af36468bfed522cd79e623c185b1dc8a', translationId: '609' };
+
+    expect(buildKodikEpisodeUrl({ ...target, mediaType: 'serial', season: 2, episode: 5 }))
+      .toBe('https://kodik.info/serial/49249/af36468bfed522cd79e623c185b1dc8a/720p?min_age=16&first_url=false&season=2&episode=5');
+    expect(buildKodikEpisodeUrl({ ...target, mediaType: 'video', season: 1, episode: 0 }))
+      .toBe('https://kodik.info/video/49249/af36468bfed522cd79e623c185b1dc8a/720p?min_age=16&first_url=false&season=1&episode=0');
+  });
+});
@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 const CopyWebpackPlugin = require('copy-webpack-plugin');
 const { CleanWebpackPlugin } = require('clean-webpack-plugin');
 const TerserPlugin = require('terser-webpack-plugin');
@@ -6,6 +7,10 @@ const TerserPlugin = require('terser-webpack-plugin');
 module.exports = (env, argv) => {
   const isProduction = argv.mode === 'production';
   const isDevelopment = !isProduction;
+  // Подмена kodik.info локальным сервером для тестовых сборок: --env kodikBaseUrl=http://localhost:8787
+  const kodikBaseUrl = (env && env.kodikBaseUrl) || '';
+  // id расширения для статических правил заголовков: --env extensionId=<id из chrome://extensions>
+  const extensionId = (env && env.extensionId) || '';
   
   return {
     mode: isProduction ? 'production' : 'development',
@@ -13,7 +18,9 @@ module.exports = (env, argv) => {
     
     entry: {
       'content-script': './src/content/content-script.ts',
-      'background': './src/background/background.ts'
+      'background': './src/background/background.ts',
+      'popup': './src/popup/popup.ts',
+      'options': './src/options/options.ts'
     },
     
     output: {
@@ -107,27 +114,9 @@ module.exports = (env, argv) => {
         })
       ] : [],
       
-      // Code splitting для уменьшения размера
-      splitChunks: isProduction ? {
-        chunks: 'all',
-        cacheGroups: {
-          // Выносим общие утилиты в отдельный чанк
-          vendor: {
-            test: /[\\/]node_modules[\\/]/,
-            name: 'vendors',
-            chunks: 'all',
-            priority: 10
-          },
-          // Общие утилиты приложения
-          common: {
-            name: 'common',
-            minChunks: 2,
-            chunks: 'all',
-            priority: 5,
-            reuseExistingChunk: true
-          }
-        }
-      } : false,
+      // Без code splitting: content script и service worker не умеют подгружать чанки,
+      // поэтому общие модули (настройки, типы) встраиваются в каждую точку входа
+      splitChunks: false,
       
       // Оптимизация runtime кода
       runtimeChunk: false, // Отключаем для Chrome extension
@@ -142,6 +131,10 @@ module.exports = (env, argv) => {
     },
     
     plugins: [
+      new webpack.DefinePlugin({
+        __KODIK_BASE_URL__: JSON.stringify(kodikBaseUrl)
+      }),
+      
       // Очищаем dist перед сборкой
       new CleanWebpackPlugin({
         cleanStaleWebpackAssets: false
@@ -153,7 +146,15 @@ module.exports = (env, argv) => {
           // Манифест
           {
             from: 'manifest.json',
-            to: 'manifest.json'
+            to: 'manifest.json',
+            // Тестовой сборке нужен доступ к локальному серверу Kodik
+            transform: (content) => {
+              if (!kodikBaseUrl) return content;
+              const manifest = JSON.parse(content.toString());
+              const { protocol, hostname } = new URL(kodikBaseUrl);
+              manifest.host_permissions.push(`${protocol}//${hostname}/*`);
+              return JSON.stringify(manifest, null, 2);
+            }
           },
           
           // Стили
@@ -166,12 +167,22 @@ module.exports = (env, argv) => {
             noErrorOnMissing: true
           },
           
-          // Popup файлы
+          // Popup файлы (popup.ts собирается как точка входа)
           {
             from: 'src/popup',
             to: '.',
             globOptions: {
-              ignore: ['**/.gitkeep']
+              ignore: ['**/.gitkeep', '**/*.ts']
+            },
+            noErrorOnMissing: true
+          },
+          
+          // Страница настроек (options.ts собирается как точка входа)
+          {
+            from: 'src/options',
+            to: '.',
+            globOptions: {
+              ignore: ['**/.gitkeep', '**/*.ts']
             },
             noErrorOnMissing: true
           },
@@ -186,6 +197,16 @@ module.exports = (env, argv) => {
             noErrorOnMissing: true
           },
           
+          // Статические правила declarativeNetRequest: инициатор — само расширение
+          {
+            from: 'assets/rules',
+            to: 'rules',
+            transform: (content) => {
+              if (!extensionId) return content;
+              return content.toString().replace(/"extension-id"/g, JSON.stringify(extensionId));
+            }
+          },
+          
           // HLS.js библиотека с оптимизацией
           {
             from: 'assets/hls.min.js',